@@ -17,6 +17,9 @@ import { DefectDetailPage } from "./components/DefectDetailPage";
 import { ProjectsPage } from "./components/ProjectsPage";
 import { AnalyticsPage } from "./components/AnalyticsPage";
 import { AdminPage } from "./components/AdminPage";
+import { SettingsPage } from "./components/SettingsPage";
+import { SearchPage } from "./components/SearchPage";
+import { authClient } from "./utils/auth";
 import { ToastContainer, toast } from "react-toastify";
 import "react-toastify/dist/ReactToastify.css";
 
@@ -24,25 +27,21 @@ export default function App() {
   const [accessToken, setAccessToken] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState("/");
   const [selectedDefectId, setSelectedDefectId] = useState<string | null>(null);
+  // Page the defect detail goes back to
+  const [returnPage, setReturnPage] = useState("/defects");
+  const [searchQuery, setSearchQuery] = useState("");
   const [userInfo, setUserInfo] = useState<any>(null);
 
   // Check for existing session on app load
   useEffect(() => {
     const checkSession = async () => {
       try {
-        const { createClient } = await import("@supabase/supabase-js");
-        const { projectId, publicAnonKey } = await import("./utils/supabase/info");
+        const session = await authClient.getSession();
         
-        const supabase = createClient(
-          `https://${projectId}.supabase.co`,
-          publicAnonKey
-        );
-
-        const { data: { session } } = await supabase.auth.getSession();
-        
-        if (session?.access_token) {
-          setAccessToken(session.access_token);
+        if (session?.accessToken) {
+          setAccessToken(session.accessToken);
           setUserInfo({
+            id: session.user.id,
             name: session.user.user_metadata?.name || session.user.email,
             role: session.user.user_metadata?.role || 'observer'
           });
@@ -63,6 +62,7 @@ export default function App() {
     try {
       const payload = JSON.parse(atob(token.split('.')[1]));
       setUserInfo({
+        id: payload.sub,
         name: payload.user_metadata?.name || payload.email,
         role: payload.user_metadata?.role || 'observer'
       });
@@ -73,15 +73,7 @@ export default function App() {
 
   const handleLogout = async () => {
     try {
-      const { createClient } = await import("@supabase/supabase-js");
-      const { projectId, publicAnonKey } = await import("./utils/supabase/info");
-      
-      const supabase = createClient(
-        `https://${projectId}.supabase.co`,
-        publicAnonKey
-      );
-
-      await supabase.auth.signOut();
+      await authClient.signOut();
       setAccessToken(null);
       setUserInfo(null);
       setCurrentPage("/");
@@ -102,6 +94,8 @@ export default function App() {
   };
 
   const handleViewDefect = (defectId: string) => {
+    // Defects opened from search results go back to the results
+    setReturnPage(currentPage === "/search" ? "/search" : "/defects");
     setSelectedDefectId(defectId);
     setCurrentPage("/defect-detail");
   };
@@ -116,6 +110,11 @@ export default function App() {
     setSelectedDefectId(null);
   };
 
+  const handleBackFromDefect = () => {
+    setCurrentPage(returnPage);
+    setSelectedDefectId(null);
+  };
+
   // If not authenticated, show auth page
   if (!accessToken) {
     return <AuthPage onLogin={handleLogin} />;
@@ -131,7 +130,6 @@ export default function App() {
             accessToken={accessToken} 
             onCreateDefect={handleCreateDefect}
             onViewDefect={handleViewDefect}
-            userRole={userInfo?.role}
           />
         );
       case "/create-defect":
@@ -147,7 +145,8 @@ export default function App() {
           <DefectDetailPage 
             accessToken={accessToken} 
             defectId={selectedDefectId}
-            onBack={handleBackToDefects}
+            onBack={handleBackFromDefect}
+            userId={userInfo?.id}
             userRole={userInfo?.role}
           />
         ) : (
@@ -155,13 +154,23 @@ export default function App() {
             accessToken={accessToken} 
             onCreateDefect={handleCreateDefect}
             onViewDefect={handleViewDefect}
-            userRole={userInfo?.role}
+          />
+        );
+      case "/search":
+        return (
+          <SearchPage
+            accessToken={accessToken}
+            query={searchQuery}
+            onQueryChange={setSearchQuery}
+            onViewDefect={handleViewDefect}
           />
         );
       case "/projects":
-        return <ProjectsPage accessToken={accessToken} />;
+        return <ProjectsPage accessToken={accessToken} userRole={userInfo?.role} />;
       case "/analytics":
         return <AnalyticsPage accessToken={accessToken} />;
+      case "/settings":
+        return <SettingsPage accessToken={accessToken} />;
       case "/admin":
         return <AdminPage accessToken={accessToken} />;
       default:
@@ -177,6 +186,8 @@ export default function App() {
           onNavigate={handleNavigate}
           onLogout={handleLogout}
           userInfo={userInfo}
+          accessToken={accessToken}
+          onViewDefect={handleViewDefect}
         />
         
         <SidebarInset className="flex-1 overflow-auto">
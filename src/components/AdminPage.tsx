@@ -5,7 +5,10 @@ import { Badge } from "./ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
 import { toast } from "sonner@2.0.3";
-import { usersAPI } from "../utils/api";
+import { adminAPI, usersAPI } from "../utils/api";
+import { WebhooksCard } from "./WebhooksCard";
+import { SlaPolicyCard } from "./SlaPolicyCard";
+import { JobsCard } from "./JobsCard";
 
 interface AdminPageProps {
   accessToken: string;
@@ -37,6 +40,8 @@ export function AdminPage({ accessToken }: AdminPageProps) {
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [updatingUser, setUpdatingUser] = useState<string | null>(null);
+  const [reindexing, setReindexing] = useState(false);
+  const [backfilling, setBackfilling] = useState(false);
 
   useEffect(() => {
     loadUsers();
@@ -74,6 +79,33 @@ export function AdminPage({ accessToken }: AdminPageProps) {
     }
   };
 
+  const rebuildIndexes = async () => {
+    try {
+      setReindexing(true);
+      const result = await adminAPI.reindex(accessToken);
+      toast.success(`Индексы перестроены: ${result.defects} дефектов, ${result.indexEntries} записей`);
+    } catch (error) {
+      console.error('Error rebuilding indexes:', error);
+      toast.error("Ошибка при перестроении индексов");
+    } finally {
+      setReindexing(false);
+    }
+  };
+
+  const backfillMemberships = async () => {
+    if (!window.confirm("Добавить всех пользователей во все проекты с их текущими ролями?")) return;
+    try {
+      setBackfilling(true);
+      const result = await adminAPI.backfillMemberships(accessToken);
+      toast.success(`Добавлено участников: ${result.created}`);
+    } catch (error) {
+      console.error('Error backfilling memberships:', error);
+      toast.error("Ошибка при добавлении участников");
+    } finally {
+      setBackfilling(false);
+    }
+  };
+
   const getRoleBadgeVariant = (role: string) => {
     return roleColors[role as keyof typeof roleColors] || "secondary";
   };
@@ -201,6 +233,37 @@ export function AdminPage({ accessToken }: AdminPageProps) {
           </div>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Обслуживание</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Перестроить индексы дефектов по проектам, исполнителям и статусам для существующих данных.
+            </p>
+            <Button variant="outline" onClick={rebuildIndexes} disabled={reindexing}>
+              {reindexing ? "Перестроение..." : "Перестроить индексы"}
+            </Button>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Сделать всех пользователей участниками всех проектов с их глобальной ролью. Нужно один раз для данных,
+              созданных до появления участников проектов.
+            </p>
+            <Button variant="outline" onClick={backfillMemberships} disabled={backfilling}>
+              {backfilling ? "Добавление..." : "Добавить участников"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <JobsCard accessToken={accessToken} />
+
+      <SlaPolicyCard accessToken={accessToken} />
+
+      <WebhooksCard accessToken={accessToken} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,145 @@
+import { Button } from "./ui/button";
+import { Calendar } from "./ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { CalendarDays } from "lucide-react";
+import type { DefectQueryParams } from "../utils/api";
+
+export interface AnalyticsFilterValues {
+  period: string;
+  range: { from?: Date; to?: Date };
+  projectId: string;
+  assignee: string;
+  priority: string;
+}
+
+export const DEFAULT_ANALYTICS_FILTERS: AnalyticsFilterValues = {
+  period: 'all',
+  range: {},
+  projectId: 'all',
+  assignee: 'all',
+  priority: 'all',
+};
+
+const PRIORITIES = ['Критический', 'Высокий', 'Средний', 'Низкий'];
+
+// Calendar days in local time, as the server compares YYYY-MM-DD strings
+const toDay = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Turns the filter controls into /analytics and /defects query parameters
+export const toAnalyticsParams = (filters: AnalyticsFilterValues): DefectQueryParams => {
+  const params: DefectQueryParams = {
+    projectId: filters.projectId !== 'all' ? filters.projectId : undefined,
+    assignee: filters.assignee !== 'all' ? filters.assignee : undefined,
+    priority: filters.priority !== 'all' ? filters.priority : undefined,
+  };
+
+  if (filters.period === 'custom') {
+    params.createdFrom = filters.range.from ? toDay(filters.range.from) : undefined;
+    params.createdTo = filters.range.to ? toDay(filters.range.to) : params.createdFrom;
+  } else if (filters.period !== 'all') {
+    const from = new Date();
+    from.setDate(from.getDate() - Number(filters.period) + 1);
+    params.createdFrom = toDay(from);
+  }
+  return params;
+};
+
+// Describes the selected period for "За выбранный период"-style captions
+export const describePeriod = (filters: AnalyticsFilterValues) => {
+  switch (filters.period) {
+    case 'all': return 'За все время';
+    case 'custom': {
+      const { from, to } = filters.range;
+      if (!from) return 'За все время';
+      return to && to.getTime() !== from.getTime()
+        ? `С ${from.toLocaleDateString('ru')} по ${to.toLocaleDateString('ru')}`
+        : `За ${from.toLocaleDateString('ru')}`;
+    }
+    default: return `За последние ${filters.period} дней`;
+  }
+};
+
+interface AnalyticsFiltersProps {
+  value: AnalyticsFilterValues;
+  onChange: (value: AnalyticsFilterValues) => void;
+  projects: any[];
+  users: any[];
+}
+
+export function AnalyticsFilters({ value, onChange, projects, users }: AnalyticsFiltersProps) {
+  const update = (changes: Partial<AnalyticsFilterValues>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={value.period} onValueChange={(period) => update({ period })}>
+        <SelectTrigger className="w-48">
+          <SelectValue placeholder="Период" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Все время</SelectItem>
+          <SelectItem value="7">Последние 7 дней</SelectItem>
+          <SelectItem value="30">Последние 30 дней</SelectItem>
+          <SelectItem value="90">Последние 90 дней</SelectItem>
+          <SelectItem value="custom">Выбрать даты</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value.period === 'custom' && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline">
+              <CalendarDays className="h-4 w-4 mr-2" />
+              {value.range.from ? describePeriod(value) : 'Выберите даты'}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              selected={{ from: value.range.from, to: value.range.to }}
+              onSelect={(range) => update({ range: { from: range?.from, to: range?.to } })}
+              numberOfMonths={2}
+            />
+          </PopoverContent>
+        </Popover>
+      )}
+
+      <Select value={value.projectId} onValueChange={(projectId) => update({ projectId })}>
+        <SelectTrigger className="w-48">
+          <SelectValue placeholder="Проект" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Все проекты</SelectItem>
+          {projects.map(project => (
+            <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={value.assignee} onValueChange={(assignee) => update({ assignee })}>
+        <SelectTrigger className="w-48">
+          <SelectValue placeholder="Исполнитель" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Все исполнители</SelectItem>
+          {users.map(user => (
+            <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={value.priority} onValueChange={(priority) => update({ priority })}>
+        <SelectTrigger className="w-44">
+          <SelectValue placeholder="Приоритет" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">Все приоритеты</SelectItem>
+          {PRIORITIES.map(priority => (
+            <SelectItem key={priority} value={priority}>{priority}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -1,12 +1,16 @@
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Button } from "./ui/button";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { Alert, AlertDescription } from "./ui/alert";
 import { Badge } from "./ui/badge";
-import { TrendingUp, Download, Calendar, BarChart3 } from "lucide-react";
+import { TrendingUp, Calendar, BarChart3 } from "lucide-react";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line } from "recharts";
-import { analyticsAPI, defectsAPI, projectsAPI } from "../utils/api";
+import { analyticsAPI, defectsAPI, projectsAPI, usersAPI } from "../utils/api";
+import { AnalyticsFilters, DEFAULT_ANALYTICS_FILTERS, describePeriod, toAnalyticsParams } from "./AnalyticsFilters";
+import { LifecycleMetrics } from "./LifecycleMetrics";
+import { ExportMenu } from "./ExportMenu";
+import { exportDefects, type ExportFormat } from "../utils/export";
+import { downloadDefectReport } from "../utils/pdfReport";
 
 interface AnalyticsPageProps {
   accessToken: string;
@@ -14,59 +18,79 @@ interface AnalyticsPageProps {
 
 export function AnalyticsPage({ accessToken }: AnalyticsPageProps) {
   const [analytics, setAnalytics] = useState<any>(null);
-  const [defects, setDefects] = useState<any[]>([]);
+  const [lifecycle, setLifecycle] = useState<any>(null);
   const [projects, setProjects] = useState<any[]>([]);
+  const [users, setUsers] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [timeRange, setTimeRange] = useState("all");
+  const [filters, setFilters] = useState(DEFAULT_ANALYTICS_FILTERS);
 
   useEffect(() => {
-    fetchData();
+    const fetchLists = async () => {
+      try {
+        const [projectsData, usersData] = await Promise.all([
+          projectsAPI.getAll(accessToken),
+          usersAPI.getAll(accessToken)
+        ]);
+        setProjects(projectsData.projects || []);
+        setUsers(usersData.users || []);
+      } catch (err: any) {
+        console.error('Analytics lists fetch error:', err);
+        setError(err.message || 'Ошибка загрузки аналитики');
+      }
+    };
+
+    fetchLists();
   }, [accessToken]);
 
-  const fetchData = async () => {
-    try {
-      setLoading(true);
-      
-      const [analyticsData, defectsData, projectsData] = await Promise.all([
-        analyticsAPI.getStats(accessToken),
-        defectsAPI.getAll(accessToken),
-        projectsAPI.getAll(accessToken)
-      ]);
+  // A response for filters that have since changed is dropped
+  useEffect(() => {
+    let cancelled = false;
 
-      setAnalytics(analyticsData);
-      setDefects(defectsData.defects || []);
-      setProjects(projectsData.projects || []);
-      
-    } catch (err: any) {
-      console.error('Analytics fetch error:', err);
-      setError(err.message || 'Ошибка загрузки аналитики');
-    } finally {
-      setLoading(false);
-    }
-  };
+    const fetchData = async () => {
+      try {
+        const params = toAnalyticsParams(filters);
+        const [analyticsData, lifecycleData] = await Promise.all([
+          analyticsAPI.getStats(accessToken, params),
+          analyticsAPI.getLifecycle(accessToken, params)
+        ]);
+        if (cancelled) return;
 
-  const generateExport = () => {
-    const csvData = defects.map(defect => ({
-      'ID': defect.id,
-      'Название': defect.title,
-      'Статус': defect.status,
-      'Приоритет': defect.priority,
-      'Создан': new Date(defect.createdAt).toLocaleDateString('ru'),
-      'Обновлен': new Date(defect.updatedAt).toLocaleDateString('ru'),
-      'Срок': defect.dueDate ? new Date(defect.dueDate).toLocaleDateString('ru') : 'Не указан'
-    }));
+        setAnalytics(analyticsData);
+        setLifecycle(lifecycleData);
+      } catch (err: any) {
+        if (cancelled) return;
+        console.error('Analytics fetch error:', err);
+        setError(err.message || 'Ошибка загрузки аналитики');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
 
-    const csvContent = [
-      Object.keys(csvData[0]).join(','),
-      ...csvData.map(row => Object.values(row).join(','))
-    ].join('\n');
+    fetchData();
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken, filters]);
 
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = `defects_report_${new Date().toISOString().split('T')[0]}.csv`;
-    link.click();
+  // Exports the defects behind the current filters, loaded only when an export is asked for
+  const handleExport = async (format: ExportFormat) => {
+    const data = await defectsAPI.getAll(accessToken, toAnalyticsParams(filters));
+    const defects = data.defects || [];
+    if (format !== 'pdf') {
+      return exportDefects(format, defects, { projects, users });
+    }
+    await downloadDefectReport({
+      accessToken,
+      subject: filters.projectId === 'all'
+        ? 'Все проекты'
+        : projects.find(p => p.id === filters.projectId)?.name || 'Проект',
+      period: describePeriod(filters),
+      defects,
+      analytics,
+      projects,
+      users
+    });
   };
 
   // Prepare chart data
@@ -82,40 +106,22 @@ export function AnalyticsPage({ accessToken }: AnalyticsPageProps) {
       count
     })) : [];
 
-  // Generate timeline data
-  const getTimelineData = () => {
-    const timeline = {};
-    defects.forEach(defect => {
-      const date = new Date(defect.createdAt).toISOString().split('T')[0];
-      timeline[date] = (timeline[date] || 0) + 1;
-    });
-
-    return Object.entries(timeline)
-      .sort(([a], [b]) => a.localeCompare(b))
-      .slice(-30) // Last 30 days
-      .map(([date, count]) => ({
-        date: new Date(date).toLocaleDateString('ru'),
-        count
-      }));
-  };
-
-  const timelineData = getTimelineData();
+  // Defects created per day; over all time only the last 30 days with defects are shown
+  const timelineData = (analytics?.timeline || [])
+    .slice(filters.period === 'all' ? -30 : 0)
+    .map(({ date, count }: { date: string; count: number }) => ({
+      date: new Date(date).toLocaleDateString('ru'),
+      count
+    }));
 
   // Project performance data
   const getProjectPerformance = () => {
-    return projects.map(project => {
-      const projectDefects = defects.filter(d => d.projectId === project.id);
-      const totalDefects = projectDefects.length;
-      const completedDefects = projectDefects.filter(d => d.status === 'Закрыта').length;
-      const completionRate = totalDefects > 0 ? Math.round((completedDefects / totalDefects) * 100) : 0;
-
-      return {
-        name: project.name,
-        total: totalDefects,
-        completed: completedDefects,
-        completionRate
-      };
-    }).filter(p => p.total > 0);
+    return (analytics?.byProject || []).map((entry: any) => ({
+      name: projects.find(p => p.id === entry.projectId)?.name || 'Неизвестно',
+      total: entry.total,
+      completed: entry.completed,
+      completionRate: entry.total > 0 ? Math.round((entry.completed / entry.total) * 100) : 0
+    }));
   };
 
   const projectPerformanceData = getProjectPerformance();
@@ -155,25 +161,11 @@ export function AnalyticsPage({ accessToken }: AnalyticsPageProps) {
           <p className="text-muted-foreground">Статистика и анализ дефектов</p>
         </div>
         
-        <div className="flex items-center space-x-2">
-          <Select value={timeRange} onValueChange={setTimeRange}>
-            <SelectTrigger className="w-48">
-              <SelectValue placeholder="Период" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">Все время</SelectItem>
-              <SelectItem value="30">Последние 30 дней</SelectItem>
-              <SelectItem value="7">Последние 7 дней</SelectItem>
-            </SelectContent>
-          </Select>
-          
-          <Button onClick={generateExport} variant="outline">
-            <Download className="h-4 w-4 mr-2" />
-            Экспорт в CSV
-          </Button>
-        </div>
+        <ExportMenu onExport={handleExport} formats={['csv', 'xlsx', 'pdf']} disabled={!analytics?.totalDefects} />
       </div>
 
+      <AnalyticsFilters value={filters} onChange={setFilters} projects={projects} users={users} />
+
       {/* Summary Cards */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
@@ -183,7 +175,7 @@ export function AnalyticsPage({ accessToken }: AnalyticsPageProps) {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{analytics?.totalDefects || 0}</div>
-            <p className="text-xs text-muted-foreground">За выбранный период</p>
+            <p className="text-xs text-muted-foreground">{describePeriod(filters)}</p>
           </CardContent>
         </Card>
 
@@ -225,6 +217,45 @@ export function AnalyticsPage({ accessToken }: AnalyticsPageProps) {
         </Card>
       </div>
 
+      {/* SLA compliance */}
+      {analytics?.sla && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Соблюдение SLA</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 grid-cols-2 md:grid-cols-3 lg:grid-cols-6">
+              <div>
+                <div className="text-2xl font-bold">
+                  {analytics.sla.complianceRate !== null ? `${analytics.sla.complianceRate}%` : '—'}
+                </div>
+                <p className="text-xs text-muted-foreground">Выполнено в срок</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-green-600">{analytics.sla.met}</div>
+                <p className="text-xs text-muted-foreground">Закрыто в срок</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{analytics.sla.missed}</div>
+                <p className="text-xs text-muted-foreground">Закрыто с нарушением</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{analytics.sla.onTrack}</div>
+                <p className="text-xs text-muted-foreground">Открыто, в срок</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-amber-600">{analytics.sla.atRisk}</div>
+                <p className="text-xs text-muted-foreground">Под угрозой</p>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-red-600">{analytics.sla.breached}</div>
+                <p className="text-xs text-muted-foreground">Нарушен SLA</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <div className="grid gap-6 md:grid-cols-2">
         {/* Status Distribution */}
         <Card>
@@ -291,6 +322,8 @@ export function AnalyticsPage({ accessToken }: AnalyticsPageProps) {
         </CardContent>
       </Card>
 
+      <LifecycleMetrics lifecycle={lifecycle} projects={projects} users={users} />
+
       {/* Project Performance */}
       <Card>
         <CardHeader>
@@ -1,4 +1,4 @@
-import { Home, FileText, BarChart3, Settings, Building, Users, LogOut, Shield } from "lucide-react";
+import { Home, FileText, BarChart3, Settings, Building, Users, LogOut, Shield, Search } from "lucide-react";
 import {
   Sidebar,
   SidebarContent,
@@ -11,6 +11,7 @@ import {
   SidebarHeader,
   SidebarFooter,
 } from "./ui/sidebar";
+import { NotificationBell } from "./NotificationBell";
 
 const allMenuItems = [
   {
@@ -25,6 +26,12 @@ const allMenuItems = [
     icon: FileText,
     roles: ["observer", "engineer", "manager", "admin"]
   },
+  {
+    title: "Поиск",
+    url: "/search",
+    icon: Search,
+    roles: ["observer", "engineer", "manager", "admin"]
+  },
   {
     title: "Проекты",
     url: "/projects",
@@ -37,6 +44,12 @@ const allMenuItems = [
     icon: BarChart3,
     roles: ["observer", "engineer", "manager", "admin"]
   },
+  {
+    title: "Настройки",
+    url: "/settings",
+    icon: Settings,
+    roles: ["observer", "engineer", "manager", "admin"]
+  },
   {
     title: "Администратор",
     url: "/admin",
@@ -50,9 +63,11 @@ interface AppSidebarProps {
   onNavigate: (page: string) => void;
   onLogout: () => void;
   userInfo?: { name: string; role: string } | null;
+  accessToken: string;
+  onViewDefect: (defectId: string) => void;
 }
 
-export function AppSidebar({ currentPage, onNavigate, onLogout, userInfo }: AppSidebarProps) {
+export function AppSidebar({ currentPage, onNavigate, onLogout, userInfo, accessToken, onViewDefect }: AppSidebarProps) {
   const userRole = userInfo?.role || 'observer';
   
   // Filter menu items based on user role
@@ -63,9 +78,12 @@ export function AppSidebar({ currentPage, onNavigate, onLogout, userInfo }: AppS
   return (
     <Sidebar>
       <SidebarHeader className="p-4">
-        <div className="space-y-1">
-          <h2 className="text-2xl font-semibold">Дефектолог</h2>
-          <p className="text-sm text-muted-foreground">Управление дефектами</p>
+        <div className="flex items-start justify-between">
+          <div className="space-y-1">
+            <h2 className="text-2xl font-semibold">Дефектолог</h2>
+            <p className="text-sm text-muted-foreground">Управление дефектами</p>
+          </div>
+          <NotificationBell accessToken={accessToken} onOpenDefect={onViewDefect} />
         </div>
       </SidebarHeader>
       
@@ -7,6 +7,7 @@ import { Label } from "./ui/label";
 import { Alert, AlertDescription } from "./ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { authAPI } from "../utils/api";
+import { authClient } from "../utils/auth";
 
 interface AuthPageProps {
   onLogin: (accessToken: string) => void;
@@ -32,31 +33,11 @@ export function AuthPage({ onLogin }: AuthPageProps) {
     setError(null);
 
     try {
-      // Import Supabase client dynamically
-      const { createClient } = await import("@supabase/supabase-js");
-      const { projectId, publicAnonKey } = await import("../utils/supabase/info");
-      
-      const supabase = createClient(
-        `https://${projectId}.supabase.co`,
-        publicAnonKey
-      );
-
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email: loginEmail,
-        password: loginPassword,
-      });
-
-      if (error) {
-        setError(error.message);
-        return;
-      }
-
-      if (data.session?.access_token) {
-        onLogin(data.session.access_token);
-      }
-    } catch (err) {
+      const session = await authClient.signIn(loginEmail, loginPassword);
+      onLogin(session.accessToken);
+    } catch (err: any) {
       console.error('Login error:', err);
-      setError('Ошибка при входе в систему');
+      setError(err.message || 'Ошибка при входе в систему');
     } finally {
       setIsLoading(false);
     }
@@ -71,27 +52,8 @@ export function AuthPage({ onLogin }: AuthPageProps) {
       await authAPI.signup(signupEmail, signupPassword, signupName, signupRole);
       
       // After successful signup, try to login
-      const { createClient } = await import("@supabase/supabase-js");
-      const { projectId, publicAnonKey } = await import("../utils/supabase/info");
-      
-      const supabase = createClient(
-        `https://${projectId}.supabase.co`,
-        publicAnonKey
-      );
-
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email: signupEmail,
-        password: signupPassword,
-      });
-
-      if (error) {
-        setError(error.message);
-        return;
-      }
-
-      if (data.session?.access_token) {
-        onLogin(data.session.access_token);
-      }
+      const session = await authClient.signIn(signupEmail, signupPassword);
+      onLogin(session.accessToken);
     } catch (err: any) {
       console.error('Signup error:', err);
       setError(err.message || 'Ошибка при регистрации');
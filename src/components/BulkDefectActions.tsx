@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { Card, CardContent } from "./ui/card";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { X } from "lucide-react";
+import { toast } from "react-toastify";
+import { defectsAPI } from "../utils/api";
+import { can } from "../supabase/functions/server/permissions";
+import { DEFECT_STATUSES, TRANSITION_FIELD_LABELS, findTransition, type TransitionField } from "../supabase/functions/server/workflow";
+
+type BulkField = 'status' | 'priority' | 'assignee' | 'dueDate' | 'projectId';
+
+const FIELD_LABELS: Record<BulkField, string> = {
+  status: 'Статус',
+  priority: 'Приоритет',
+  assignee: 'Исполнитель',
+  dueDate: 'Срок',
+  projectId: 'Проект',
+};
+
+const PRIORITIES = ['Низкий', 'Средний', 'Высокий', 'Критический'];
+
+// Matches MAX_BULK_DEFECTS on the server
+const CHUNK_SIZE = 200;
+
+// Select items cannot have an empty value
+const UNASSIGNED = 'none';
+
+interface BulkFailure {
+  id: string;
+  title: string;
+  error: string;
+  fields?: Record<string, string>;
+}
+
+interface BulkDefectActionsProps {
+  accessToken: string;
+  selected: any[];
+  projects: any[];
+  users: any[];
+  onClear: () => void;
+  // Called with the ids that failed, which stay selected
+  onUpdated: (failedIds: string[]) => void;
+}
+
+export function BulkDefectActions({ accessToken, selected, projects, users, onClear, onUpdated }: BulkDefectActionsProps) {
+  const [field, setField] = useState<BulkField>('status');
+  const [value, setValue] = useState("");
+  const [transitionFields, setTransitionFields] = useState<Partial<Record<TransitionField, string>>>({});
+  const [saving, setSaving] = useState(false);
+  const [failures, setFailures] = useState<BulkFailure[]>([]);
+
+  // A status change may need a resolution or reopen reason for some of the selected defects
+  const requiredFields = field === 'status' && value
+    ? [...new Set(selected.flatMap(defect => findTransition(defect.status, value)?.requires || []))]
+    : [];
+
+  const targetProjects = projects.filter(project => !project.archivedAt && can(project.myRole, 'defects:create'));
+
+  const handleFieldChange = (next: string) => {
+    setField(next as BulkField);
+    setValue("");
+    setTransitionFields({});
+  };
+
+  // Defects grouped by the fields their own transition requires, so that a resolution is only
+  // sent for the defects being closed or cancelled and a reopen reason for those being reopened
+  const requestGroups = () => {
+    const groups = new Map<string, { fields: TransitionField[]; ids: string[] }>();
+    for (const defect of selected) {
+      const fields = field === 'status' ? findTransition(defect.status, value)?.requires || [] : [];
+      const key = fields.join(',');
+      if (!groups.has(key)) groups.set(key, { fields, ids: [] });
+      groups.get(key)!.ids.push(defect.id);
+    }
+    return [...groups.values()];
+  };
+
+  const handleApply = async () => {
+    try {
+      setSaving(true);
+      let updated = 0;
+      const failed: BulkFailure[] = [];
+      for (const { fields, ids } of requestGroups()) {
+        const updates: Record<string, any> = {
+          [field]: field === 'assignee' && value === UNASSIGNED ? null : value,
+          ...Object.fromEntries(fields.map(name => [name, transitionFields[name] || ''])),
+        };
+        for (let i = 0; i < ids.length; i += CHUNK_SIZE) {
+          const data = await defectsAPI.bulkUpdate(accessToken, ids.slice(i, i + CHUNK_SIZE), updates);
+          updated += data.updated.length;
+          failed.push(...data.failed.map((failure: any) => ({
+            ...failure,
+            title: selected.find(defect => defect.id === failure.id)?.title || failure.id
+          })));
+        }
+      }
+
+      setFailures(failed);
+      if (updated > 0) {
+        toast.success(`Обновлено дефектов: ${updated}`);
+      }
+      if (failed.length > 0) {
+        toast.error(`Не удалось обновить дефектов: ${failed.length}`);
+      }
+      onUpdated(failed.map(failure => failure.id));
+    } catch (err: any) {
+      console.error('Bulk update error:', err);
+      toast.error(err.message || 'Ошибка массового изменения');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderValueInput = () => {
+    switch (field) {
+      case 'dueDate':
+        return <Input type="date" className="w-48" value={value} onChange={(e) => setValue(e.target.value)} />;
+      case 'status':
+      case 'priority':
+      case 'assignee':
+      case 'projectId': {
+        const options = field === 'status' ? DEFECT_STATUSES.map(status => ({ value: status, label: status }))
+          : field === 'priority' ? PRIORITIES.map(priority => ({ value: priority, label: priority }))
+          : field === 'assignee' ? [{ value: UNASSIGNED, label: 'Не назначен' }, ...users.map(user => ({ value: user.id, label: user.name }))]
+          : targetProjects.map(project => ({ value: project.id, label: project.name }));
+        return (
+          <Select value={value} onValueChange={setValue}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Новое значение" />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      }
+    }
+  };
+
+  return (
+    <Card className="border-primary">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium mr-2">Выбрано: {selected.length}</span>
+          <Select value={field} onValueChange={handleFieldChange}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FIELD_LABELS) as BulkField[]).map(key => (
+                <SelectItem key={key} value={key}>{FIELD_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {renderValueInput()}
+          <Button
+            onClick={handleApply}
+            disabled={saving || !value || requiredFields.some(name => !transitionFields[name]?.trim())}
+          >
+            {saving ? 'Применение...' : 'Применить'}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClear} disabled={saving}>
+            <X className="h-4 w-4 mr-1" />
+            Снять выделение
+          </Button>
+        </div>
+
+        {requiredFields.map(name => (
+          <div key={name}>
+            <label className="text-sm font-medium">{TRANSITION_FIELD_LABELS[name]}</label>
+            <Textarea
+              value={transitionFields[name] || ''}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                setTransitionFields(prev => ({ ...prev, [name]: e.target.value }))}
+              rows={2}
+            />
+          </div>
+        ))}
+
+        {failures.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm font-medium text-red-600">Не обновлены:</p>
+            <ul className="text-sm text-red-600 list-disc pl-5">
+              {failures.map(failure => (
+                <li key={failure.id}>
+                  {failure.title}: {failure.fields ? Object.values(failure.fields).join('. ') : failure.error}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
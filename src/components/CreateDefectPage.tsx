@@ -6,8 +6,12 @@ import { Label } from "./ui/label";
 import { Textarea } from "./ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { Alert, AlertDescription } from "./ui/alert";
-import { ArrowLeft, Save } from "lucide-react";
-import { defectsAPI, projectsAPI, usersAPI } from "../utils/api";
+import { ArrowLeft, Save, X } from "lucide-react";
+import { AttachmentDropzone, uploadAttachments } from "./DefectAttachments";
+import { ApiError, defectsAPI, projectsAPI, slaAPI, usersAPI } from "../utils/api";
+import { formatFileSize } from "../utils/thumbnails";
+import { can } from "../supabase/functions/server/permissions";
+import { resolveSlaHours, type SlaPolicy } from "../supabase/functions/server/sla";
 
 interface CreateDefectPageProps {
   accessToken: string;
@@ -19,9 +23,12 @@ export function CreateDefectPage({ accessToken, onBack, onDefectCreated }: Creat
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  // Per-field messages from server-side validation
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   
   const [projects, setProjects] = useState<any[]>([]);
   const [users, setUsers] = useState<any[]>([]);
+  const [slaPolicy, setSlaPolicy] = useState<SlaPolicy | null>(null);
   
   // Form state
   const [formData, setFormData] = useState({
@@ -32,17 +39,23 @@ export function CreateDefectPage({ accessToken, onBack, onDefectCreated }: Creat
     projectId: "",
     dueDate: ""
   });
+  const [files, setFiles] = useState<File[]>([]);
 
   useEffect(() => {
     const fetchData = async () => {
       try {
-        const [projectsData, usersData] = await Promise.all([
+        const [projectsData, usersData, slaData] = await Promise.all([
           projectsAPI.getAll(accessToken),
-          usersAPI.getAll(accessToken)
+          usersAPI.getAll(accessToken),
+          slaAPI.getPolicy(accessToken)
         ]);
 
-        setProjects(projectsData.projects || []);
+        // Only open projects where the caller's project role allows filing defects
+        setProjects((projectsData.projects || []).filter((project: any) =>
+          !project.archivedAt && can(project.myRole, 'defects:create')
+        ));
         setUsers(usersData.users || []);
+        setSlaPolicy(slaData.policy);
         
       } catch (err: any) {
         console.error('Data fetch error:', err);
@@ -58,10 +71,18 @@ export function CreateDefectPage({ accessToken, onBack, onDefectCreated }: Creat
     setLoading(true);
     setError(null);
     setSuccess(null);
+    setFieldErrors({});
 
     try {
-      await defectsAPI.create(accessToken, formData);
-      setSuccess('Дефект успешно создан');
+      const { defect } = await defectsAPI.create(accessToken, formData);
+
+      // Files can only be attached once the defect exists
+      const failed = files.length > 0 ? await uploadAttachments(accessToken, defect.id, files) : 0;
+      if (failed > 0) {
+        setError(`Дефект создан, но не все файлы загружены (ошибок: ${failed})`);
+      } else {
+        setSuccess('Дефект успешно создан');
+      }
       
       // Reset form
       setFormData({
@@ -72,6 +93,7 @@ export function CreateDefectPage({ accessToken, onBack, onDefectCreated }: Creat
         projectId: "",
         dueDate: ""
       });
+      setFiles([]);
       
       // Call callback after a short delay
       setTimeout(() => {
@@ -80,7 +102,12 @@ export function CreateDefectPage({ accessToken, onBack, onDefectCreated }: Creat
       
     } catch (err: any) {
       console.error('Create defect error:', err);
-      setError(err.message || 'Ошибка создания дефекта');
+      if (err instanceof ApiError && err.data?.fields) {
+        setFieldErrors(err.data.fields);
+        setError('Проверьте правильность заполнения полей');
+      } else {
+        setError(err.message || 'Ошибка создания дефекта');
+      }
     } finally {
       setLoading(false);
     }
@@ -88,8 +115,21 @@ export function CreateDefectPage({ accessToken, onBack, onDefectCreated }: Creat
 
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+    setFieldErrors(prev => {
+      const { [field]: _, ...rest } = prev;
+      return rest;
+    });
   };
 
+  // Hours the SLA will give the defect when no due date is picked
+  const slaHours = slaPolicy && formData.priority
+    ? resolveSlaHours(formData.priority, slaPolicy, projects.find(p => p.id === formData.projectId)?.slaPolicy)
+    : null;
+
+  const renderFieldError = (field: string) => fieldErrors[field] && (
+    <p className="text-sm text-destructive">{fieldErrors[field]}</p>
+  );
+
   return (
     <div className="p-6 space-y-6">
       <div className="flex items-center space-x-4">
@@ -118,6 +158,7 @@ export function CreateDefectPage({ accessToken, onBack, onDefectCreated }: Creat
                 placeholder="Краткое описание дефекта"
                 required
               />
+              {renderFieldError('title')}
             </div>
 
             <div className="space-y-2">
@@ -130,6 +171,7 @@ export function CreateDefectPage({ accessToken, onBack, onDefectCreated }: Creat
                 rows={4}
                 required
               />
+              {renderFieldError('description')}
             </div>
 
             <div className="grid gap-4 md:grid-cols-2">
@@ -146,6 +188,7 @@ export function CreateDefectPage({ accessToken, onBack, onDefectCreated }: Creat
                     <SelectItem value="Критический">Критический</SelectItem>
                   </SelectContent>
                 </Select>
+                {renderFieldError('priority')}
               </div>
 
               <div className="space-y-2">
@@ -162,6 +205,7 @@ export function CreateDefectPage({ accessToken, onBack, onDefectCreated }: Creat
                     ))}
                   </SelectContent>
                 </Select>
+                {renderFieldError('projectId')}
               </div>
             </div>
 
@@ -180,6 +224,7 @@ export function CreateDefectPage({ accessToken, onBack, onDefectCreated }: Creat
                     ))}
                   </SelectContent>
                 </Select>
+                {renderFieldError('assignee')}
               </div>
 
               <div className="space-y-2">
@@ -190,9 +235,40 @@ export function CreateDefectPage({ accessToken, onBack, onDefectCreated }: Creat
                   value={formData.dueDate}
                   onChange={(e) => handleInputChange('dueDate', e.target.value)}
                 />
+                {!formData.dueDate && slaHours !== null && (
+                  <p className="text-sm text-muted-foreground">
+                    Если не указать, срок рассчитается по SLA: {slaHours} ч с момента создания
+                  </p>
+                )}
+                {renderFieldError('dueDate')}
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label>Фото и файлы</Label>
+              <AttachmentDropzone
+                onFiles={(added) => setFiles(prev => [...prev, ...added])}
+                disabled={loading}
+              />
+              {files.length > 0 && (
+                <ul className="space-y-1">
+                  {files.map((file, index) => (
+                    <li key={`${file.name}-${index}`} className="flex items-center justify-between text-sm">
+                      <span className="truncate">{file.name} ({formatFileSize(file.size)})</span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
             {error && (
               <Alert variant="destructive">
                 <AlertDescription>{error}</AlertDescription>
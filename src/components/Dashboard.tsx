@@ -4,7 +4,8 @@ import { Badge } from "./ui/badge";
 import { Progress } from "./ui/progress";
 import { Alert, AlertDescription } from "./ui/alert";
 import { FileText, AlertTriangle, Clock, CheckCircle, TrendingUp } from "lucide-react";
-import { analyticsAPI, defectsAPI } from "../utils/api";
+import { analyticsAPI, defectsAPI, projectsAPI, usersAPI } from "../utils/api";
+import { AnalyticsFilters, DEFAULT_ANALYTICS_FILTERS, describePeriod, toAnalyticsParams } from "./AnalyticsFilters";
 
 interface DashboardProps {
   accessToken: string;
@@ -13,37 +14,60 @@ interface DashboardProps {
 export function Dashboard({ accessToken }: DashboardProps) {
   const [analytics, setAnalytics] = useState<any>(null);
   const [recentDefects, setRecentDefects] = useState<any[]>([]);
+  const [projects, setProjects] = useState<any[]>([]);
+  const [users, setUsers] = useState<any[]>([]);
+  const [filters, setFilters] = useState(DEFAULT_ANALYTICS_FILTERS);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    const fetchLists = async () => {
+      try {
+        const [projectsData, usersData] = await Promise.all([
+          projectsAPI.getAll(accessToken),
+          usersAPI.getAll(accessToken)
+        ]);
+        setProjects(projectsData.projects || []);
+        setUsers(usersData.users || []);
+      } catch (err: any) {
+        console.error('Dashboard lists fetch error:', err);
+        setError(err.message || 'Ошибка загрузки данных');
+      }
+    };
+
+    fetchLists();
+  }, [accessToken]);
+
+  // A response for filters that have since changed is dropped
+  useEffect(() => {
+    let cancelled = false;
+
     const fetchData = async () => {
       try {
-        setLoading(true);
-        
+        const params = toAnalyticsParams(filters);
         const [analyticsData, defectsData] = await Promise.all([
-          analyticsAPI.getStats(accessToken),
-          defectsAPI.getAll(accessToken)
+          analyticsAPI.getStats(accessToken, params),
+          defectsAPI.getAll(accessToken, { ...params, sort: 'createdAt', order: 'desc', limit: 5 })
         ]);
+        if (cancelled) return;
 
         setAnalytics(analyticsData);
-        
-        // Get recent defects (last 5)
-        const sortedDefects = defectsData.defects
-          .sort((a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-          .slice(0, 5);
-        setRecentDefects(sortedDefects);
+        setRecentDefects(defectsData.defects || []);
         
       } catch (err: any) {
+        if (cancelled) return;
         console.error('Dashboard data fetch error:', err);
         setError(err.message || 'Ошибка загрузки данных');
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
     fetchData();
-  }, [accessToken]);
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken, filters]);
 
   if (loading) {
     return (
@@ -102,6 +126,8 @@ export function Dashboard({ accessToken }: DashboardProps) {
         <p className="text-muted-foreground">Обзор состояния дефектов</p>
       </div>
 
+      <AnalyticsFilters value={filters} onChange={setFilters} projects={projects} users={users} />
+
       {/* Stats Cards */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
@@ -112,7 +138,7 @@ export function Dashboard({ accessToken }: DashboardProps) {
           <CardContent>
             <div className="text-2xl font-bold">{analytics?.totalDefects || 0}</div>
             <p className="text-xs text-muted-foreground">
-              За все время
+              {describePeriod(filters)}
             </p>
           </CardContent>
         </Card>
@@ -0,0 +1,277 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "./ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "./ui/carousel";
+import { Upload, FileText, Download, Trash2 } from "lucide-react";
+import { toast } from "react-toastify";
+import { attachmentsAPI } from "../utils/api";
+import { createImageThumbnail, formatFileSize } from "../utils/thumbnails";
+import { can } from "../supabase/functions/server/permissions";
+
+interface AttachmentDropzoneProps {
+  onFiles: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+export function AttachmentDropzone({ onFiles, disabled = false }: AttachmentDropzoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (disabled) return;
+
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) {
+      onFiles(files);
+    }
+  };
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      onClick={() => !disabled && inputRef.current?.click()}
+      onKeyDown={(e) => e.key === 'Enter' && !disabled && inputRef.current?.click()}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+        disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-muted/50'
+      } ${isDragging ? 'border-primary bg-muted/50' : 'border-muted-foreground/25'}`}
+    >
+      <Upload className="h-6 w-6 mx-auto mb-2 text-muted-foreground" />
+      <p className="text-sm text-muted-foreground">
+        Перетащите фото или файлы сюда или нажмите для выбора
+      </p>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          const files = Array.from(e.target.files || []);
+          if (files.length > 0) {
+            onFiles(files);
+          }
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+}
+
+// Uploads files one by one with client-rendered thumbnails. Returns the number of failures.
+export async function uploadAttachments(accessToken: string, defectId: string, files: File[]) {
+  let failed = 0;
+  for (const file of files) {
+    try {
+      const thumbnail = await createImageThumbnail(file);
+      await attachmentsAPI.upload(accessToken, defectId, file, thumbnail);
+    } catch (err) {
+      console.error('Upload attachment error:', err);
+      failed++;
+    }
+  }
+  return failed;
+}
+
+interface DefectAttachmentsProps {
+  accessToken: string;
+  defectId: string;
+  attachments: any[];
+  userId?: string;
+  userRole: string;
+  getUserName: (userId: string) => string;
+  onChanged: () => void;
+}
+
+export function DefectAttachments({ accessToken, defectId, attachments, userId, userRole, getUserName, onChanged }: DefectAttachmentsProps) {
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [fullImages, setFullImages] = useState<Record<string, string>>({});
+  const [uploading, setUploading] = useState(false);
+  const [galleryIndex, setGalleryIndex] = useState<number | null>(null);
+
+  const images = attachments.filter(a => a.mimeType?.startsWith('image/'));
+
+  // Thumbnails need the auth header, so they are fetched as blobs
+  useEffect(() => {
+    let cancelled = false;
+    const urls: string[] = [];
+
+    const loadThumbnails = async () => {
+      const entries = await Promise.all(images.map(async attachment => {
+        try {
+          const blob = await attachmentsAPI.download(accessToken, defectId, attachment.id, 'thumbnail');
+          const url = URL.createObjectURL(blob);
+          urls.push(url);
+          return [attachment.id, url] as const;
+        } catch (err) {
+          console.error('Thumbnail load error:', err);
+          return null;
+        }
+      }));
+      if (!cancelled) {
+        setThumbnails(Object.fromEntries(entries.filter((entry): entry is readonly [string, string] => entry !== null)));
+      }
+    };
+
+    loadThumbnails();
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [accessToken, defectId, attachments]);
+
+  // Full-size images are loaded when the gallery is first opened
+  useEffect(() => {
+    if (galleryIndex === null) return;
+    const missing = images.filter(a => !fullImages[a.id]);
+    if (missing.length === 0) return;
+
+    Promise.all(missing.map(async attachment => {
+      try {
+        const blob = await attachmentsAPI.download(accessToken, defectId, attachment.id);
+        return [attachment.id, URL.createObjectURL(blob)] as const;
+      } catch (err) {
+        console.error('Image load error:', err);
+        return null;
+      }
+    })).then(entries => {
+      setFullImages(prev => ({
+        ...prev,
+        ...Object.fromEntries(entries.filter((entry): entry is readonly [string, string] => entry !== null))
+      }));
+    });
+  }, [galleryIndex]);
+
+  const fullImagesRef = useRef(fullImages);
+  fullImagesRef.current = fullImages;
+  useEffect(() => {
+    return () => Object.values(fullImagesRef.current).forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  const handleFiles = async (files: File[]) => {
+    setUploading(true);
+    const failed = await uploadAttachments(accessToken, defectId, files);
+    setUploading(false);
+    if (failed > 0) {
+      toast.error(`Не удалось загрузить файлов: ${failed}`);
+    }
+    onChanged();
+  };
+
+  const handleDownload = async (attachment: any) => {
+    try {
+      const blob = await attachmentsAPI.download(accessToken, defectId, attachment.id);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = attachment.name;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (err) {
+      console.error('Download attachment error:', err);
+      toast.error("Ошибка при скачивании файла");
+    }
+  };
+
+  const handleDelete = async (attachment: any) => {
+    if (!window.confirm(`Удалить файл «${attachment.name}»?`)) return;
+    try {
+      await attachmentsAPI.delete(accessToken, defectId, attachment.id);
+      onChanged();
+    } catch (err) {
+      console.error('Delete attachment error:', err);
+      toast.error("Ошибка при удалении файла");
+    }
+  };
+
+  const canDelete = (attachment: any) =>
+    can(userRole, 'attachments:deleteAny') ||
+    (can(userRole, 'attachments:create') && attachment.uploadedBy === userId);
+
+  return (
+    <div className="space-y-4">
+      {attachments.length > 0 ? (
+        <div className="grid gap-3 grid-cols-2 md:grid-cols-3">
+          {attachments.map(attachment => {
+            const imageIndex = images.findIndex(a => a.id === attachment.id);
+            return (
+              <div key={attachment.id} className="border rounded-lg overflow-hidden">
+                <button
+                  type="button"
+                  className="w-full h-28 bg-muted flex items-center justify-center"
+                  onClick={() => imageIndex >= 0 ? setGalleryIndex(imageIndex) : handleDownload(attachment)}
+                >
+                  {thumbnails[attachment.id] ? (
+                    <img src={thumbnails[attachment.id]} alt={attachment.name} className="w-full h-full object-cover" />
+                  ) : (
+                    <FileText className="h-8 w-8 text-muted-foreground" />
+                  )}
+                </button>
+                <div className="p-2 space-y-1">
+                  <p className="text-sm font-medium truncate" title={attachment.name}>{attachment.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatFileSize(attachment.size)} · {getUserName(attachment.uploadedBy)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(attachment.uploadedAt).toLocaleString('ru')}
+                  </p>
+                  <div className="flex space-x-1">
+                    <Button variant="ghost" size="sm" onClick={() => handleDownload(attachment)}>
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    {canDelete(attachment) && (
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(attachment)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-muted-foreground">Вложения отсутствуют</p>
+      )}
+
+      {can(userRole, 'attachments:create') && (
+        <AttachmentDropzone onFiles={handleFiles} disabled={uploading} />
+      )}
+      {uploading && <p className="text-sm text-muted-foreground">Загрузка файлов...</p>}
+
+      <Dialog open={galleryIndex !== null} onOpenChange={(open) => !open && setGalleryIndex(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Фотографии</DialogTitle>
+          </DialogHeader>
+          {galleryIndex !== null && (
+            <Carousel opts={{ startIndex: galleryIndex }} className="mx-12">
+              <CarouselContent>
+                {images.map(attachment => (
+                  <CarouselItem key={attachment.id}>
+                    <div className="flex flex-col items-center space-y-2">
+                      <img
+                        src={fullImages[attachment.id] || thumbnails[attachment.id]}
+                        alt={attachment.name}
+                        className="max-h-[60vh] object-contain"
+                      />
+                      <p className="text-sm text-muted-foreground">{attachment.name}</p>
+                    </div>
+                  </CarouselItem>
+                ))}
+              </CarouselContent>
+              <CarouselPrevious />
+              <CarouselNext />
+            </Carousel>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState, useEffect } from "react";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { RadioGroup, RadioGroupItem } from "./ui/radio-group";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { HISTORY_FIELD_LABELS, diffDefect, type HistoryChange } from "../supabase/functions/server/defect_history";
+
+type Choice = 'mine' | 'theirs';
+
+interface DefectConflictDialogProps {
+  // The defect as it was when editing started, as it is now on the server, and as the user edited it
+  base: any;
+  current: any;
+  edited: any;
+  saving: boolean;
+  getUserName: (userId: string) => string;
+  formatValue: (field: string, value: any) => string;
+  onApply: (updates: Record<string, any>) => void;
+  onDiscard: () => void;
+  onCancel: () => void;
+}
+
+const toUpdates = (changes: HistoryChange[]) =>
+  Object.fromEntries(changes.map(change => [change.field, change.to]));
+
+export function DefectConflictDialog({ base, current, edited, saving, getUserName, formatValue, onApply, onDiscard, onCancel }: DefectConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+
+  const theirs = diffDefect(base, current);
+  const mine = diffDefect(base, edited);
+
+  // Fields both users changed, to different values
+  const conflicting = mine.filter(change =>
+    theirs.some(other => other.field === change.field && other.to !== change.to)
+  );
+
+  useEffect(() => {
+    setChoices({});
+  }, [current]);
+
+  const choiceFor = (field: string): Choice => choices[field] || 'theirs';
+
+  const handleMerge = () => {
+    onApply(toUpdates(mine.filter(change =>
+      !conflicting.includes(change) || choiceFor(change.field) === 'mine'
+    )));
+  };
+
+  const renderChange = (change: HistoryChange) => (
+    <>
+      <span className="font-medium">{HISTORY_FIELD_LABELS[change.field]}:</span>{' '}
+      {formatValue(change.field, change.from)} → {formatValue(change.field, change.to)}
+    </>
+  );
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Дефект был изменен</DialogTitle>
+          <DialogDescription>
+            {current.updatedBy ? getUserName(current.updatedBy) : 'Другой пользователь'} сохранил изменения
+            {current.updatedAt ? ` ${new Date(current.updatedAt).toLocaleString('ru')}` : ''}, пока вы редактировали дефект.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="space-y-1">
+            <p className="font-medium">Изменения другого пользователя</p>
+            {theirs.length > 0 ? (
+              <ul className="text-muted-foreground space-y-1">
+                {theirs.map(change => <li key={change.field}>{renderChange(change)}</li>)}
+              </ul>
+            ) : (
+              <p className="text-muted-foreground">Поля дефекта не изменились</p>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <p className="font-medium">Ваши изменения</p>
+            <ul className="text-muted-foreground space-y-1">
+              {mine.map(change => <li key={change.field}>{renderChange(change)}</li>)}
+            </ul>
+          </div>
+
+          {conflicting.length > 0 && (
+            <div className="space-y-3">
+              <p className="font-medium">Поля, измененные обоими</p>
+              {conflicting.map(change => {
+                const other = theirs.find(t => t.field === change.field)!;
+                return (
+                  <div key={change.field} className="space-y-2">
+                    <p>{HISTORY_FIELD_LABELS[change.field]}</p>
+                    <RadioGroup
+                      value={choiceFor(change.field)}
+                      onValueChange={(value: string) => setChoices(prev => ({ ...prev, [change.field]: value as Choice }))}
+                    >
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="theirs" id={`${change.field}-theirs`} />
+                        <Label htmlFor={`${change.field}-theirs`} className="font-normal">
+                          Оставить: {formatValue(change.field, other.to)}
+                        </Label>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="mine" id={`${change.field}-mine`} />
+                        <Label htmlFor={`${change.field}-mine`} className="font-normal">
+                          Мое: {formatValue(change.field, change.to)}
+                        </Label>
+                      </div>
+                    </RadioGroup>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onDiscard} disabled={saving}>
+            Отменить мои изменения
+          </Button>
+          <Button variant="secondary" onClick={() => onApply(toUpdates(mine))} disabled={saving}>
+            Применить мои изменения
+          </Button>
+          <Button onClick={handleMerge} disabled={saving}>
+            Объединить
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
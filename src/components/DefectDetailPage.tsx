@@ -6,17 +6,24 @@ import { Textarea } from "./ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { Alert, AlertDescription } from "./ui/alert";
 import { Separator } from "./ui/separator";
-import { ArrowLeft, MessageSquare, History, Edit, Save } from "lucide-react";
-import { defectsAPI, usersAPI, projectsAPI } from "../utils/api";
+import { ArrowLeft, MessageSquare, History, Edit, Save, Paperclip } from "lucide-react";
+import { DefectAttachments } from "./DefectAttachments";
+import { DefectConflictDialog } from "./DefectConflictDialog";
+import { SlaBadge, formatDueDate } from "./SlaBadge";
+import { ApiError, defectsAPI, usersAPI, projectsAPI } from "../utils/api";
+import { can } from "../supabase/functions/server/permissions";
+import { TRANSITION_FIELD_LABELS, findTransition, getAllowedTransitions } from "../supabase/functions/server/workflow";
+import { HISTORY_FIELD_LABELS, diffDefect, type HistoryChange } from "../supabase/functions/server/defect_history";
 
 interface DefectDetailPageProps {
   accessToken: string;
   defectId: string;
   onBack: () => void;
+  userId?: string;
   userRole: string;
 }
 
-export function DefectDetailPage({ accessToken, defectId, onBack, userRole }: DefectDetailPageProps) {
+export function DefectDetailPage({ accessToken, defectId, onBack, userId, userRole }: DefectDetailPageProps) {
   const [defect, setDefect] = useState<any>(null);
   const [history, setHistory] = useState<any[]>([]);
   const [users, setUsers] = useState<any[]>([]);
@@ -27,6 +34,10 @@ export function DefectDetailPage({ accessToken, defectId, onBack, userRole }: De
   // Edit state
   const [isEditing, setIsEditing] = useState(false);
   const [editData, setEditData] = useState<any>({});
+  // The caller's role on the defect's project, which decides what they can do here
+  const [projectRole, setProjectRole] = useState<string | null>(null);
+  // The server's copy of the defect when a save hit a newer version
+  const [conflict, setConflict] = useState<any>(null);
   
   // Comment state
   const [newComment, setNewComment] = useState("");
@@ -48,9 +59,9 @@ export function DefectDetailPage({ accessToken, defectId, onBack, userRole }: De
 
       setDefect(defectData.defect);
       setHistory(defectData.history || []);
+      setProjectRole(defectData.role || null);
       setUsers(usersData.users || []);
       setProjects(projectsData.projects || []);
-      setEditData(defectData.defect);
       
     } catch (err: any) {
       console.error('Defect detail fetch error:', err);
@@ -60,13 +71,26 @@ export function DefectDetailPage({ accessToken, defectId, onBack, userRole }: De
     }
   };
 
-  const handleSaveEdit = async () => {
+  const role = projectRole ?? userRole;
+
+  const handleStartEdit = () => {
+    setEditData(defect);
+    setIsEditing(true);
+  };
+
+  // Sends only the fields that were changed, checked against the version they were based on
+  const saveUpdates = async (updates: Record<string, any>, version: number) => {
     try {
       setLoading(true);
-      await defectsAPI.update(accessToken, defectId, editData);
-      await fetchData(); // Refresh data
+      await defectsAPI.update(accessToken, defectId, updates, version);
+      setConflict(null);
       setIsEditing(false);
+      await fetchData(); // Refresh data
     } catch (err: any) {
+      if (err instanceof ApiError && err.status === 409) {
+        setConflict(err.data.defect);
+        return;
+      }
       console.error('Update defect error:', err);
       setError(err.message || 'Ошибка обновления дефекта');
     } finally {
@@ -74,6 +98,28 @@ export function DefectDetailPage({ accessToken, defectId, onBack, userRole }: De
     }
   };
 
+  const handleSaveEdit = async () => {
+    const changes = diffDefect(defect, editData);
+    if (changes.length === 0) {
+      setIsEditing(false);
+      return;
+    }
+    await saveUpdates(Object.fromEntries(changes.map(change => [change.field, change.to])), defect.version ?? 1);
+  };
+
+  const handleDiscardEdit = async () => {
+    setConflict(null);
+    setIsEditing(false);
+    await fetchData();
+  };
+
+  const handleStatusChange = (status: string) => {
+    // Fields required by a transition are entered fresh for every status change
+    setEditData((prev: any) => status === defect.status
+      ? { ...prev, status, resolution: defect.resolution, reopenReason: defect.reopenReason }
+      : { ...prev, status, resolution: '', reopenReason: '' });
+  };
+
   const handleAddComment = async () => {
     if (!newComment.trim()) return;
     
@@ -90,7 +136,8 @@ export function DefectDetailPage({ accessToken, defectId, onBack, userRole }: De
     }
   };
 
-  const getUserName = (userId: string) => {
+  const getUserName = (userId: string | null) => {
+    if (!userId) return 'Система';
     const user = users.find(u => u.id === userId);
     return user?.name || 'Неизвестно';
   };
@@ -100,6 +147,20 @@ export function DefectDetailPage({ accessToken, defectId, onBack, userRole }: De
     return project?.name || 'Неизвестно';
   };
 
+  // Shows a history value the way the rest of the page does: names instead of ids, local dates
+  const formatChangeValue = (field: string, value: any) => {
+    if (value === null || value === undefined || value === '') return '—';
+    switch (field) {
+      case 'assignee': return getUserName(value);
+      case 'projectId': return getProjectName(value);
+      case 'dueDate': return formatDueDate({ dueDate: value, dueDateAuto: value.length > 10 });
+      default: {
+        const text = String(value);
+        return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+      }
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'Новая': return 'bg-blue-500';
@@ -121,6 +182,12 @@ export function DefectDetailPage({ accessToken, defectId, onBack, userRole }: De
     }
   };
 
+  const pendingTransition = defect && editData.status !== defect.status
+    ? findTransition(defect.status, editData.status)
+    : undefined;
+  const missingTransitionFields = (pendingTransition?.requires || [])
+    .filter(field => !editData[field]?.trim());
+
   if (loading && !defect) {
     return (
       <div className="p-6">
@@ -159,14 +226,14 @@ export function DefectDetailPage({ accessToken, defectId, onBack, userRole }: De
         </div>
         
         <div className="flex items-center space-x-2">
-          {!isEditing ? (
-            <Button onClick={() => setIsEditing(true)}>
+          {!can(role, 'defects:update') ? null : !isEditing ? (
+            <Button onClick={handleStartEdit}>
               <Edit className="h-4 w-4 mr-2" />
               Редактировать
             </Button>
           ) : (
             <div className="space-x-2">
-              <Button onClick={handleSaveEdit} disabled={loading}>
+              <Button onClick={handleSaveEdit} disabled={loading || missingTransitionFields.length > 0}>
                 <Save className="h-4 w-4 mr-2" />
                 Сохранить
               </Button>
@@ -206,18 +273,18 @@ export function DefectDetailPage({ accessToken, defectId, onBack, userRole }: De
                       <label className="text-sm font-medium">Статус</label>
                       <Select 
                         value={editData.status} 
-                        onValueChange={(value: string) =>
-                          setEditData((prev: any) => ({ ...prev, status: value }))}
+                        onValueChange={handleStatusChange}
                       >
                         <SelectTrigger>
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="Новая">Новая</SelectItem>
-                          <SelectItem value="В работе">В работе</SelectItem>
-                          <SelectItem value="На проверке">На проверке</SelectItem>
-                          <SelectItem value="Закрыта">Закрыта</SelectItem>
-                          <SelectItem value="Отменена">Отменена</SelectItem>
+                          <SelectItem value={defect.status}>{defect.status}</SelectItem>
+                          {getAllowedTransitions(defect.status, role).map(transition => (
+                            <SelectItem key={transition.to} value={transition.to}>
+                              {transition.to}
+                            </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </div>
@@ -242,12 +309,26 @@ export function DefectDetailPage({ accessToken, defectId, onBack, userRole }: De
                     </div>
                   </div>
                   
+                  {(pendingTransition?.requires || []).map(field => (
+                    <div key={field}>
+                      <label className="text-sm font-medium">{TRANSITION_FIELD_LABELS[field]}</label>
+                      <Textarea
+                        value={editData[field] || ''}
+                        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                          setEditData((prev: any) => ({ ...prev, [field]: e.target.value }))}
+                        rows={3}
+                        required
+                      />
+                    </div>
+                  ))}
+                  
                   <div>
                     <label className="text-sm font-medium">Исполнитель</label>
                     <Select 
                       value={editData.assignee} 
                       onValueChange={(value: string) =>
                         setEditData((prev: any) => ({ ...prev, assignee: value }))}
+                      disabled={!can(role, 'defects:assign')}
                     >
                       <SelectTrigger>
                         <SelectValue />
@@ -278,11 +359,39 @@ export function DefectDetailPage({ accessToken, defectId, onBack, userRole }: De
                       {defect.priority}
                     </Badge>
                   </div>
+                  
+                  {defect.resolution && (
+                    <div>
+                      <h3 className="font-medium">{TRANSITION_FIELD_LABELS.resolution}</h3>
+                      <p className="text-muted-foreground mt-1">{defect.resolution}</p>
+                    </div>
+                  )}
                 </div>
               )}
             </CardContent>
           </Card>
 
+          {/* Attachments */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Paperclip className="h-4 w-4 mr-2" />
+                Вложения ({defect.attachments?.length || 0})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <DefectAttachments
+                accessToken={accessToken}
+                defectId={defect.id}
+                attachments={defect.attachments || []}
+                userId={userId}
+                userRole={role}
+                getUserName={getUserName}
+                onChanged={fetchData}
+              />
+            </CardContent>
+          </Card>
+
           {/* Comments */}
           <Card>
             <CardHeader>
@@ -309,23 +418,27 @@ export function DefectDetailPage({ accessToken, defectId, onBack, userRole }: De
                 <p className="text-muted-foreground">Комментарии отсутствуют</p>
               )}
               
-              <Separator />
-              
-              <div className="space-y-2">
-                <Textarea
-                  placeholder="Добавить комментарий..."
-                  value={newComment}
-                  onChange={(e) => setNewComment(e.target.value)}
-                  rows={3}
-                />
-                <Button 
-                  onClick={handleAddComment} 
-                  disabled={addingComment || !newComment.trim()}
-                  size="sm"
-                >
-                  {addingComment ? "Добавление..." : "Добавить комментарий"}
-                </Button>
-              </div>
+              {can(role, 'comments:create') && (
+                <>
+                  <Separator />
+                  
+                  <div className="space-y-2">
+                    <Textarea
+                      placeholder="Добавить комментарий..."
+                      value={newComment}
+                      onChange={(e) => setNewComment(e.target.value)}
+                      rows={3}
+                    />
+                    <Button 
+                      onClick={handleAddComment} 
+                      disabled={addingComment || !newComment.trim()}
+                      size="sm"
+                    >
+                      {addingComment ? "Добавление..." : "Добавить комментарий"}
+                    </Button>
+                  </div>
+                </>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -364,13 +477,13 @@ export function DefectDetailPage({ accessToken, defectId, onBack, userRole }: De
               {defect.dueDate && (
                 <div>
                   <span className="text-sm font-medium">Срок выполнения:</span>
-                  <p className={`text-sm ${
-                    new Date(defect.dueDate) < new Date() && defect.status !== 'Закрыта' 
-                      ? 'text-red-600' 
-                      : 'text-muted-foreground'
-                  }`}>
-                    {new Date(defect.dueDate).toLocaleDateString('ru')}
-                  </p>
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm text-muted-foreground">
+                      {formatDueDate(defect)}
+                      {defect.dueDateAuto && ` (SLA ${defect.slaHours} ч)`}
+                    </p>
+                    <SlaBadge defect={defect} />
+                  </div>
                 </div>
               )}
             </CardContent>
@@ -394,10 +507,21 @@ export function DefectDetailPage({ accessToken, defectId, onBack, userRole }: De
                         <div className="flex justify-between items-start">
                           <span className="font-medium">{getUserName(entry.userId)}</span>
                           <span className="text-muted-foreground">
-                            {new Date(entry.timestamp).toLocaleDateString('ru')}
+                            {new Date(entry.timestamp).toLocaleString('ru')}
                           </span>
                         </div>
-                        <p className="text-muted-foreground">{entry.details}</p>
+                        {entry.changes?.length > 0 ? (
+                          <ul className="text-muted-foreground">
+                            {entry.changes.map((change: HistoryChange) => (
+                              <li key={change.field}>
+                                {HISTORY_FIELD_LABELS[change.field] || change.field}:{' '}
+                                {formatChangeValue(change.field, change.from)} → {formatChangeValue(change.field, change.to)}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className="text-muted-foreground">{entry.details}</p>
+                        )}
                       </div>
                     ))}
                 </div>
@@ -414,6 +538,20 @@ export function DefectDetailPage({ accessToken, defectId, onBack, userRole }: De
           <AlertDescription>{error}</AlertDescription>
         </Alert>
       )}
+
+      {conflict && (
+        <DefectConflictDialog
+          base={defect}
+          current={conflict}
+          edited={editData}
+          saving={loading}
+          getUserName={getUserName}
+          formatValue={formatChangeValue}
+          onApply={(updates) => saveUpdates(updates, conflict.version ?? 1)}
+          onDiscard={handleDiscardEdit}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -5,41 +5,65 @@ import { Input } from "./ui/input";
 import { Badge } from "./ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { Alert, AlertDescription } from "./ui/alert";
-import { Plus, Search, Filter, Eye, Edit } from "lucide-react";
-import { defectsAPI, projectsAPI, usersAPI } from "../utils/api";
+import { Checkbox } from "./ui/checkbox";
+import { Label } from "./ui/label";
+import { Plus, Search, Filter, Eye, Edit, Upload } from "lucide-react";
+import { defectsAPI, projectsAPI, usersAPI, type DefectQueryParams } from "../utils/api";
+import { can } from "../supabase/functions/server/permissions";
+import { SlaBadge, formatDueDate } from "./SlaBadge";
+import { ExportMenu } from "./ExportMenu";
+import { ImportDefectsDialog } from "./ImportDefectsDialog";
+import { BulkDefectActions } from "./BulkDefectActions";
+import { exportDefects, type ExportFormat } from "../utils/export";
 
 interface DefectsPageProps {
   accessToken: string;
   onCreateDefect: () => void;
   onViewDefect: (defectId: string) => void;
-  userRole?: string;
 }
 
-export function DefectsPage({ accessToken, onCreateDefect, onViewDefect, userRole = 'observer' }: DefectsPageProps) {
+const PAGE_SIZE = 20;
+
+export function DefectsPage({ accessToken, onCreateDefect, onViewDefect }: DefectsPageProps) {
   const [defects, setDefects] = useState<any[]>([]);
   const [projects, setProjects] = useState<any[]>([]);
   const [users, setUsers] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
+  const [listLoading, setListLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
+  // Pagination state
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  
   // Filter state
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [priorityFilter, setPriorityFilter] = useState("all");
   const [projectFilter, setProjectFilter] = useState("all");
+  const [assigneeFilter, setAssigneeFilter] = useState("all");
+  const [dueFrom, setDueFrom] = useState("");
+  const [dueTo, setDueTo] = useState("");
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [sortBy, setSortBy] = useState("createdAt:desc");
+
+  const [importOpen, setImportOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Bumped after an import to reload the list with the same filters
+  const [reloadKey, setReloadKey] = useState(0);
 
   useEffect(() => {
     const fetchData = async () => {
       try {
         setLoading(true);
         
-        const [defectsData, projectsData, usersData] = await Promise.all([
-          defectsAPI.getAll(accessToken),
+        const [projectsData, usersData] = await Promise.all([
           projectsAPI.getAll(accessToken),
           usersAPI.getAll(accessToken)
         ]);
 
-        setDefects(defectsData.defects || []);
         setProjects(projectsData.projects || []);
         setUsers(usersData.users || []);
         
@@ -54,6 +78,100 @@ export function DefectsPage({ accessToken, onCreateDefect, onViewDefect, userRol
     fetchData();
   }, [accessToken]);
 
+  // Wait for the user to stop typing before querying the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  const buildQuery = (): DefectQueryParams => {
+    const [sort, order] = sortBy.split(':') as [DefectQueryParams['sort'], DefectQueryParams['order']];
+    return {
+      q: debouncedSearch,
+      status: statusFilter === "all" ? undefined : statusFilter,
+      priority: priorityFilter === "all" ? undefined : priorityFilter,
+      projectId: projectFilter === "all" ? undefined : projectFilter,
+      assignee: assigneeFilter === "all" ? undefined : assigneeFilter,
+      dueFrom,
+      dueTo,
+      overdue: overdueOnly,
+      sort,
+      order,
+      limit: PAGE_SIZE
+    };
+  };
+
+  // Reload the first page whenever the filters change
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchDefects = async () => {
+      try {
+        setListLoading(true);
+        const data = await defectsAPI.getAll(accessToken, buildQuery());
+        if (cancelled) return;
+
+        setDefects(data.defects || []);
+        setNextCursor(data.nextCursor || null);
+        setTotal(data.total ?? 0);
+      } catch (err: any) {
+        if (cancelled) return;
+        console.error('Defects fetch error:', err);
+        setError(err.message || 'Ошибка загрузки дефектов');
+      } finally {
+        if (!cancelled) setListLoading(false);
+      }
+    };
+
+    fetchDefects();
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken, debouncedSearch, statusFilter, priorityFilter, projectFilter, assigneeFilter, dueFrom, dueTo, overdueOnly, sortBy, reloadKey]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+
+    try {
+      setLoadingMore(true);
+      const data = await defectsAPI.getAll(accessToken, { ...buildQuery(), cursor: nextCursor });
+      setDefects(prev => [...prev, ...(data.defects || [])]);
+      setNextCursor(data.nextCursor || null);
+      setTotal(data.total ?? 0);
+    } catch (err: any) {
+      console.error('Defects fetch error:', err);
+      setError(err.message || 'Ошибка загрузки дефектов');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Exports every defect matching the filters, not only the loaded pages
+  const handleExport = async (format: Exclude<ExportFormat, 'pdf'>) => {
+    const data = await defectsAPI.getAll(accessToken, { ...buildQuery(), limit: undefined });
+    await exportDefects(format, data.defects || [], { projects, users });
+  };
+
+  const resetFilters = () => {
+    setSearchTerm("");
+    setStatusFilter("all");
+    setPriorityFilter("all");
+    setProjectFilter("all");
+    setAssigneeFilter("all");
+    setDueFrom("");
+    setDueTo("");
+    setOverdueOnly(false);
+    setSortBy("createdAt:desc");
+  };
+
+  const toggleSelected = (defectId: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, defectId] : prev.filter(id => id !== defectId));
+  };
+
+  // Only defects still in the list count, so changing the filters drops hidden ones from the selection
+  const selectedDefects = defects.filter(defect => selectedIds.includes(defect.id));
+  const canBulkEdit = projects.some(project => can(project.myRole, 'defects:update'));
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'Новая': return 'bg-blue-500';
@@ -85,16 +203,6 @@ export function DefectsPage({ accessToken, onCreateDefect, onViewDefect, userRol
     return project?.name || 'Неизвестно';
   };
 
-  const filteredDefects = defects.filter(defect => {
-    const matchesSearch = defect.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         defect.description.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === "all" || defect.status === statusFilter;
-    const matchesPriority = priorityFilter === "all" || defect.priority === priorityFilter;
-    const matchesProject = projectFilter === "all" || defect.projectId === projectFilter;
-    
-    return matchesSearch && matchesStatus && matchesPriority && matchesProject;
-  });
-
   if (loading) {
     return (
       <div className="p-6">
@@ -127,14 +235,34 @@ export function DefectsPage({ accessToken, onCreateDefect, onViewDefect, userRol
           <h1 className="text-3xl font-bold">Дефекты</h1>
           <p className="text-muted-foreground">Управление дефектами проекта</p>
         </div>
-        {(userRole === 'engineer' || userRole === 'manager' || userRole === 'admin') && (
-          <Button onClick={onCreateDefect}>
-            <Plus className="h-4 w-4 mr-2" />
-            Создать дефект
-          </Button>
-        )}
+        <div className="flex items-center space-x-2">
+          <ExportMenu onExport={handleExport} disabled={total === 0} />
+          {/* Roles are per project, so creating is possible when any open project allows it */}
+          {projects.some(project => !project.archivedAt && can(project.myRole, 'defects:create')) && (
+            <>
+              <Button variant="outline" onClick={() => setImportOpen(true)}>
+                <Upload className="h-4 w-4 mr-2" />
+                Импорт
+              </Button>
+              <Button onClick={onCreateDefect}>
+                <Plus className="h-4 w-4 mr-2" />
+                Создать дефект
+              </Button>
+            </>
+          )}
+        </div>
       </div>
 
+      {importOpen && (
+        <ImportDefectsDialog
+          accessToken={accessToken}
+          projects={projects}
+          users={users}
+          onClose={() => setImportOpen(false)}
+          onImported={() => setReloadKey(key => key + 1)}
+        />
+      )}
+
       {/* Filters */}
       <Card>
         <CardHeader>
@@ -147,7 +275,7 @@ export function DefectsPage({ accessToken, onCreateDefect, onViewDefect, userRol
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
             <div>
               <Input
-                placeholder="Поиск по названию..."
+                placeholder="Поиск по дефектам и комментариям..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="w-full"
@@ -197,32 +325,119 @@ export function DefectsPage({ accessToken, onCreateDefect, onViewDefect, userRol
 
             <Button 
               variant="outline" 
-              onClick={() => {
-                setSearchTerm("");
-                setStatusFilter("all");
-                setPriorityFilter("all");
-                setProjectFilter("all");
-              }}
+              onClick={resetFilters}
             >
               Сбросить
             </Button>
           </div>
+
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5 mt-4">
+            <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+              <SelectTrigger>
+                <SelectValue placeholder="Исполнитель" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Все исполнители</SelectItem>
+                <SelectItem value="me">Мои дефекты</SelectItem>
+                {users.map(user => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Input
+              type="date"
+              value={dueFrom}
+              onChange={(e) => setDueFrom(e.target.value)}
+              aria-label="Срок с"
+              title="Срок с"
+            />
+
+            <Input
+              type="date"
+              value={dueTo}
+              onChange={(e) => setDueTo(e.target.value)}
+              aria-label="Срок по"
+              title="Срок по"
+            />
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="overdue-only"
+                checked={overdueOnly}
+                onCheckedChange={(checked) => setOverdueOnly(checked === true)}
+              />
+              <Label htmlFor="overdue-only">Только просроченные</Label>
+            </div>
+
+            <Select value={sortBy} onValueChange={setSortBy}>
+              <SelectTrigger>
+                <SelectValue placeholder="Сортировка" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="createdAt:desc">Сначала новые</SelectItem>
+                <SelectItem value="createdAt:asc">Сначала старые</SelectItem>
+                <SelectItem value="updatedAt:desc">Недавно обновленные</SelectItem>
+                <SelectItem value="dueDate:asc">По сроку выполнения</SelectItem>
+                <SelectItem value="priority:desc">По приоритету</SelectItem>
+                <SelectItem value="title:asc">По названию</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
         </CardContent>
       </Card>
 
+      {selectedDefects.length > 0 && (
+        <BulkDefectActions
+          accessToken={accessToken}
+          selected={selectedDefects}
+          projects={projects}
+          users={users}
+          onClear={() => setSelectedIds([])}
+          onUpdated={(failedIds) => {
+            setSelectedIds(failedIds);
+            setReloadKey(key => key + 1);
+          }}
+        />
+      )}
+
       {/* Defects List */}
       <div className="space-y-4">
-        {filteredDefects.length === 0 ? (
+        {canBulkEdit && defects.length > 0 && (
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="select-all"
+              checked={selectedDefects.length === defects.length}
+              onCheckedChange={(checked) => setSelectedIds(checked === true ? defects.map(defect => defect.id) : [])}
+            />
+            <Label htmlFor="select-all">Выбрать все загруженные</Label>
+          </div>
+        )}
+        {listLoading && defects.length === 0 ? (
+          [...Array(3)].map((_, i) => (
+            <div key={i} className="h-24 bg-gray-200 rounded animate-pulse" />
+          ))
+        ) : defects.length === 0 ? (
           <Card>
             <CardContent className="p-6 text-center">
               <p className="text-muted-foreground">Дефекты не найдены</p>
             </CardContent>
           </Card>
         ) : (
-          filteredDefects.map((defect) => (
+          defects.map((defect) => (
             <Card key={defect.id} className="hover:shadow-md transition-shadow">
               <CardContent className="p-4">
                 <div className="flex items-start justify-between">
+                  {canBulkEdit && (
+                    <Checkbox
+                      className="mt-1 mr-3"
+                      checked={selectedIds.includes(defect.id)}
+                      onCheckedChange={(checked) => toggleSelected(defect.id, checked === true)}
+                      aria-label="Выбрать дефект"
+                    />
+                  )}
                   <div className="space-y-2 flex-1">
                     <div className="flex items-center space-x-2">
                       <h3 className="font-medium">{defect.title}</h3>
@@ -238,9 +453,7 @@ export function DefectsPage({ accessToken, onCreateDefect, onViewDefect, userRol
                       <span>Исполнитель: {getUserName(defect.assignee)}</span>
                       <span>Создан: {new Date(defect.createdAt).toLocaleDateString('ru')}</span>
                       {defect.dueDate && (
-                        <span className={new Date(defect.dueDate) < new Date() && defect.status !== 'Закрыта' ? 'text-red-600' : ''}>
-                          Срок: {new Date(defect.dueDate).toLocaleDateString('ru')}
-                        </span>
+                        <span>Срок: {formatDueDate(defect)}</span>
                       )}
                     </div>
                   </div>
@@ -250,6 +463,7 @@ export function DefectsPage({ accessToken, onCreateDefect, onViewDefect, userRol
                       {defect.priority}
                     </Badge>
                     <Badge variant="outline">{defect.status}</Badge>
+                    <SlaBadge defect={defect} />
                     <Button 
                       variant="outline" 
                       size="sm"
@@ -264,6 +478,19 @@ export function DefectsPage({ accessToken, onCreateDefect, onViewDefect, userRol
           ))
         )}
       </div>
+
+      {defects.length > 0 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Показано {defects.length} из {total}
+          </p>
+          {nextCursor && (
+            <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+              {loadingMore ? "Загрузка..." : "Загрузить еще"}
+            </Button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
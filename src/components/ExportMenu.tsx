@@ -0,0 +1,52 @@
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "./ui/dropdown-menu";
+import { Download } from "lucide-react";
+import { toast } from "react-toastify";
+import type { ExportFormat } from "../utils/export";
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  pdf: 'PDF-отчет',
+};
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => Promise<void>;
+  formats?: ExportFormat[];
+  disabled?: boolean;
+}
+
+export function ExportMenu({ onExport, formats = ['csv', 'xlsx'], disabled }: ExportMenuProps) {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setExporting(true);
+      await onExport(format);
+    } catch (err: any) {
+      console.error('Export error:', err);
+      toast.error(err.message || 'Ошибка экспорта');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={disabled || exporting}>
+          <Download className="h-4 w-4 mr-2" />
+          {exporting ? "Экспорт..." : "Экспорт"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {formats.map(format => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            {FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
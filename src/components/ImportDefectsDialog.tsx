@@ -0,0 +1,373 @@
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Badge } from "./ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { toast } from "react-toastify";
+import { defectsAPI } from "../utils/api";
+import { can } from "../supabase/functions/server/permissions";
+import {
+  IMPORT_FIELDS,
+  distinctValues,
+  guessColumn,
+  guessValue,
+  mappedFieldOptions,
+  prepareRows,
+  readSpreadsheet,
+  type ColumnMapping,
+  type MappedField,
+  type PreparedRow,
+  type Spreadsheet,
+  type ValueMappings,
+} from "../utils/defectImport";
+
+type Step = 'file' | 'columns' | 'values' | 'preview';
+
+// Matches MAX_IMPORT_ROWS on the server
+const CHUNK_SIZE = 1000;
+
+// Select items cannot have an empty value
+const NONE = 'none';
+
+const MAPPED_FIELDS: MappedField[] = ['priority', 'status', 'assignee'];
+
+const FIELD_LABELS: Record<string, string> = Object.fromEntries(IMPORT_FIELDS.map(({ field, label }) => [field, label]));
+
+interface RowResult extends Omit<PreparedRow, 'errors'> {
+  errors: Record<string, string> | null;
+}
+
+interface ImportDefectsDialogProps {
+  accessToken: string;
+  projects: any[];
+  users: any[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const chunks = <T,>(items: T[]) => {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+    result.push(items.slice(i, i + CHUNK_SIZE));
+  }
+  return result;
+};
+
+export function ImportDefectsDialog({ accessToken, projects, users, onClose, onImported }: ImportDefectsDialogProps) {
+  const [step, setStep] = useState<Step>('file');
+  const [busy, setBusy] = useState(false);
+  const [projectId, setProjectId] = useState("");
+  const [sheet, setSheet] = useState<Spreadsheet | null>(null);
+  const [columns, setColumns] = useState<ColumnMapping>({});
+  const [values, setValues] = useState<ValueMappings>({ priority: {}, status: {}, assignee: {} });
+  const [results, setResults] = useState<RowResult[]>([]);
+  // Chunks of valid rows already saved, so that a retry after a failure resumes with the next one
+  const [importedChunks, setImportedChunks] = useState(0);
+  const [importedCount, setImportedCount] = useState(0);
+
+  const availableProjects = projects.filter(project => !project.archivedAt && can(project.myRole, 'defects:create'));
+  const validRows = results.filter(result => !result.errors);
+  const invalidRows = results.filter(result => result.errors);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (!/\.(csv|xlsx)$/i.test(file.name)) {
+      toast.error('Выберите файл CSV или Excel в формате .xlsx');
+      return;
+    }
+
+    try {
+      setBusy(true);
+      const data = await readSpreadsheet(file);
+      if (data.rows.length === 0) {
+        toast.error('В файле нет строк с данными');
+        return;
+      }
+
+      setSheet(data);
+      const guessed: ColumnMapping = {};
+      for (const { field } of IMPORT_FIELDS) {
+        const column = guessColumn(data.headers, field);
+        if (column >= 0) guessed[field] = column;
+      }
+      setColumns(guessed);
+    } catch (err: any) {
+      console.error('Import file read error:', err);
+      toast.error('Не удалось прочитать файл');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setColumn = (field: string, value: string) => {
+    setColumns(prev => ({ ...prev, [field]: value === NONE ? undefined : Number(value) }));
+  };
+
+  // Prefills value mappings with the best guesses, keeping choices already made
+  const goToValues = () => {
+    if (!sheet) return;
+    const next = { ...values };
+    for (const field of MAPPED_FIELDS) {
+      next[field] = Object.fromEntries(distinctValues(sheet, columns[field]).map(text => [
+        text,
+        values[field][text] ?? guessValue(field, text, users)
+      ]));
+    }
+    setValues(next);
+    setStep('values');
+  };
+
+  const setValue = (field: MappedField, text: string, value: string) => {
+    setValues(prev => ({ ...prev, [field]: { ...prev[field], [text]: value === NONE ? '' : value } }));
+  };
+
+  const handleCheck = async () => {
+    if (!sheet) return;
+
+    try {
+      setBusy(true);
+      const prepared = prepareRows(sheet, columns, values);
+      const checked: RowResult[] = [];
+      for (const chunk of chunks(prepared)) {
+        const data = await defectsAPI.import(accessToken, projectId, chunk.map(row => row.data), true);
+        const errors = new Map<number, Record<string, string>>(
+          (data.errors || []).map((error: any) => [error.row, error.fields])
+        );
+        checked.push(...chunk.map((row, index) => {
+          const fields = { ...row.errors, ...errors.get(index) };
+          return { ...row, errors: Object.keys(fields).length > 0 ? fields : null };
+        }));
+      }
+      setResults(checked);
+      setImportedChunks(0);
+      setImportedCount(0);
+      setStep('preview');
+    } catch (err: any) {
+      console.error('Import check error:', err);
+      toast.error(err.message || 'Ошибка проверки файла');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const pending = chunks(validRows);
+    let done = importedChunks;
+    let created = importedCount;
+    try {
+      setBusy(true);
+      for (; done < pending.length; done++) {
+        const data = await defectsAPI.import(accessToken, projectId, pending[done].map(row => row.data));
+        created += data.created;
+      }
+      toast.success(`Импортировано дефектов: ${created}`);
+      onImported();
+      onClose();
+    } catch (err: any) {
+      console.error('Import error:', err);
+      toast.error(err.message || 'Ошибка импорта дефектов');
+      setImportedChunks(done);
+      setImportedCount(created);
+      // Earlier chunks are already saved
+      if (created > importedCount) {
+        onImported();
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const requiredMapped = IMPORT_FIELDS.every(({ field, required }) => !required || columns[field] !== undefined);
+
+  const renderFileStep = () => (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Проект</Label>
+        <Select value={projectId} onValueChange={setProjectId}>
+          <SelectTrigger>
+            <SelectValue placeholder="Выберите проект" />
+          </SelectTrigger>
+          <SelectContent>
+            {availableProjects.map(project => (
+              <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="import-file">Файл CSV или Excel</Label>
+        <Input
+          id="import-file"
+          type="file"
+          accept=".csv,.xlsx"
+          disabled={busy}
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+        <p className="text-sm text-muted-foreground">
+          {sheet
+            ? `Строк в файле: ${sheet.rows.length}. Первая строка считается заголовком.`
+            : 'Первая строка файла должна содержать названия столбцов.'}
+        </p>
+      </div>
+    </div>
+  );
+
+  const renderColumnsStep = () => (
+    <div className="space-y-3">
+      {IMPORT_FIELDS.map(({ field, label, required }) => (
+        <div key={field} className="flex items-center justify-between space-x-4">
+          <Label className="w-40">{label}{required && ' *'}</Label>
+          <Select value={columns[field] === undefined ? NONE : String(columns[field])} onValueChange={(value) => setColumn(field, value)}>
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Не импортировать</SelectItem>
+              {sheet!.headers.map((header, index) => (
+                <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderValuesStep = () => {
+    const fields = MAPPED_FIELDS.filter(field => Object.keys(values[field]).length > 0);
+    if (fields.length === 0) {
+      return <p className="text-sm text-muted-foreground">Сопоставлять нечего, можно переходить к проверке</p>;
+    }
+
+    return (
+      <div className="space-y-6 max-h-[50vh] overflow-y-auto pr-2">
+        {fields.map(field => (
+          <div key={field} className="space-y-2">
+            <h3 className="font-medium">{FIELD_LABELS[field]}</h3>
+            {Object.entries(values[field]).map(([text, value]) => (
+              <div key={text} className="flex items-center justify-between space-x-4">
+                <span className="text-sm w-48 truncate" title={text}>{text}</span>
+                <Select value={value || NONE} onValueChange={(selected) => setValue(field, text, selected)}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>
+                      {field === 'status' ? 'Оставить как есть' : 'Не выбрано'}
+                    </SelectItem>
+                    {mappedFieldOptions(field, users).map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderPreviewStep = () => (
+    <div className="space-y-4">
+      <div className="flex space-x-2">
+        <Badge variant="secondary">Готово к импорту: {validRows.length}</Badge>
+        {importedCount > 0 && <Badge variant="outline">Уже импортировано: {importedCount}</Badge>}
+        {invalidRows.length > 0 && <Badge variant="destructive">С ошибками: {invalidRows.length}</Badge>}
+      </div>
+      {invalidRows.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Строки с ошибками будут пропущены. Исправьте файл или сопоставление, чтобы импортировать их.
+        </p>
+      )}
+      <div className="max-h-[50vh] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Строка</TableHead>
+              <TableHead>Название</TableHead>
+              <TableHead>Приоритет</TableHead>
+              <TableHead>Проверка</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {/* Rows with errors first, they need attention */}
+            {[...invalidRows, ...validRows].map(result => (
+              <TableRow key={result.line}>
+                <TableCell>{result.line}</TableCell>
+                <TableCell className="max-w-[200px] truncate">{result.data.title}</TableCell>
+                <TableCell>{result.data.priority}</TableCell>
+                <TableCell>
+                  {result.errors ? (
+                    <ul className="text-sm text-red-600">
+                      {Object.entries(result.errors).map(([field, message]) => (
+                        <li key={field}>{FIELD_LABELS[field] ?? field}: {message}</li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <span className="text-sm text-green-600">OK</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !busy && onClose()}>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>Импорт дефектов</DialogTitle>
+          <DialogDescription>
+            {step === 'file' && 'Шаг 1 из 4: выберите проект и файл'}
+            {step === 'columns' && 'Шаг 2 из 4: укажите, какие столбцы соответствуют полям дефекта'}
+            {step === 'values' && 'Шаг 3 из 4: сопоставьте значения из файла с приоритетами, статусами и пользователями'}
+            {step === 'preview' && 'Шаг 4 из 4: проверьте результат перед импортом'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'file' && renderFileStep()}
+        {step === 'columns' && renderColumnsStep()}
+        {step === 'values' && renderValuesStep()}
+        {step === 'preview' && renderPreviewStep()}
+
+        <DialogFooter>
+          {step !== 'file' && (
+            <Button
+              variant="outline"
+              // Going back after a partial import would import the saved rows again
+              disabled={busy || importedChunks > 0}
+              onClick={() => setStep(step === 'preview' ? 'values' : step === 'values' ? 'columns' : 'file')}
+            >
+              Назад
+            </Button>
+          )}
+          {step === 'file' && (
+            <Button disabled={!projectId || !sheet || busy} onClick={() => setStep('columns')}>Далее</Button>
+          )}
+          {step === 'columns' && (
+            <Button disabled={!requiredMapped} onClick={goToValues}>Далее</Button>
+          )}
+          {step === 'values' && (
+            <Button disabled={busy} onClick={handleCheck}>{busy ? 'Проверка...' : 'Проверить'}</Button>
+          )}
+          {step === 'preview' && (
+            <Button disabled={validRows.length === 0 || busy} onClick={handleImport}>
+              {busy
+                ? 'Импорт...'
+                : importedCount > 0
+                  ? `Продолжить импорт (${validRows.length - importedCount})`
+                  : `Импортировать (${validRows.length})`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { toast } from "react-toastify";
+import { adminAPI } from "../utils/api";
+
+const RUN_STATUS: Record<string, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  success: { label: 'Успешно', variant: 'default' },
+  running: { label: 'Выполняется', variant: 'secondary' },
+  failed: { label: 'Ошибка', variant: 'destructive' },
+};
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return '—';
+  return ms < 1000 ? `${ms} мс` : `${(ms / 1000).toFixed(1)} с`;
+};
+
+// What a run did, e.g. "sent: 3, failed: 0"
+const formatResult = (run: any) => {
+  if (run.error) return run.error;
+  if (!run.result) return '';
+  return Object.entries(run.result).map(([key, value]) => `${key}: ${value}`).join(', ');
+};
+
+interface JobsCardProps {
+  accessToken: string;
+}
+
+export function JobsCard({ accessToken }: JobsCardProps) {
+  const [jobs, setJobs] = useState<any[]>([]);
+  const [runningJob, setRunningJob] = useState<string | null>(null);
+
+  const fetchJobs = async () => {
+    try {
+      const data = await adminAPI.getJobs(accessToken);
+      setJobs(data.jobs || []);
+    } catch (err: any) {
+      console.error('Jobs fetch error:', err);
+      toast.error(err.message || 'Ошибка загрузки задач');
+    }
+  };
+
+  useEffect(() => {
+    fetchJobs();
+  }, [accessToken]);
+
+  const handleRun = async (name: string) => {
+    try {
+      setRunningJob(name);
+      const { run } = await adminAPI.runJob(accessToken, name);
+      if (run.status === 'failed') {
+        toast.error(`Задача завершилась с ошибкой: ${run.error}`);
+      } else {
+        toast.success('Задача выполнена');
+      }
+      await fetchJobs();
+    } catch (err: any) {
+      console.error('Job run error:', err);
+      toast.error(err.message || 'Ошибка запуска задачи');
+    } finally {
+      setRunningJob(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Фоновые задачи</CardTitle>
+        <CardDescription>Расписание указано в формате cron по UTC</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Задача</TableHead>
+              <TableHead>Расписание</TableHead>
+              <TableHead>Последний запуск</TableHead>
+              <TableHead>Длительность</TableHead>
+              <TableHead>Результат</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jobs.map(job => {
+              const lastRun = job.runs[0];
+              return (
+                <TableRow key={job.name}>
+                  <TableCell>
+                    <div className="font-medium">{job.name}</div>
+                    <div className="text-xs text-muted-foreground">{job.description}</div>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{job.schedule}</TableCell>
+                  <TableCell>
+                    {lastRun ? (
+                      <div className="space-y-1">
+                        <Badge variant={RUN_STATUS[lastRun.status]?.variant || 'secondary'}>
+                          {RUN_STATUS[lastRun.status]?.label || lastRun.status}
+                        </Badge>
+                        <div className="text-xs text-muted-foreground">
+                          {new Date(lastRun.startedAt).toLocaleString('ru')}
+                          {lastRun.trigger === 'manual' && ' (вручную)'}
+                        </div>
+                      </div>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Не запускалась</span>
+                    )}
+                  </TableCell>
+                  <TableCell>{lastRun ? formatDuration(lastRun.durationMs) : '—'}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground break-all">
+                    {lastRun ? formatResult(lastRun) : ''}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRun(job.name)}
+                      disabled={runningJob !== null}
+                    >
+                      {runningJob === job.name ? "Выполнение..." : "Запустить"}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { Clock, MessageSquare, RotateCcw, CheckCircle } from "lucide-react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line } from "recharts";
+import { DEFECT_STATUSES } from "../supabase/functions/server/workflow";
+
+type Breakdown = 'byProject' | 'byPriority' | 'byAssignee';
+
+const BREAKDOWN_LABELS: Record<Breakdown, string> = {
+  byProject: 'По проектам',
+  byPriority: 'По приоритетам',
+  byAssignee: 'По исполнителям',
+};
+
+const GROUP_COLUMNS: Record<Breakdown, string> = {
+  byProject: 'Проект',
+  byPriority: 'Приоритет',
+  byAssignee: 'Исполнитель',
+};
+
+// Hours up to two days, days beyond that
+export const formatHours = (hours: number | null | undefined) => {
+  if (hours === null || hours === undefined) return '—';
+  return hours < 48 ? `${hours} ч` : `${Math.round(hours / 24 * 10) / 10} дн`;
+};
+
+interface LifecycleMetricsProps {
+  lifecycle: any;
+  projects: any[];
+  users: any[];
+}
+
+export function LifecycleMetrics({ lifecycle, projects, users }: LifecycleMetricsProps) {
+  const [breakdown, setBreakdown] = useState<Breakdown>('byProject');
+
+  if (!lifecycle) {
+    return null;
+  }
+
+  const groupName = (key: string | null) => {
+    switch (breakdown) {
+      case 'byProject': return projects.find(p => p.id === key)?.name || 'Неизвестно';
+      case 'byAssignee': return key ? users.find(u => u.id === key)?.name || 'Неизвестно' : 'Не назначен';
+      default: return key || '—';
+    }
+  };
+
+  const trendData = lifecycle.trend.map((week: any) => ({
+    ...week,
+    week: new Date(week.week).toLocaleDateString('ru')
+  }));
+
+  const timeInStatusData = DEFECT_STATUSES
+    .filter(status => lifecycle.timeInStatus[status])
+    .map(status => ({
+      status,
+      mean: lifecycle.timeInStatus[status].meanHours,
+      median: lifecycle.timeInStatus[status].medianHours
+    }));
+
+  const groups = lifecycle[breakdown].map((group: any) => ({
+    ...group,
+    name: groupName(group.key),
+    mean: group.timeToClose.meanHours,
+    median: group.timeToClose.medianHours
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Время до закрытия</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatHours(lifecycle.timeToClose.meanHours)}</div>
+            <p className="text-xs text-muted-foreground">
+              В среднем, медиана {formatHours(lifecycle.timeToClose.medianHours)}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Первая реакция</CardTitle>
+            <MessageSquare className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatHours(lifecycle.firstResponse.meanHours)}</div>
+            <p className="text-xs text-muted-foreground">
+              В среднем, медиана {formatHours(lifecycle.firstResponse.medianHours)}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Повторные открытия</CardTitle>
+            <RotateCcw className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {lifecycle.reopenRate === null ? '—' : `${lifecycle.reopenRate}%`}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Закрытых дефектов открыто повторно: {lifecycle.reopened}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Закрыто</CardTitle>
+            <CheckCircle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{lifecycle.timeToClose.count}</div>
+            <p className="text-xs text-muted-foreground">Из {lifecycle.defects} дефектов</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Trend */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Динамика сроков устранения</CardTitle>
+          <CardDescription>По неделям закрытия, в часах</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {trendData.length > 0 ? (
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={trendData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="week" />
+                <YAxis />
+                <Tooltip />
+                <Legend />
+                <Line type="monotone" dataKey="meanHoursToClose" name="Среднее время до закрытия" stroke="#8884d8" strokeWidth={2} connectNulls />
+                <Line type="monotone" dataKey="medianHoursToClose" name="Медиана времени до закрытия" stroke="#82ca9d" strokeWidth={2} connectNulls />
+                <Line type="monotone" dataKey="meanHoursToFirstResponse" name="Средняя первая реакция" stroke="#ffc658" strokeWidth={2} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          ) : (
+            <p className="text-muted-foreground">Нет данных для отображения</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Time in status */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Время в статусах</CardTitle>
+          <CardDescription>Сколько часов дефекты проводят в каждом статусе до закрытия</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {timeInStatusData.length > 0 ? (
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={timeInStatusData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="status" />
+                <YAxis />
+                <Tooltip />
+                <Legend />
+                <Bar dataKey="mean" name="Среднее" fill="#8884d8" />
+                <Bar dataKey="median" name="Медиана" fill="#82ca9d" />
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <p className="text-muted-foreground">Нет данных для отображения</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Breakdown */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Сроки устранения в разрезе</CardTitle>
+          <Select value={breakdown} onValueChange={(value) => setBreakdown(value as Breakdown)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(BREAKDOWN_LABELS) as Breakdown[]).map(key => (
+                <SelectItem key={key} value={key}>{BREAKDOWN_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {groups.length > 0 ? (
+            <>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={groups}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="mean" name="Среднее время до закрытия, ч" fill="#8884d8" />
+                  <Bar dataKey="median" name="Медиана, ч" fill="#82ca9d" />
+                </BarChart>
+              </ResponsiveContainer>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{GROUP_COLUMNS[breakdown]}</TableHead>
+                    <TableHead>Дефектов</TableHead>
+                    <TableHead>Закрыто</TableHead>
+                    <TableHead>Среднее / медиана до закрытия</TableHead>
+                    <TableHead>Первая реакция</TableHead>
+                    <TableHead>Повторно открыто</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {groups.map((group: any) => (
+                    <TableRow key={group.key ?? 'none'}>
+                      <TableCell className="font-medium">{group.name}</TableCell>
+                      <TableCell>{group.defects}</TableCell>
+                      <TableCell>{group.timeToClose.count}</TableCell>
+                      <TableCell>
+                        {formatHours(group.timeToClose.meanHours)} / {formatHours(group.timeToClose.medianHours)}
+                      </TableCell>
+                      <TableCell>{formatHours(group.firstResponse.meanHours)}</TableCell>
+                      <TableCell>{group.reopenRate === null ? '—' : `${group.reopenRate}%`}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          ) : (
+            <p className="text-muted-foreground">Нет данных для отображения</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState, useEffect } from "react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { Bell } from "lucide-react";
+import { notificationsAPI } from "../utils/api";
+
+// How often the unread count is refreshed while the app is open
+const POLL_INTERVAL_MS = 60 * 1000;
+
+interface NotificationBellProps {
+  accessToken: string;
+  onOpenDefect: (defectId: string) => void;
+}
+
+export function NotificationBell({ accessToken, onOpenDefect }: NotificationBellProps) {
+  const [notifications, setNotifications] = useState<any[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+
+  const fetchNotifications = async () => {
+    try {
+      const data = await notificationsAPI.getAll(accessToken);
+      setNotifications(data.notifications || []);
+      setUnreadCount(data.unreadCount || 0);
+    } catch (err) {
+      console.error('Notifications fetch error:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchNotifications();
+    const timer = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [accessToken]);
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      await notificationsAPI.markRead(accessToken, ids);
+      await fetchNotifications();
+    } catch (err) {
+      console.error('Notifications update error:', err);
+    }
+  };
+
+  const handleOpenNotification = (notification: any) => {
+    if (!notification.read) {
+      markRead([notification.id]);
+    }
+    setOpen(false);
+    onOpenDefect(notification.defectId);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label="Уведомления">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <Badge variant="destructive" className="absolute -top-1 -right-1 h-5 min-w-5 px-1 text-xs">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b p-3">
+          <p className="text-sm font-medium">Уведомления</p>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => markRead()}>
+              Отметить все прочитанными
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="p-3 text-sm text-muted-foreground">Уведомлений нет</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => handleOpenNotification(notification)}
+                className={`block w-full border-b p-3 text-left text-sm hover:bg-accent ${notification.read ? 'text-muted-foreground' : ''}`}
+              >
+                <p className={notification.read ? '' : 'font-medium'}>{notification.message}</p>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(notification.createdAt).toLocaleString('ru')}
+                </p>
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect } from "react";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Trash2 } from "lucide-react";
+import { toast } from "react-toastify";
+import { projectsAPI } from "../utils/api";
+import { PROJECT_ROLES } from "../supabase/functions/server/permissions";
+
+const ROLE_LABELS: Record<string, string> = {
+  observer: 'Наблюдатель',
+  engineer: 'Инженер',
+  manager: 'Менеджер',
+};
+
+interface ProjectMembersDialogProps {
+  accessToken: string;
+  project: any;
+  users: any[];
+  canManage: boolean;
+  onClose: () => void;
+}
+
+export function ProjectMembersDialog({ accessToken, project, users, canManage, onClose }: ProjectMembersDialogProps) {
+  const [members, setMembers] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newMemberId, setNewMemberId] = useState("");
+  const [newMemberRole, setNewMemberRole] = useState("engineer");
+
+  const fetchMembers = async () => {
+    try {
+      setLoading(true);
+      const data = await projectsAPI.getMembers(accessToken, project.id);
+      setMembers(data.members || []);
+    } catch (err: any) {
+      console.error('Project members fetch error:', err);
+      toast.error(err.message || 'Ошибка загрузки участников');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchMembers();
+  }, [accessToken, project.id]);
+
+  const runMemberAction = async (action: () => Promise<any>, errorMessage: string) => {
+    try {
+      setSaving(true);
+      await action();
+      await fetchMembers();
+    } catch (err: any) {
+      console.error('Project member action error:', err);
+      toast.error(err.message || errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddMember = () => runMemberAction(async () => {
+    await projectsAPI.setMember(accessToken, project.id, newMemberId, newMemberRole);
+    setNewMemberId("");
+  }, 'Ошибка добавления участника');
+
+  const getUserName = (userId: string) => {
+    const user = users.find(u => u.id === userId);
+    return user?.name || 'Неизвестно';
+  };
+
+  // Admins see every project without being members, so they are not offered here
+  const candidates = users.filter(user =>
+    user.role !== 'admin' && !members.some(member => member.userId === user.id)
+  );
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Участники проекта «{project.name}»</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Загрузка...</p>
+        ) : members.length === 0 ? (
+          <p className="text-sm text-muted-foreground">В проекте пока нет участников</p>
+        ) : (
+          <div className="space-y-2">
+            {members.map(member => (
+              <div key={member.userId} className="flex items-center justify-between space-x-2">
+                <span className="text-sm font-medium flex-1 truncate">{getUserName(member.userId)}</span>
+                {canManage ? (
+                  <>
+                    <Select
+                      value={member.role}
+                      onValueChange={(role) => runMemberAction(
+                        () => projectsAPI.setMember(accessToken, project.id, member.userId, role),
+                        'Ошибка изменения роли'
+                      )}
+                      disabled={saving}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PROJECT_ROLES.map(role => (
+                          <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={saving}
+                      onClick={() => runMemberAction(
+                        () => projectsAPI.removeMember(accessToken, project.id, member.userId),
+                        'Ошибка удаления участника'
+                      )}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <span className="text-sm text-muted-foreground">{ROLE_LABELS[member.role] || member.role}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canManage && (
+          <div className="space-y-2 border-t pt-4">
+            <Label>Добавить участника</Label>
+            <div className="flex space-x-2">
+              <Select value={newMemberId} onValueChange={setNewMemberId}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Выберите пользователя" />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map(user => (
+                    <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={newMemberRole} onValueChange={setNewMemberRole}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROJECT_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAddMember} disabled={!newMemberId || saving}>
+                Добавить
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,30 +6,53 @@ import { Label } from "./ui/label";
 import { Textarea } from "./ui/textarea";
 import { Badge } from "./ui/badge";
 import { Alert, AlertDescription } from "./ui/alert";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "./ui/dialog";
-import { Plus, Calendar, Users, FileText } from "lucide-react";
-import { projectsAPI, defectsAPI, usersAPI } from "../utils/api";
+import { Checkbox } from "./ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "./ui/dropdown-menu";
+import { Plus, Calendar, Users, FileText, MoreVertical } from "lucide-react";
+import { toast } from "react-toastify";
+import { ProjectMembersDialog } from "./ProjectMembersDialog";
+import { ApiError, analyticsAPI, projectsAPI, defectsAPI, slaAPI, usersAPI } from "../utils/api";
+import { downloadDefectReport } from "../utils/pdfReport";
+import { can } from "../supabase/functions/server/permissions";
+import { DEFAULT_SLA_POLICY, type SlaPolicy } from "../supabase/functions/server/sla";
+
+// SLA hours are kept as input text; empty means the project uses the default policy
+const EMPTY_PROJECT = {
+  name: "",
+  description: "",
+  startDate: "",
+  endDate: "",
+  slaPolicy: {} as Record<string, string>
+};
+
+const toSlaOverride = (inputs: Record<string, string>): SlaPolicy | null => {
+  const entries = Object.entries(inputs).filter(([, hours]) => hours.trim() !== '');
+  return entries.length > 0 ? Object.fromEntries(entries.map(([priority, hours]) => [priority, Number(hours)])) : null;
+};
 
 interface ProjectsPageProps {
   accessToken: string;
+  userRole?: string;
 }
 
-export function ProjectsPage({ accessToken }: ProjectsPageProps) {
+export function ProjectsPage({ accessToken, userRole = 'observer' }: ProjectsPageProps) {
   const [projects, setProjects] = useState<any[]>([]);
-  const [defects, setDefects] = useState<any[]>([]);
+  // Defect counts per project from /analytics, so the page does not load every defect
+  const [projectCounts, setProjectCounts] = useState<any[]>([]);
   const [users, setUsers] = useState<any[]>([]);
+  const [slaPolicy, setSlaPolicy] = useState<SlaPolicy>(DEFAULT_SLA_POLICY);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
-  // New project form state
+  const [showArchived, setShowArchived] = useState(false);
+  const [membersProject, setMembersProject] = useState<any>(null);
+  
+  // Project form state, shared by the create and edit dialogs
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [editingProjectId, setEditingProjectId] = useState<string | null>(null);
   const [createLoading, setCreateLoading] = useState(false);
-  const [newProject, setNewProject] = useState({
-    name: "",
-    description: "",
-    startDate: "",
-    endDate: ""
-  });
+  const [newProject, setNewProject] = useState(EMPTY_PROJECT);
 
   useEffect(() => {
     fetchData();
@@ -39,15 +62,17 @@ export function ProjectsPage({ accessToken }: ProjectsPageProps) {
     try {
       setLoading(true);
       
-      const [projectsData, defectsData, usersData] = await Promise.all([
+      const [projectsData, analyticsData, usersData, slaData] = await Promise.all([
         projectsAPI.getAll(accessToken),
-        defectsAPI.getAll(accessToken),
-        usersAPI.getAll(accessToken)
+        analyticsAPI.getStats(accessToken),
+        usersAPI.getAll(accessToken),
+        slaAPI.getPolicy(accessToken)
       ]);
 
       setProjects(projectsData.projects || []);
-      setDefects(defectsData.defects || []);
+      setProjectCounts(analyticsData.byProject || []);
       setUsers(usersData.users || []);
+      setSlaPolicy(slaData.policy);
       
     } catch (err: any) {
       console.error('Projects fetch error:', err);
@@ -57,33 +82,110 @@ export function ProjectsPage({ accessToken }: ProjectsPageProps) {
     }
   };
 
-  const handleCreateProject = async (e: React.FormEvent) => {
+  const openCreateDialog = () => {
+    setEditingProjectId(null);
+    setNewProject(EMPTY_PROJECT);
+    setIsCreateDialogOpen(true);
+  };
+
+  const openEditDialog = (project: any) => {
+    setEditingProjectId(project.id);
+    setNewProject({
+      name: project.name || "",
+      description: project.description || "",
+      startDate: project.startDate || "",
+      endDate: project.endDate || "",
+      slaPolicy: Object.fromEntries(
+        Object.entries(project.slaPolicy || {}).map(([priority, hours]) => [priority, String(hours)])
+      )
+    });
+    setIsCreateDialogOpen(true);
+  };
+
+  const handleSubmitProject = async (e: React.FormEvent) => {
     e.preventDefault();
     setCreateLoading(true);
 
     try {
-      await projectsAPI.create(accessToken, newProject);
-      setNewProject({ name: "", description: "", startDate: "", endDate: "" });
+      const project = { ...newProject, slaPolicy: toSlaOverride(newProject.slaPolicy) };
+      if (editingProjectId) {
+        await projectsAPI.update(accessToken, editingProjectId, project);
+      } else {
+        await projectsAPI.create(accessToken, project);
+      }
+      setNewProject(EMPTY_PROJECT);
       setIsCreateDialogOpen(false);
       await fetchData(); // Refresh data
     } catch (err: any) {
-      console.error('Create project error:', err);
-      setError(err.message || 'Ошибка создания проекта');
+      console.error('Save project error:', err);
+      toast.error(err.message || 'Ошибка сохранения проекта');
     } finally {
       setCreateLoading(false);
     }
   };
 
-  const getProjectStats = (projectId: string) => {
-    const projectDefects = defects.filter(d => d.projectId === projectId);
-    const totalDefects = projectDefects.length;
-    const completedDefects = projectDefects.filter(d => d.status === 'Закрыта').length;
-    const activeDefects = projectDefects.filter(d => d.status === 'В работе').length;
-    const overdueDefects = projectDefects.filter(d => 
-      d.dueDate && new Date(d.dueDate) < new Date() && d.status !== 'Закрыта'
-    ).length;
+  const runProjectAction = async (action: () => Promise<any>, errorMessage: string) => {
+    try {
+      await action();
+      await fetchData(); // Refresh data
+    } catch (err: any) {
+      console.error('Project action error:', err);
+      toast.error(err.message || errorMessage);
+    }
+  };
+
+  const handleDeleteProject = (project: any) => runProjectAction(async () => {
+    if (!window.confirm(`Удалить проект «${project.name}»?`)) return;
+    try {
+      await projectsAPI.delete(accessToken, project.id);
+    } catch (err) {
+      // The server refuses while defects exist; deleting them too needs a second confirmation
+      if (!(err instanceof ApiError && err.status === 409)) throw err;
+      if (!window.confirm(
+        `В проекте есть дефекты (${err.data.defectCount}). Удалить проект вместе со всеми дефектами? Это действие нельзя отменить.`
+      )) return;
+      await projectsAPI.delete(accessToken, project.id, true);
+    }
+  }, 'Ошибка удаления проекта');
+
+  const handleDownloadReport = async (project: any) => {
+    const toastId = toast.info('Формирование отчета...', { autoClose: false });
+    try {
+      const [analytics, defectsData] = await Promise.all([
+        analyticsAPI.getStats(accessToken, { projectId: project.id }),
+        defectsAPI.getAll(accessToken, { projectId: project.id, sort: 'createdAt', order: 'asc' })
+      ]);
+      await downloadDefectReport({
+        accessToken,
+        subject: project.name,
+        period: 'За все время',
+        defects: defectsData.defects || [],
+        analytics,
+        projects,
+        users
+      });
+    } catch (err: any) {
+      console.error('Project report error:', err);
+      toast.error(err.message || 'Ошибка формирования отчета');
+    } finally {
+      toast.dismiss(toastId);
+    }
+  };
 
-    return { totalDefects, completedDefects, activeDefects, overdueDefects };
+  const getProjectStatus = (project: any) => {
+    if (project.archivedAt) return { label: 'В архиве', variant: 'outline' as const };
+    if (project.status === 'completed') return { label: 'Завершен', variant: 'secondary' as const };
+    return { label: 'Активный', variant: 'default' as const };
+  };
+
+  const getProjectStats = (projectId: string) => {
+    const counts = projectCounts.find(entry => entry.projectId === projectId);
+    return {
+      totalDefects: counts?.total ?? 0,
+      completedDefects: counts?.completed ?? 0,
+      activeDefects: counts?.inProgress ?? 0,
+      overdueDefects: counts?.overdue ?? 0
+    };
   };
 
   const getUserName = (userId: string) => {
@@ -91,6 +193,8 @@ export function ProjectsPage({ accessToken }: ProjectsPageProps) {
     return user?.name || 'Неизвестно';
   };
 
+  const visibleProjects = showArchived ? projects : projects.filter(p => !p.archivedAt);
+
   if (loading) {
     return (
       <div className="p-6">
@@ -124,18 +228,30 @@ export function ProjectsPage({ accessToken }: ProjectsPageProps) {
           <p className="text-muted-foreground">Управление строительными проектами</p>
         </div>
         
-        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
+        <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="show-archived"
+              checked={showArchived}
+              onCheckedChange={(checked) => setShowArchived(checked === true)}
+            />
+            <Label htmlFor="show-archived">Показать архивные</Label>
+          </div>
+
+          {can(userRole, 'projects:create') && (
+            <Button onClick={openCreateDialog}>
               <Plus className="h-4 w-4 mr-2" />
               Создать проект
             </Button>
-          </DialogTrigger>
+          )}
+        </div>
+
+        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
           <DialogContent className="sm:max-w-[525px]">
             <DialogHeader>
-              <DialogTitle>Создать новый проект</DialogTitle>
+              <DialogTitle>{editingProjectId ? 'Редактировать проект' : 'Создать новый проект'}</DialogTitle>
             </DialogHeader>
-            <form onSubmit={handleCreateProject} className="space-y-4">
+            <form onSubmit={handleSubmitProject} className="space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="project-name">Название проекта</Label>
                 <Input
@@ -146,7 +262,7 @@ export function ProjectsPage({ accessToken }: ProjectsPageProps) {
                   required
                 />
               </div>
-              
+            
               <div className="space-y-2">
                 <Label htmlFor="project-description">Описание</Label>
                 <Textarea
@@ -157,7 +273,7 @@ export function ProjectsPage({ accessToken }: ProjectsPageProps) {
                   rows={3}
                 />
               </div>
-              
+            
               <div className="grid gap-4 grid-cols-2">
                 <div className="space-y-2">
                   <Label htmlFor="start-date">Дата начала</Label>
@@ -168,7 +284,7 @@ export function ProjectsPage({ accessToken }: ProjectsPageProps) {
                     onChange={(e) => setNewProject(prev => ({ ...prev, startDate: e.target.value }))}
                   />
                 </div>
-                
+              
                 <div className="space-y-2">
                   <Label htmlFor="end-date">Дата окончания</Label>
                   <Input
@@ -179,7 +295,32 @@ export function ProjectsPage({ accessToken }: ProjectsPageProps) {
                   />
                 </div>
               </div>
-              
+
+              <div className="space-y-2">
+                <Label>Сроки по SLA, часов</Label>
+                <p className="text-sm text-muted-foreground">
+                  Пустое поле — срок по общей политике. Действует для новых дефектов.
+                </p>
+                <div className="grid gap-4 grid-cols-2">
+                  {Object.keys(DEFAULT_SLA_POLICY).map(priority => (
+                    <div key={priority} className="space-y-1">
+                      <Label htmlFor={`sla-${priority}`} className="font-normal">{priority}</Label>
+                      <Input
+                        id={`sla-${priority}`}
+                        type="number"
+                        min={1}
+                        value={newProject.slaPolicy[priority] ?? ""}
+                        placeholder={String(slaPolicy[priority])}
+                        onChange={(e) => setNewProject(prev => ({
+                          ...prev,
+                          slaPolicy: { ...prev.slaPolicy, [priority]: e.target.value }
+                        }))}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            
               <div className="flex justify-end space-x-2">
                 <Button 
                   type="button" 
@@ -189,7 +330,7 @@ export function ProjectsPage({ accessToken }: ProjectsPageProps) {
                   Отмена
                 </Button>
                 <Button type="submit" disabled={createLoading}>
-                  {createLoading ? "Создание..." : "Создать"}
+                  {createLoading ? "Сохранение..." : editingProjectId ? "Сохранить" : "Создать"}
                 </Button>
               </div>
             </form>
@@ -198,7 +339,7 @@ export function ProjectsPage({ accessToken }: ProjectsPageProps) {
       </div>
 
       {/* Projects Grid */}
-      {projects.length === 0 ? (
+      {visibleProjects.length === 0 ? (
         <Card>
           <CardContent className="p-6 text-center">
             <p className="text-muted-foreground">Проекты не найдены</p>
@@ -206,8 +347,9 @@ export function ProjectsPage({ accessToken }: ProjectsPageProps) {
         </Card>
       ) : (
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-          {projects.map((project) => {
+          {visibleProjects.map((project) => {
             const stats = getProjectStats(project.id);
+            const status = getProjectStatus(project);
             const completionRate = stats.totalDefects > 0 
               ? Math.round((stats.completedDefects / stats.totalDefects) * 100) 
               : 0;
@@ -222,9 +364,69 @@ export function ProjectsPage({ accessToken }: ProjectsPageProps) {
                         Создан: {getUserName(project.createdBy)}
                       </p>
                     </div>
-                    <Badge variant={project.status === 'active' ? 'default' : 'secondary'}>
-                      {project.status === 'active' ? 'Активный' : 'Завершен'}
-                    </Badge>
+                    <div className="flex items-center space-x-1">
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm">
+                            <MoreVertical className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => setMembersProject(project)}>
+                            Участники
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleDownloadReport(project)}>
+                            PDF-отчет
+                          </DropdownMenuItem>
+                          {can(project.myRole, 'projects:update') && (
+                            <>
+                              <DropdownMenuItem onClick={() => openEditDialog(project)}>
+                                Редактировать
+                              </DropdownMenuItem>
+                              {project.status === 'completed' ? (
+                                <DropdownMenuItem onClick={() => runProjectAction(
+                                  () => projectsAPI.update(accessToken, project.id, { status: 'active' }),
+                                  'Ошибка обновления проекта'
+                                )}>
+                                  Возобновить
+                                </DropdownMenuItem>
+                              ) : (
+                                <DropdownMenuItem onClick={() => runProjectAction(
+                                  () => projectsAPI.update(accessToken, project.id, { status: 'completed' }),
+                                  'Ошибка обновления проекта'
+                                )}>
+                                  Завершить
+                                </DropdownMenuItem>
+                              )}
+                              {project.archivedAt ? (
+                                <DropdownMenuItem onClick={() => runProjectAction(
+                                  () => projectsAPI.restore(accessToken, project.id),
+                                  'Ошибка восстановления проекта'
+                                )}>
+                                  Восстановить из архива
+                                </DropdownMenuItem>
+                              ) : (
+                                <DropdownMenuItem onClick={() => runProjectAction(
+                                  () => projectsAPI.archive(accessToken, project.id),
+                                  'Ошибка архивации проекта'
+                                )}>
+                                  В архив
+                                </DropdownMenuItem>
+                              )}
+                            </>
+                          )}
+                          {can(userRole, 'projects:delete') && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem variant="destructive" onClick={() => handleDeleteProject(project)}>
+                                Удалить
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>
                   </div>
                 </CardHeader>
                 
@@ -297,6 +499,16 @@ export function ProjectsPage({ accessToken }: ProjectsPageProps) {
           })}
         </div>
       )}
+
+      {membersProject && (
+        <ProjectMembersDialog
+          accessToken={accessToken}
+          project={membersProject}
+          users={users}
+          canManage={can(membersProject.myRole, 'projects:manageMembers')}
+          onClose={() => setMembersProject(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
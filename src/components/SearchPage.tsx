@@ -0,0 +1,180 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent } from "./ui/card";
+import { Input } from "./ui/input";
+import { Badge } from "./ui/badge";
+import { Alert, AlertDescription } from "./ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Search } from "lucide-react";
+import { projectsAPI, searchAPI } from "../utils/api";
+
+const SNIPPET_LABELS: Record<string, string> = {
+  description: 'Описание',
+  comment: 'Комментарий',
+  project: 'Проект',
+};
+
+// Renders text with the matched words marked
+function Highlighted({ text, highlights }: { text: string; highlights: [number, number][] }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  highlights.forEach(([start, end], index) => {
+    parts.push(text.slice(position, start));
+    parts.push(<mark key={index} className="bg-yellow-200 rounded-sm px-0.5">{text.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+}
+
+interface SearchPageProps {
+  accessToken: string;
+  // Kept by the app so the results are still there after opening a defect
+  query: string;
+  onQueryChange: (query: string) => void;
+  onViewDefect: (defectId: string) => void;
+}
+
+export function SearchPage({ accessToken, query, onQueryChange, onViewDefect }: SearchPageProps) {
+  const [projects, setProjects] = useState<any[]>([]);
+  const [projectFilter, setProjectFilter] = useState("all");
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+  const [results, setResults] = useState<any[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    projectsAPI.getAll(accessToken)
+      .then(data => setProjects(data.projects || []))
+      .catch(err => console.error('Projects fetch error:', err));
+  }, [accessToken]);
+
+  // Wait for the user to stop typing before querying the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  useEffect(() => {
+    if (!debouncedQuery) {
+      setResults([]);
+      setTotal(0);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchResults = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await searchAPI.search(accessToken, debouncedQuery, {
+          projectId: projectFilter === "all" ? undefined : projectFilter
+        });
+        if (cancelled) return;
+        setResults(data.results || []);
+        setTotal(data.total ?? 0);
+      } catch (err: any) {
+        if (cancelled) return;
+        console.error('Search error:', err);
+        setError(err.message || 'Ошибка поиска');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchResults();
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken, debouncedQuery, projectFilter]);
+
+  const getProjectName = (projectId: string) => {
+    const project = projects.find(p => p.id === projectId);
+    return project?.name || 'Неизвестно';
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Поиск</h1>
+        <p className="text-muted-foreground">По названиям, описаниям и комментариям дефектов и названиям проектов</p>
+      </div>
+
+      <div className="flex space-x-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            autoFocus
+            placeholder="Например: трещины в стене"
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Select value={projectFilter} onValueChange={setProjectFilter}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Все проекты</SelectItem>
+            {projects.map(project => (
+              <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {debouncedQuery && !loading && !error && (
+        <p className="text-sm text-muted-foreground">
+          {total === 0 ? 'Ничего не найдено' : `Найдено: ${total}${total > results.length ? `, показаны первые ${results.length}` : ''}`}
+        </p>
+      )}
+
+      <div className="space-y-4">
+        {loading && results.length === 0 ? (
+          [...Array(3)].map((_, i) => (
+            <div key={i} className="h-24 bg-gray-200 rounded animate-pulse" />
+          ))
+        ) : (
+          results.map(({ defect, snippets }) => {
+            const titleSnippet = snippets.find((snippet: any) => snippet.field === 'title');
+            return (
+              <Card
+                key={defect.id}
+                className="cursor-pointer hover:shadow-md transition-shadow"
+                onClick={() => onViewDefect(defect.id)}
+              >
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-start justify-between">
+                    <h3 className="font-medium">
+                      {titleSnippet ? <Highlighted text={titleSnippet.text} highlights={titleSnippet.highlights} /> : defect.title}
+                    </h3>
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="outline">{defect.priority}</Badge>
+                      <Badge variant="outline">{defect.status}</Badge>
+                    </div>
+                  </div>
+
+                  {snippets.filter((snippet: any) => snippet.field !== 'title').map((snippet: any, index: number) => (
+                    <p key={index} className="text-sm">
+                      <span className="text-muted-foreground">{SNIPPET_LABELS[snippet.field]}: </span>
+                      <Highlighted text={snippet.text} highlights={snippet.highlights} />
+                    </p>
+                  ))}
+
+                  <p className="text-sm text-muted-foreground">Проект: {getProjectName(defect.projectId)}</p>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
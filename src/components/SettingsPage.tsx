@@ -0,0 +1,101 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { toast } from "react-toastify";
+import { settingsAPI } from "../utils/api";
+
+interface SettingsPageProps {
+  accessToken: string;
+}
+
+interface NotificationSettings {
+  emailOnAssign: boolean;
+  dailyDigest: boolean;
+}
+
+const EMAIL_OPTIONS: { key: keyof NotificationSettings; title: string; description: string }[] = [
+  {
+    key: 'emailOnAssign',
+    title: 'Письмо при назначении',
+    description: 'Сразу сообщать по email, когда вам назначают дефект',
+  },
+  {
+    key: 'dailyDigest',
+    title: 'Утренняя сводка',
+    description: 'Каждое утро присылать список ваших открытых и просроченных дефектов',
+  },
+];
+
+export function SettingsPage({ accessToken }: SettingsPageProps) {
+  const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const data = await settingsAPI.getNotifications(accessToken);
+        setSettings(data.settings);
+      } catch (err: any) {
+        console.error('Settings fetch error:', err);
+        toast.error(err.message || 'Ошибка загрузки настроек');
+      }
+    };
+
+    fetchSettings();
+  }, [accessToken]);
+
+  const handleToggle = async (key: keyof NotificationSettings, value: boolean) => {
+    try {
+      setSaving(true);
+      const data = await settingsAPI.updateNotifications(accessToken, { [key]: value });
+      setSettings(data.settings);
+      toast.success('Настройки сохранены');
+    } catch (err: any) {
+      console.error('Settings update error:', err);
+      toast.error(err.message || 'Ошибка сохранения настроек');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return (
+      <div className="p-6">
+        <h1>Загрузка...</h1>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1>Настройки</h1>
+        <p className="text-muted-foreground">Уведомления по электронной почте</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Email-уведомления</CardTitle>
+          <CardDescription>Письма приходят на адрес, указанный при регистрации</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {EMAIL_OPTIONS.map(option => (
+            <div key={option.key} className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor={option.key}>{option.title}</Label>
+                <p className="text-sm text-muted-foreground">{option.description}</p>
+              </div>
+              <Switch
+                id={option.key}
+                checked={settings[option.key]}
+                onCheckedChange={(checked) => handleToggle(option.key, checked)}
+                disabled={saving}
+              />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { Badge } from "./ui/badge";
+import { SLA_STATE_LABELS, getSlaState } from "../supabase/functions/server/sla";
+
+// Due dates filled in from an SLA carry a time of day, hand-picked ones are calendar days
+export const formatDueDate = (defect: any) => {
+  return defect.dueDateAuto
+    ? new Date(defect.dueDate).toLocaleString('ru', { dateStyle: 'short', timeStyle: 'short' })
+    : new Date(defect.dueDate).toLocaleDateString('ru');
+};
+
+const STATE_STYLES: Record<string, string> = {
+  at_risk: 'border-amber-500 text-amber-700',
+  breached: 'border-red-600 text-red-600',
+  missed: 'border-red-600 text-red-600',
+};
+
+interface SlaBadgeProps {
+  defect: any;
+}
+
+// Flags defects that are about to miss, or have missed, their due date
+export function SlaBadge({ defect }: SlaBadgeProps) {
+  const state = getSlaState(defect);
+  if (!STATE_STYLES[state]) {
+    return null;
+  }
+  return (
+    <Badge variant="outline" className={STATE_STYLES[state]}>
+      {SLA_STATE_LABELS[state]}
+    </Badge>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { toast } from "react-toastify";
+import { ApiError, slaAPI } from "../utils/api";
+import { DEFAULT_SLA_POLICY } from "../supabase/functions/server/sla";
+
+interface SlaPolicyCardProps {
+  accessToken: string;
+}
+
+export function SlaPolicyCard({ accessToken }: SlaPolicyCardProps) {
+  // Hours as input text, per priority
+  const [hours, setHours] = useState<Record<string, string>>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchPolicy = async () => {
+      try {
+        const data = await slaAPI.getPolicy(accessToken);
+        setHours(Object.fromEntries(Object.entries(data.policy).map(([priority, value]) => [priority, String(value)])));
+      } catch (err: any) {
+        console.error('SLA policy fetch error:', err);
+        toast.error(err.message || 'Ошибка загрузки политики SLA');
+      }
+    };
+
+    fetchPolicy();
+  }, [accessToken]);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setFieldErrors({});
+      const policy = Object.fromEntries(Object.keys(DEFAULT_SLA_POLICY).map(priority => [priority, Number(hours[priority])]));
+      await slaAPI.updatePolicy(accessToken, policy);
+      toast.success('Политика SLA сохранена');
+    } catch (err: any) {
+      console.error('SLA policy update error:', err);
+      if (err instanceof ApiError && err.data?.fields) {
+        setFieldErrors(err.data.fields);
+      }
+      toast.error(err.message || 'Ошибка сохранения политики SLA');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Политика SLA</CardTitle>
+        <CardDescription>
+          Время на устранение дефекта по приоритету, в часах. Если срок не указан при создании дефекта, он
+          рассчитывается по этой политике или по настройкам проекта. Менеджеры проекта получают уведомление о нарушении.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+          {Object.keys(DEFAULT_SLA_POLICY).map(priority => (
+            <div key={priority} className="space-y-1">
+              <Label htmlFor={`default-sla-${priority}`}>{priority}</Label>
+              <Input
+                id={`default-sla-${priority}`}
+                type="number"
+                min={1}
+                value={hours[priority] ?? ""}
+                onChange={(e) => setHours(prev => ({ ...prev, [priority]: e.target.value }))}
+              />
+              {fieldErrors[priority] && <p className="text-sm text-red-600">{fieldErrors[priority]}</p>}
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Сохранение..." : "Сохранить"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
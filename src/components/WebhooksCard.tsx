@@ -0,0 +1,239 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Badge } from "./ui/badge";
+import { Checkbox } from "./ui/checkbox";
+import { Switch } from "./ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table";
+import { Trash2 } from "lucide-react";
+import { toast } from "react-toastify";
+import { webhooksAPI } from "../utils/api";
+
+const EVENT_LABELS: Record<string, string> = {
+  'defect.created': 'Создан дефект',
+  'defect.updated': 'Изменен дефект',
+  'comment.added': 'Добавлен комментарий',
+  'project.created': 'Создан проект',
+};
+
+const DELIVERY_STATUS: Record<string, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  success: { label: 'Доставлено', variant: 'default' },
+  pending: { label: 'Повтор', variant: 'secondary' },
+  failed: { label: 'Ошибка', variant: 'destructive' },
+};
+
+interface WebhooksCardProps {
+  accessToken: string;
+}
+
+export function WebhooksCard({ accessToken }: WebhooksCardProps) {
+  const [webhooks, setWebhooks] = useState<any[]>([]);
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<string[]>(Object.keys(EVENT_LABELS));
+  const [saving, setSaving] = useState(false);
+  const [logWebhook, setLogWebhook] = useState<any | null>(null);
+  const [deliveries, setDeliveries] = useState<any[]>([]);
+
+  const fetchWebhooks = async () => {
+    try {
+      const data = await webhooksAPI.getAll(accessToken);
+      setWebhooks(data.webhooks || []);
+    } catch (err: any) {
+      console.error('Webhooks fetch error:', err);
+      toast.error(err.message || 'Ошибка загрузки вебхуков');
+    }
+  };
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [accessToken]);
+
+  const runAction = async (action: () => Promise<any>, errorMessage: string) => {
+    try {
+      setSaving(true);
+      await action();
+      await fetchWebhooks();
+    } catch (err: any) {
+      console.error('Webhook action error:', err);
+      toast.error(err.message || errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = () => runAction(async () => {
+    await webhooksAPI.create(accessToken, { url, events });
+    setUrl("");
+    toast.success('Вебхук добавлен');
+  }, 'Ошибка добавления вебхука');
+
+  const handleDelete = (webhook: any) => {
+    if (!window.confirm(`Удалить вебхук ${webhook.url}?`)) return;
+    runAction(() => webhooksAPI.delete(accessToken, webhook.id), 'Ошибка удаления вебхука');
+  };
+
+  const toggleEvent = (event: string, checked: boolean) => {
+    setEvents(prev => checked ? [...prev, event] : prev.filter(e => e !== event));
+  };
+
+  const openLog = async (webhook: any) => {
+    setLogWebhook(webhook);
+    setDeliveries([]);
+    try {
+      const data = await webhooksAPI.getDeliveries(accessToken, webhook.id);
+      setDeliveries(data.deliveries || []);
+    } catch (err: any) {
+      console.error('Webhook deliveries fetch error:', err);
+      toast.error(err.message || 'Ошибка загрузки журнала');
+    }
+  };
+
+  const copySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      toast.success('Секрет скопирован');
+    } catch {
+      toast.error('Не удалось скопировать секрет');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Вебхуки</CardTitle>
+        <CardDescription>
+          События отправляются POST-запросом с JSON. Подпись в заголовке X-Webhook-Signature — HMAC-SHA256 тела
+          запроса с секретом вебхука. Неудачные доставки повторяются с нарастающей задержкой.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {webhooks.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>URL</TableHead>
+                <TableHead>События</TableHead>
+                <TableHead>Активен</TableHead>
+                <TableHead>Действия</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {webhooks.map(webhook => (
+                <TableRow key={webhook.id}>
+                  <TableCell className="font-medium break-all">{webhook.url}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {webhook.events.map((event: string) => (
+                        <Badge key={event} variant="outline">{EVENT_LABELS[event] || event}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={webhook.active}
+                      disabled={saving}
+                      onCheckedChange={(active) => runAction(
+                        () => webhooksAPI.update(accessToken, webhook.id, { active }),
+                        'Ошибка изменения вебхука'
+                      )}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button variant="outline" size="sm" onClick={() => openLog(webhook)}>
+                        Журнал
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => copySecret(webhook.secret)}>
+                        Секрет
+                      </Button>
+                      <Button variant="ghost" size="sm" disabled={saving} onClick={() => handleDelete(webhook)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-2 border-t pt-4">
+          <Label htmlFor="webhook-url">Новый вебхук</Label>
+          <div className="flex gap-2">
+            <Input
+              id="webhook-url"
+              placeholder="https://example.com/hooks/defects"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+            <Button onClick={handleCreate} disabled={!url.trim() || events.length === 0 || saving}>
+              Добавить
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {Object.entries(EVENT_LABELS).map(([event, label]) => (
+              <div key={event} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`webhook-event-${event}`}
+                  checked={events.includes(event)}
+                  onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                />
+                <Label htmlFor={`webhook-event-${event}`} className="font-normal">{label}</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+
+      {logWebhook && (
+        <Dialog open onOpenChange={(open) => !open && setLogWebhook(null)}>
+          <DialogContent className="sm:max-w-3xl">
+            <DialogHeader>
+              <DialogTitle className="break-all">Журнал доставки: {logWebhook.url}</DialogTitle>
+            </DialogHeader>
+            {deliveries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Доставок пока не было</p>
+            ) : (
+              <div className="max-h-[60vh] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Время</TableHead>
+                      <TableHead>Событие</TableHead>
+                      <TableHead>Статус</TableHead>
+                      <TableHead>Попытки</TableHead>
+                      <TableHead>Ответ</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {deliveries.map(delivery => (
+                      <TableRow key={delivery.id}>
+                        <TableCell>{new Date(delivery.createdAt).toLocaleString('ru')}</TableCell>
+                        <TableCell>{EVENT_LABELS[delivery.event] || delivery.event}</TableCell>
+                        <TableCell>
+                          <Badge variant={DELIVERY_STATUS[delivery.status]?.variant || 'secondary'}>
+                            {DELIVERY_STATUS[delivery.status]?.label || delivery.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{delivery.attempts}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {delivery.error || delivery.responseStatus}
+                          {delivery.nextAttemptAt && (
+                            <div>Следующая попытка: {new Date(delivery.nextAttemptAt).toLocaleString('ru')}</div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      )}
+    </Card>
+  );
+}
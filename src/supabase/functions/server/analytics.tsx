@@ -0,0 +1,65 @@
+// Defect statistics shared by the /analytics endpoint and the email digest.
+import * as kv from "./kv.tsx";
+import { getDefectsInProjects } from "./defect_index.tsx";
+import { isOverdue } from "./defect_query.tsx";
+import { getSlaState, type SlaState } from "./sla.tsx";
+
+// Loads the defects in the given projects, or all defects when `accessible` is null
+export const loadAnalyticsDefects = async (accessible: Map<string, unknown> | null): Promise<any[]> => {
+  return accessible ? getDefectsInProjects(accessible.keys()) : kv.getByPrefix('defect:');
+};
+
+export const summarizeDefects = (defects: any[], now = new Date()) => {
+  const statusCount: Record<string, number> = {};
+  const priorityCount: Record<string, number> = {};
+  // Defects created per calendar day
+  const createdPerDay: Record<string, number> = {};
+  const projectCount: Record<string, { total: number; completed: number; inProgress: number; overdue: number }> = {};
+  const slaCount: Record<SlaState, number> = { none: 0, on_track: 0, at_risk: 0, breached: 0, met: 0, missed: 0 };
+  let overdue = 0;
+
+  for (const defect of defects) {
+    statusCount[defect.status] = (statusCount[defect.status] || 0) + 1;
+    priorityCount[defect.priority] = (priorityCount[defect.priority] || 0) + 1;
+
+    const day = String(defect.createdAt).slice(0, 10);
+    createdPerDay[day] = (createdPerDay[day] || 0) + 1;
+
+    const project = projectCount[defect.projectId] ??= { total: 0, completed: 0, inProgress: 0, overdue: 0 };
+    project.total++;
+    if (defect.status === 'Закрыта') {
+      project.completed++;
+    }
+    if (defect.status === 'В работе') {
+      project.inProgress++;
+    }
+
+    if (isOverdue(defect, now)) {
+      overdue++;
+      project.overdue++;
+    }
+    slaCount[getSlaState(defect, now)]++;
+  }
+
+  // Share of defects that kept their deadline, out of those closed or already past it
+  const judged = slaCount.met + slaCount.missed + slaCount.breached;
+
+  return {
+    totalDefects: defects.length,
+    overdue,
+    statusCount,
+    priorityCount,
+    timeline: Object.entries(createdPerDay)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, count]) => ({ date, count })),
+    byProject: Object.entries(projectCount).map(([projectId, counts]) => ({ projectId, ...counts })),
+    sla: {
+      onTrack: slaCount.on_track,
+      atRisk: slaCount.at_risk,
+      breached: slaCount.breached,
+      met: slaCount.met,
+      missed: slaCount.missed,
+      complianceRate: judged > 0 ? Math.round(slaCount.met / judged * 100) : null
+    }
+  };
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { attachmentHeaders, matchesDeclaredType, normalizeMimeType } from './attachment_types.tsx';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+const PNG = bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00);
+const WEBP = new Uint8Array([...new TextEncoder().encode('RIFF'), 1, 2, 3, 4, ...new TextEncoder().encode('WEBPVP8 ')]);
+const HTML = new TextEncoder().encode('<html><script>alert(1)</script></html>');
+
+describe('normalizeMimeType', () => {
+  it('drops parameters and case and names unknown files', () => {
+    expect(normalizeMimeType('Text/Plain; charset=utf-8')).toBe('text/plain');
+    expect(normalizeMimeType('')).toBe('application/octet-stream');
+    expect(normalizeMimeType(undefined)).toBe('application/octet-stream');
+  });
+});
+
+describe('matchesDeclaredType', () => {
+  it('accepts inline types only with their signature', () => {
+    expect(matchesDeclaredType('image/png', PNG)).toBe(true);
+    expect(matchesDeclaredType('image/webp', WEBP)).toBe(true);
+    expect(matchesDeclaredType('image/png', HTML)).toBe(false);
+    expect(matchesDeclaredType('application/pdf', bytes(0x25, 0x50))).toBe(false);
+  });
+
+  it('does not check types that are always downloaded', () => {
+    expect(matchesDeclaredType('text/html', HTML)).toBe(true);
+    expect(matchesDeclaredType('application/zip', bytes())).toBe(true);
+  });
+});
+
+describe('attachmentHeaders', () => {
+  it('shows images and PDFs inline', () => {
+    expect(attachmentHeaders('фото 1.png', 'image/png')).toEqual({
+      'Content-Type': 'image/png',
+      'Content-Disposition': "inline; filename*=UTF-8''%D1%84%D0%BE%D1%82%D0%BE%201.png",
+      'X-Content-Type-Options': 'nosniff',
+    });
+    expect(attachmentHeaders('акт.pdf', 'application/pdf')['Content-Disposition']).toMatch(/^inline;/);
+  });
+
+  it('sends everything else as a download', () => {
+    for (const type of ['text/html', 'image/svg+xml', 'application/xhtml+xml', 'application/octet-stream']) {
+      const headers = attachmentHeaders('file', type);
+      expect(headers['Content-Disposition']).toMatch(/^attachment;/);
+      expect(headers['X-Content-Type-Options']).toBe('nosniff');
+    }
+  });
+});
@@ -0,0 +1,32 @@
+// Content types of defect attachments.
+//
+// Browsers only show the types below inline, and only once the upload starts with the
+// signature of its declared type. Every other file is sent as a download with `nosniff`,
+// so an uploaded HTML or SVG file never runs as a page of the app.
+
+// Leading bytes of each inline type; null matches any byte
+const SIGNATURES: Record<string, (number | null)[]> = {
+  'image/jpeg': [0xff, 0xd8, 0xff],
+  'image/png': [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  'image/gif': [0x47, 0x49, 0x46, 0x38],
+  'image/webp': [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50],
+  'application/pdf': [0x25, 0x50, 0x44, 0x46, 0x2d],
+};
+
+// Drops parameters such as `charset` and fills in a type for files the browser could not name
+export const normalizeMimeType = (type: string | null | undefined): string =>
+  type?.split(';')[0].trim().toLowerCase() || 'application/octet-stream';
+
+export const isInlineType = (mimeType: string): boolean => mimeType in SIGNATURES;
+
+// Files of an inline type must start with its signature; other types are not checked
+export const matchesDeclaredType = (mimeType: string, bytes: Uint8Array): boolean => {
+  const signature = SIGNATURES[mimeType];
+  return !signature || (bytes.length >= signature.length && signature.every((byte, i) => byte === null || bytes[i] === byte));
+};
+
+export const attachmentHeaders = (name: string, mimeType: string): Record<string, string> => ({
+  'Content-Type': mimeType,
+  'Content-Disposition': `${isInlineType(mimeType) ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(name)}`,
+  'X-Content-Type-Options': 'nosniff',
+});
@@ -0,0 +1,238 @@
+// Authentication providers for the server.
+//
+// AUTH_PROVIDER selects the implementation:
+//   supabase (default) - Supabase Auth. Access tokens are verified locally with
+//                        SUPABASE_JWT_SECRET when set, otherwise against the
+//                        project's JWKS.
+//   local              - users kept in the KV store, passwords hashed with
+//                        PBKDF2 and sessions issued as HS256 JWTs signed with
+//                        LOCAL_AUTH_JWT_SECRET. Meant for self-hosted and test runs.
+import { SignJWT, createRemoteJWKSet, decodeProtectedHeader, jwtVerify, type JWTPayload } from "npm:jose";
+import * as kv from "./kv.tsx";
+import { getSupabase } from "./supabase.tsx";
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  user_metadata: Record<string, any>;
+}
+
+export interface AuthSession {
+  access_token: string;
+  user: AuthUser;
+}
+
+export interface AuthProvider {
+  createUser(email: string, password: string, metadata: Record<string, any>): Promise<AuthUser>;
+  verifyToken(accessToken: string): Promise<AuthUser | null>;
+  updateUserMetadata(userId: string, metadata: Record<string, any>): Promise<void>;
+  // Only providers that own the password store can sign users in through the API
+  signIn?(email: string, password: string): Promise<AuthSession>;
+}
+
+// Raised for problems the client caused, such as a taken email or a wrong password
+export class AuthError extends Error {}
+
+let supabaseJwks: ReturnType<typeof createRemoteJWKSet> | null = null;
+
+// Verifies a Supabase access token without calling the Auth API. Returns null
+// when the token is invalid and undefined when it cannot be checked locally.
+const verifySupabaseJwt = async (accessToken: string): Promise<JWTPayload | null | undefined> => {
+  const options = { audience: 'authenticated' };
+  const secret = Deno.env.get('SUPABASE_JWT_SECRET');
+
+  try {
+    if (secret) {
+      const { payload } = await jwtVerify(accessToken, new TextEncoder().encode(secret), { ...options, algorithms: ['HS256'] });
+      return payload;
+    }
+
+    // Symmetric tokens cannot be checked against the public key set
+    if (decodeProtectedHeader(accessToken).alg === 'HS256') {
+      return undefined;
+    }
+
+    supabaseJwks ??= createRemoteJWKSet(new URL(`${Deno.env.get('SUPABASE_URL')}/auth/v1/.well-known/jwks.json`));
+    const { payload } = await jwtVerify(accessToken, supabaseJwks, options);
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+const supabaseProvider: AuthProvider = {
+  async createUser(email, password, metadata) {
+    const { data, error } = await (await getSupabase()).auth.admin.createUser({
+      email,
+      password,
+      user_metadata: metadata,
+      // Automatically confirm the user's email since an email server hasn't been configured.
+      email_confirm: true
+    });
+    if (error) {
+      throw new AuthError(error.message);
+    }
+    return { id: data.user.id, email: data.user.email ?? email, user_metadata: data.user.user_metadata ?? {} };
+  },
+
+  async verifyToken(accessToken) {
+    const payload = await verifySupabaseJwt(accessToken);
+    if (payload === null) {
+      return null;
+    }
+    if (payload) {
+      // Tokens without a subject, such as the anon key, do not identify a user
+      if (!payload.sub) {
+        return null;
+      }
+      return {
+        id: payload.sub,
+        email: typeof payload.email === 'string' ? payload.email : '',
+        user_metadata: (payload.user_metadata as Record<string, any>) ?? {},
+      };
+    }
+
+    const { data: { user }, error } = await (await getSupabase()).auth.getUser(accessToken);
+    if (error || !user) {
+      return null;
+    }
+    return { id: user.id, email: user.email ?? '', user_metadata: user.user_metadata ?? {} };
+  },
+
+  async updateUserMetadata(userId, metadata) {
+    const { error } = await (await getSupabase()).auth.admin.updateUserById(userId, { user_metadata: metadata });
+    if (error) {
+      throw new Error(error.message);
+    }
+  },
+};
+
+// Local provider
+
+const PBKDF2_ITERATIONS = 310000;
+const SESSION_TTL = '12h';
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (ch) => ch.charCodeAt(0));
+
+const derivePasswordHash = async (password: string, salt: BufferSource, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+};
+
+// Stored as pbkdf2$<iterations>$<salt>$<hash>
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derivePasswordHash(password, salt, PBKDF2_ITERATIONS);
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, iterations, salt, expected] = stored.split('$');
+  if (scheme !== 'pbkdf2') {
+    return false;
+  }
+  const actual = await derivePasswordHash(password, fromBase64(salt), Number(iterations));
+  const expectedBytes = fromBase64(expected);
+  // Compare every byte so timing does not reveal the matching prefix
+  let diff = actual.length ^ expectedBytes.length;
+  for (let i = 0; i < actual.length; i++) {
+    diff |= actual[i] ^ (expectedBytes[i] ?? 0);
+  }
+  return diff === 0;
+};
+
+const jwtSecret = () => {
+  const secret = Deno.env.get('LOCAL_AUTH_JWT_SECRET');
+  if (!secret) {
+    throw new Error('LOCAL_AUTH_JWT_SECRET must be set when AUTH_PROVIDER=local');
+  }
+  return new TextEncoder().encode(secret);
+};
+
+const authUserKey = (userId: string) => `auth:user:${userId}`;
+const authEmailKey = (email: string) => `auth:email:${email.trim().toLowerCase()}`;
+
+const toAuthUser = (record: any): AuthUser => ({
+  id: record.id,
+  email: record.email,
+  user_metadata: record.user_metadata ?? {},
+});
+
+const localProvider: AuthProvider = {
+  async createUser(email, password, metadata) {
+    if (!email || !password) {
+      throw new AuthError('Email and password are required');
+    }
+    if (await kv.get(authEmailKey(email))) {
+      throw new AuthError('A user with this email address has already been registered');
+    }
+
+    const record = {
+      id: crypto.randomUUID(),
+      email: email.trim(),
+      passwordHash: await hashPassword(password),
+      user_metadata: metadata,
+      createdAt: new Date().toISOString()
+    };
+    await kv.mset([authUserKey(record.id), authEmailKey(email)], [record, { id: record.id }]);
+    return toAuthUser(record);
+  },
+
+  async verifyToken(accessToken) {
+    try {
+      const { payload } = await jwtVerify(accessToken, jwtSecret(), { algorithms: ['HS256'] });
+      const record = payload.sub ? await kv.get(authUserKey(payload.sub)) : null;
+      return record ? toAuthUser(record) : null;
+    } catch {
+      return null;
+    }
+  },
+
+  async updateUserMetadata(userId, metadata) {
+    const record = await kv.get(authUserKey(userId));
+    if (!record) {
+      throw new Error('User not found');
+    }
+    await kv.set(authUserKey(userId), { ...record, user_metadata: metadata });
+  },
+
+  async signIn(email, password) {
+    const entry = await kv.get(authEmailKey(email ?? ''));
+    const record = entry ? await kv.get(authUserKey(entry.id)) : null;
+    if (!record || !await verifyPassword(password ?? '', record.passwordHash)) {
+      throw new AuthError('Invalid login credentials');
+    }
+
+    const user = toAuthUser(record);
+    const accessToken = await new SignJWT({ email: user.email, user_metadata: user.user_metadata })
+      .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+      .setSubject(user.id)
+      .setIssuedAt()
+      .setExpirationTime(SESSION_TTL)
+      .sign(jwtSecret());
+    return { access_token: accessToken, user };
+  },
+};
+
+let provider: AuthProvider | null = null;
+
+export const getAuthProvider = (): AuthProvider => {
+  if (!provider) {
+    const name = Deno.env.get('AUTH_PROVIDER') || 'supabase';
+    if (name === 'supabase') {
+      provider = supabaseProvider;
+    } else if (name === 'local') {
+      provider = localProvider;
+    } else {
+      throw new Error(`Unknown AUTH_PROVIDER: ${name}`);
+    }
+  }
+  return provider;
+};
+
+// Replaces the configured provider, e.g. in tests.
+export const useAuthProvider = (replacement: AuthProvider): void => {
+  provider = replacement;
+};
@@ -0,0 +1,11 @@
+// Work that runs after the response has been sent.
+//
+// Supabase Edge Functions keep the worker alive for promises passed to
+// EdgeRuntime.waitUntil; other runtimes simply let the promise run on.
+// Errors are logged, since there is no request left to fail.
+export const runInBackground = (label: string, task: () => Promise<unknown>): void => {
+  const promise = task().catch((error) => {
+    console.log(`${label} error:`, error);
+  });
+  (globalThis as any).EdgeRuntime?.waitUntil?.(promise);
+};
@@ -0,0 +1,50 @@
+// Field-level change tracking for defect history entries.
+// Kept free of runtime imports so the frontend can share the field labels.
+
+export interface HistoryChange {
+  field: TrackedField;
+  from: unknown;
+  to: unknown;
+}
+
+export const TRACKED_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'assignee',
+  'projectId',
+  'dueDate',
+  'resolution',
+  'reopenReason',
+] as const;
+
+export type TrackedField = typeof TRACKED_FIELDS[number];
+
+export const HISTORY_FIELD_LABELS: Record<TrackedField, string> = {
+  title: 'Название',
+  description: 'Описание',
+  status: 'Статус',
+  priority: 'Приоритет',
+  assignee: 'Исполнитель',
+  projectId: 'Проект',
+  dueDate: 'Срок выполнения',
+  resolution: 'Комментарий к решению',
+  reopenReason: 'Причина повторного открытия',
+};
+
+// Missing, null and empty values all mean "not set"
+const normalize = (value: unknown) => (value === undefined || value === '' ? null : value);
+
+// Lists the tracked fields whose values differ between two versions of a defect
+export const diffDefect = (before: Record<string, any>, after: Record<string, any>): HistoryChange[] => {
+  const changes: HistoryChange[] = [];
+  for (const field of TRACKED_FIELDS) {
+    const from = normalize(before[field]);
+    const to = normalize(after[field]);
+    if (from !== to) {
+      changes.push({ field, from, to });
+    }
+  }
+  return changes;
+};
@@ -0,0 +1,99 @@
+// Bulk import of defects into one project from rows mapped by the import wizard.
+//
+// Rows are checked one by one so a dry run can list every problem at once. An import only
+// goes ahead when all rows are valid; defects, their index entries and history entries are
+// then written in batches through kv.mset.
+import * as kv from "./kv.tsx";
+import { getProjectRole } from "./memberships.tsx";
+import { saveNewDefects } from "./defect_index.tsx";
+import { FINAL_STATUSES } from "./defect_query.tsx";
+import { slaFieldsForProject } from "./sla_policies.tsx";
+import { INITIAL_STATUS } from "./workflow.tsx";
+import { ValidationError, importRowSchema, parseValue, type ImportRow } from "./validation.tsx";
+
+export interface ImportRowError {
+  // Position of the row in the request
+  row: number;
+  fields: Record<string, string>;
+}
+
+const BATCH_SIZE = 500;
+
+// Splits rows into valid ones and per-row errors. Assignees must exist and take part in the project.
+export const validateImportRows = async (projectId: string, rows: unknown[]) => {
+  const valid: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+  // Each distinct assignee is looked up once
+  const assigneeErrors = new Map<string, string | null>();
+
+  const checkAssignee = async (userId: string) => {
+    if (!assigneeErrors.has(userId)) {
+      const profile = await kv.get(`user:${userId}`);
+      assigneeErrors.set(userId, !profile
+        ? 'Пользователь не найден'
+        : !await getProjectRole(userId, profile.role, projectId) ? 'Пользователь не участвует в проекте' : null);
+    }
+    return assigneeErrors.get(userId)!;
+  };
+
+  for (const [index, value] of rows.entries()) {
+    try {
+      const row = parseValue(importRowSchema, value);
+      const assigneeError = row.assignee ? await checkAssignee(row.assignee) : null;
+      if (assigneeError) {
+        throw new ValidationError({ assignee: assigneeError });
+      }
+      valid.push(row);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+      errors.push({ row: index, fields: error.fields });
+    }
+  }
+
+  return { valid, errors };
+};
+
+// Creates the defects as if each had been filed through POST /defects, and returns them
+export const importDefects = async (projectId: string, rows: ImportRow[], userId: string): Promise<any[]> => {
+  const createdAt = new Date().toISOString();
+  const slaFields = await slaFieldsForProject(projectId);
+
+  const defects = rows.map((row) => {
+    const status = row.status ?? INITIAL_STATUS;
+    return {
+      id: crypto.randomUUID(),
+      title: row.title,
+      description: row.description,
+      priority: row.priority,
+      assignee: row.assignee ?? null,
+      projectId,
+      status,
+      version: 1,
+      createdBy: userId,
+      createdAt,
+      updatedAt: createdAt,
+      ...(FINAL_STATUSES.includes(status) ? { closedAt: createdAt } : {}),
+      ...slaFields({ priority: row.priority, dueDate: row.dueDate, createdAt }),
+      comments: []
+    };
+  });
+
+  await saveNewDefects(defects);
+
+  const history = defects.map((defect) => ({
+    id: crypto.randomUUID(),
+    defectId: defect.id,
+    action: 'created',
+    userId,
+    timestamp: createdAt,
+    details: 'Дефект импортирован из файла'
+  }));
+  for (let i = 0; i < history.length; i += BATCH_SIZE) {
+    const batch = history.slice(i, i + BATCH_SIZE);
+    await kv.mset(batch.map((entry) => `history:${entry.defectId}:${entry.id}`), batch);
+  }
+
+  return defects;
+};
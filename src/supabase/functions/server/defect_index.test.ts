@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import * as kv from './kv.tsx';
+import { createMemoryBackend } from './kv_memory.tsx';
+import {
+  deleteDefect,
+  getDefectIdsBy,
+  getDefectsBy,
+  rebuildDefectIndexes,
+  saveDefect,
+  saveNewDefects,
+} from './defect_index.tsx';
+
+const DEFECT = { id: 'd1', title: 'Трещина', status: 'Новая', projectId: 'p1', assignee: 'u1' };
+
+const indexKeys = async () => (await kv.getByPrefix('idx:defect:')).map((entry) => entry.key).sort();
+
+beforeEach(() => {
+  kv.useBackend(createMemoryBackend());
+});
+
+describe('saveDefect', () => {
+  it('indexes a new defect by project, assignee and status', async () => {
+    await saveDefect(DEFECT);
+    expect(await indexKeys()).toEqual([
+      'idx:defect:assignee:u1:d1',
+      'idx:defect:project:p1:d1',
+      'idx:defect:status:Новая:d1',
+    ]);
+    expect(await getDefectsBy('project', 'p1')).toEqual([DEFECT]);
+  });
+
+  it('moves the entries when the status, assignee or project changes', async () => {
+    await saveDefect(DEFECT);
+    const updated = { ...DEFECT, status: 'В работе', assignee: 'u2', projectId: 'p2' };
+    await saveDefect(updated, DEFECT);
+
+    expect(await indexKeys()).toEqual([
+      'idx:defect:assignee:u2:d1',
+      'idx:defect:project:p2:d1',
+      'idx:defect:status:В работе:d1',
+    ]);
+    expect(await getDefectIdsBy('status', 'Новая')).toEqual([]);
+    expect(await getDefectIdsBy('assignee', 'u1')).toEqual([]);
+    expect(await getDefectsBy('project', 'p2')).toEqual([updated]);
+  });
+
+  it('drops the assignee entry when the defect is unassigned', async () => {
+    await saveDefect(DEFECT);
+    await saveDefect({ ...DEFECT, assignee: null }, DEFECT);
+    expect(await getDefectIdsBy('assignee', 'u1')).toEqual([]);
+    expect(await indexKeys()).toHaveLength(2);
+  });
+
+  it('leaves the entries alone when no indexed field changes', async () => {
+    await saveDefect(DEFECT);
+    await saveDefect({ ...DEFECT, title: 'Трещина в стене' }, DEFECT);
+    expect(await indexKeys()).toHaveLength(3);
+    expect((await getDefectsBy('status', 'Новая'))[0].title).toBe('Трещина в стене');
+  });
+});
+
+describe('deleteDefect', () => {
+  it('removes the defect and its entries', async () => {
+    await saveDefect(DEFECT);
+    await deleteDefect(DEFECT);
+    expect(await kv.get('defect:d1')).toBeUndefined();
+    expect(await indexKeys()).toEqual([]);
+  });
+});
+
+describe('rebuildDefectIndexes', () => {
+  it('replaces stale entries with ones matching the stored defects', async () => {
+    await saveNewDefects([DEFECT, { ...DEFECT, id: 'd2', assignee: null }]);
+    // A defect written without going through saveDefect leaves its entries behind
+    await kv.set('defect:d1', { ...DEFECT, status: 'Закрыта' });
+
+    expect(await rebuildDefectIndexes()).toEqual({ defects: 2, indexEntries: 5 });
+    expect(await getDefectIdsBy('status', 'Новая')).toEqual(['d2']);
+    expect(await getDefectIdsBy('status', 'Закрыта')).toEqual(['d1']);
+  });
+});
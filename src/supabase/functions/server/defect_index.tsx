@@ -0,0 +1,154 @@
+// Defect persistence with secondary indexes kept in the KV store.
+//
+// Every defect has one index entry per indexed field, stored under
+// `idx:defect:<index>:<value>:<defectId>`. Entries hold their own key so that
+// the rebuild routine can find and drop stale ones.
+import * as kv from "./kv.tsx";
+import type { DefectQuery } from "./defect_query.tsx";
+
+const INDEXED_FIELDS = {
+  project: 'projectId',
+  assignee: 'assignee',
+  status: 'status',
+} as const;
+
+export type DefectIndex = keyof typeof INDEXED_FIELDS;
+
+const INDEX_PREFIX = 'idx:defect:';
+
+// Keeps upsert and delete payloads to a size the database accepts comfortably
+const BATCH_SIZE = 500;
+
+const indexPrefix = (index: DefectIndex, value: string) => `${INDEX_PREFIX}${index}:${value}:`;
+
+export const defectKey = (defectId: string) => `defect:${defectId}`;
+
+// Lists the index keys a defect should currently have
+export const indexKeysFor = (defect: any): string[] => {
+  const keys: string[] = [];
+  for (const [index, field] of Object.entries(INDEXED_FIELDS) as [DefectIndex, string][]) {
+    const value = defect?.[field];
+    if (value !== undefined && value !== null && value !== '') {
+      keys.push(`${indexPrefix(index, String(value))}${defect.id}`);
+    }
+  }
+  return keys;
+};
+
+const chunk = <T,>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+const writeIndexEntries = async (entries: { key: string; defectId: string }[]) => {
+  for (const batch of chunk(entries, BATCH_SIZE)) {
+    await kv.mset(batch.map((entry) => entry.key), batch);
+  }
+};
+
+const deleteKeys = async (keys: string[]) => {
+  for (const batch of chunk(keys, BATCH_SIZE)) {
+    await kv.mdel(batch);
+  }
+};
+
+// Stores a defect and moves its index entries. Pass the previously stored
+// version on update so entries for old values are removed.
+export const saveDefect = async (defect: any, previous?: any): Promise<void> => {
+  await kv.set(defectKey(defect.id), defect);
+
+  const nextKeys = indexKeysFor(defect);
+  const previousKeys = previous ? indexKeysFor(previous) : [];
+
+  const staleKeys = previousKeys.filter((key) => !nextKeys.includes(key));
+  if (staleKeys.length > 0) {
+    await deleteKeys(staleKeys);
+  }
+
+  const addedKeys = nextKeys.filter((key) => !previousKeys.includes(key));
+  if (addedKeys.length > 0) {
+    await writeIndexEntries(addedKeys.map((key) => ({ key, defectId: defect.id })));
+  }
+};
+
+// Stores new defects and their index entries in batches, for imports
+export const saveNewDefects = async (defects: any[]): Promise<void> => {
+  for (const batch of chunk(defects, BATCH_SIZE)) {
+    await kv.mset(batch.map((defect) => defectKey(defect.id)), batch);
+  }
+  await writeIndexEntries(defects.flatMap((defect) =>
+    indexKeysFor(defect).map((key) => ({ key, defectId: defect.id }))
+  ));
+};
+
+// Removes a defect together with its index entries
+export const deleteDefect = async (defect: any): Promise<void> => {
+  await deleteKeys([defectKey(defect.id), ...indexKeysFor(defect)]);
+};
+
+export const getDefectIdsBy = async (index: DefectIndex, value: string): Promise<string[]> => {
+  const entries = await kv.getByPrefix(indexPrefix(index, value));
+  return entries.map((entry) => entry.defectId);
+};
+
+export const getDefectsByIds = async (ids: string[]): Promise<any[]> => {
+  const unique = [...new Set(ids)];
+  const defects: any[] = [];
+  for (const batch of chunk(unique, BATCH_SIZE)) {
+    defects.push(...await kv.mget(batch.map(defectKey)));
+  }
+  return defects.filter(Boolean);
+};
+
+export const getDefectsBy = async (index: DefectIndex, value: string): Promise<any[]> => {
+  return getDefectsByIds(await getDefectIdsBy(index, value));
+};
+
+// Loads the defects of the given projects through the project index
+export const getDefectsInProjects = async (projectIds: Iterable<string>): Promise<any[]> => {
+  const ids = await Promise.all([...projectIds].map((projectId) => getDefectIdsBy('project', projectId)));
+  return getDefectsByIds(ids.flat());
+};
+
+// Loads the smallest candidate set for a list query. The caller still applies
+// the full query to the result, so the index only has to narrow it down.
+// `accessible` limits the scan to the caller's projects; null means all of them.
+export const loadDefectsForQuery = async (
+  query: DefectQuery,
+  accessible: Map<string, unknown> | null = null,
+): Promise<any[]> => {
+  if (query.projectId) {
+    return getDefectsBy('project', query.projectId);
+  }
+  if (query.assignee) {
+    return getDefectsBy('assignee', query.assignee);
+  }
+  if (accessible) {
+    return getDefectsInProjects(accessible.keys());
+  }
+  if (query.status) {
+    const ids = await Promise.all(query.status.map((status) => getDefectIdsBy('status', status)));
+    return getDefectsByIds(ids.flat());
+  }
+  return kv.getByPrefix('defect:');
+};
+
+// Drops every index entry and recreates them from the stored defects
+export const rebuildDefectIndexes = async (): Promise<{ defects: number; indexEntries: number }> => {
+  const existing = await kv.getByPrefix(INDEX_PREFIX);
+  const existingKeys = existing.map((entry) => entry?.key).filter(Boolean);
+  if (existingKeys.length > 0) {
+    await deleteKeys(existingKeys);
+  }
+
+  const defects = await kv.getByPrefix('defect:');
+  const entries = defects.flatMap((defect) =>
+    indexKeysFor(defect).map((key) => ({ key, defectId: defect.id }))
+  );
+  await writeIndexEntries(entries);
+
+  return { defects: defects.length, indexEntries: entries.length };
+};
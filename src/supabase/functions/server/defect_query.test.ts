@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_PAGE_SIZE, parseDefectQuery, queryDefects } from './defect_query.tsx';
+
+const defect = (id: string, fields: Record<string, unknown> = {}) => ({
+  id,
+  title: `Дефект ${id}`,
+  status: 'Новая',
+  priority: 'Средний',
+  createdAt: `2025-03-${id.padStart(2, '0')}T10:00:00.000Z`,
+  ...fields,
+});
+
+const DEFECTS = Array.from({ length: 7 }, (_, index) => defect(String(index + 1)));
+
+// Follows nextCursor until the last page
+const readAllPages = (defects: any[], params: Record<string, string>) => {
+  const pages: string[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = queryDefects(defects, parseDefectQuery({ ...params, cursor }));
+    pages.push(page.defects.map((item) => item.id));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return pages;
+};
+
+describe('parseDefectQuery', () => {
+  it('caps the page size and ignores invalid limits', () => {
+    expect(parseDefectQuery({ limit: '20' }).limit).toBe(20);
+    expect(parseDefectQuery({ limit: '5000' }).limit).toBe(MAX_PAGE_SIZE);
+    expect(parseDefectQuery({ limit: '0' }).limit).toBeUndefined();
+    expect(parseDefectQuery({ limit: 'all' }).limit).toBeUndefined();
+  });
+
+  it('falls back to the newest first for unknown sort fields', () => {
+    expect(parseDefectQuery({ sort: 'assignee', order: 'up' })).toMatchObject({ sort: 'createdAt', order: 'desc' });
+  });
+});
+
+describe('queryDefects', () => {
+  it('returns everything without a limit', () => {
+    const page = queryDefects(DEFECTS, parseDefectQuery({}));
+    expect(page.defects).toHaveLength(7);
+    expect(page.nextCursor).toBeNull();
+    expect(page.total).toBe(7);
+  });
+
+  it('walks the pages in order without gaps or repeats', () => {
+    expect(readAllPages(DEFECTS, { limit: '3' })).toEqual([['7', '6', '5'], ['4', '3', '2'], ['1']]);
+    expect(readAllPages(DEFECTS, { limit: '3', order: 'asc' })).toEqual([['1', '2', '3'], ['4', '5', '6'], ['7']]);
+  });
+
+  it('reports the total of all matching defects on every page', () => {
+    const first = queryDefects(DEFECTS, parseDefectQuery({ limit: '2' }));
+    const second = queryDefects(DEFECTS, parseDefectQuery({ limit: '2', cursor: first.nextCursor! }));
+    expect([first.total, second.total]).toEqual([7, 7]);
+  });
+
+  it('breaks ties by id and puts missing values last', () => {
+    const defects = [
+      defect('a', { priority: 'Высокий' }),
+      defect('b', { priority: undefined }),
+      defect('c', { priority: 'Высокий' }),
+      defect('d', { priority: 'Низкий' }),
+    ];
+    expect(readAllPages(defects, { sort: 'priority', limit: '1' }).flat()).toEqual(['a', 'c', 'd', 'b']);
+    expect(readAllPages(defects, { sort: 'priority', order: 'asc', limit: '1' }).flat()).toEqual(['d', 'a', 'c', 'b']);
+  });
+
+  it('continues after the cursor when that defect is gone', () => {
+    const first = queryDefects(DEFECTS, parseDefectQuery({ limit: '2' }));
+    const remaining = DEFECTS.filter((item) => item.id !== '6');
+    const next = queryDefects(remaining, parseDefectQuery({ limit: '2', cursor: first.nextCursor! }));
+    expect(next.defects.map((item) => item.id)).toEqual(['5', '4']);
+  });
+
+  it('starts from the beginning for a malformed cursor', () => {
+    const page = queryDefects(DEFECTS, parseDefectQuery({ limit: '2', cursor: 'not-a-cursor' }));
+    expect(page.defects.map((item) => item.id)).toEqual(['7', '6']);
+  });
+
+  it('paginates only the defects matching the filters', () => {
+    const defects = DEFECTS.map((item, index) => ({ ...item, status: index % 2 ? 'В работе' : 'Новая' }));
+    expect(readAllPages(defects, { status: 'В работе', limit: '2' })).toEqual([['6', '4'], ['2']]);
+  });
+});
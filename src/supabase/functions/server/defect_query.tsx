@@ -0,0 +1,175 @@
+// Filtering, sorting and cursor pagination for defect lists.
+// The frontend shares `isOverdue`, so this module only imports other shared modules.
+import { dueDeadline } from "./sla.tsx";
+import { matchesSearch } from "./search.tsx";
+
+export type DefectSortField = 'createdAt' | 'updatedAt' | 'dueDate' | 'priority' | 'status' | 'title';
+export type SortOrder = 'asc' | 'desc';
+
+const SORT_FIELDS: DefectSortField[] = ['createdAt', 'updatedAt', 'dueDate', 'priority', 'status', 'title'];
+
+export const MAX_PAGE_SIZE = 100;
+
+const PRIORITY_RANK: Record<string, number> = {
+  'Низкий': 1,
+  'Средний': 2,
+  'Высокий': 3,
+  'Критический': 4,
+};
+
+// Statuses that no longer count towards overdue work
+export const FINAL_STATUSES = ['Закрыта', 'Отменена'];
+
+export interface DefectQuery {
+  status?: string[];
+  priority?: string[];
+  projectId?: string;
+  assignee?: string;
+  dueFrom?: string;
+  dueTo?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  overdue?: boolean;
+  q?: string;
+  sort: DefectSortField;
+  order: SortOrder;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface DefectPage {
+  defects: any[];
+  nextCursor: string | null;
+  total: number;
+}
+
+const splitList = (value: string | undefined): string[] | undefined => {
+  const items = value?.split(',').map((item) => item.trim()).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+};
+
+// Builds a query from URL search parameters. Unknown or malformed values are ignored.
+export const parseDefectQuery = (params: Record<string, string | undefined>): DefectQuery => {
+  const sort = SORT_FIELDS.includes(params.sort as DefectSortField) ? params.sort as DefectSortField : 'createdAt';
+  const order: SortOrder = params.order === 'asc' ? 'asc' : 'desc';
+  const limit = Number.parseInt(params.limit ?? '', 10);
+
+  return {
+    status: splitList(params.status),
+    priority: splitList(params.priority),
+    projectId: params.projectId || undefined,
+    assignee: params.assignee || undefined,
+    dueFrom: params.dueFrom || undefined,
+    dueTo: params.dueTo || undefined,
+    createdFrom: params.createdFrom || undefined,
+    createdTo: params.createdTo || undefined,
+    overdue: params.overdue === 'true' ? true : undefined,
+    q: params.q?.trim() || undefined,
+    sort,
+    order,
+    limit: Number.isFinite(limit) && limit > 0 ? Math.min(limit, MAX_PAGE_SIZE) : undefined,
+    cursor: params.cursor || undefined,
+  };
+};
+
+export const isOverdue = (defect: any, now = new Date()): boolean => {
+  return !!defect.dueDate && dueDeadline(defect.dueDate) < now.getTime() && !FINAL_STATUSES.includes(defect.status);
+};
+
+export const matchesDefectQuery = (defect: any, query: DefectQuery, now = new Date()): boolean => {
+  if (query.status && !query.status.includes(defect.status)) return false;
+  if (query.priority && !query.priority.includes(defect.priority)) return false;
+  if (query.projectId && defect.projectId !== query.projectId) return false;
+  if (query.assignee && defect.assignee !== query.assignee) return false;
+
+  // Due-date bounds compare calendar days, so both ends are inclusive
+  if (query.dueFrom || query.dueTo) {
+    const dueDay = defect.dueDate ? String(defect.dueDate).slice(0, 10) : null;
+    if (!dueDay) return false;
+    if (query.dueFrom && dueDay < query.dueFrom.slice(0, 10)) return false;
+    if (query.dueTo && dueDay > query.dueTo.slice(0, 10)) return false;
+  }
+
+  const createdDay = String(defect.createdAt ?? '').slice(0, 10);
+  if (query.createdFrom && createdDay < query.createdFrom.slice(0, 10)) return false;
+  if (query.createdTo && createdDay > query.createdTo.slice(0, 10)) return false;
+
+  if (query.overdue && !isOverdue(defect, now)) return false;
+
+  if (query.q) {
+    const texts = [defect.title, defect.description, ...(defect.comments || []).map((comment: any) => comment.comment)];
+    // Word forms are matched through stems; the plain substring check still finds codes and numbers
+    const haystack = texts.filter(Boolean).join(' ').toLowerCase();
+    if (!haystack.includes(query.q.toLowerCase()) && !matchesSearch(texts, query.q)) return false;
+  }
+
+  return true;
+};
+
+const sortValue = (defect: any, field: DefectSortField): string | number | null => {
+  if (field === 'priority') {
+    return PRIORITY_RANK[defect.priority] ?? null;
+  }
+  if (field === 'title') {
+    return typeof defect.title === 'string' ? defect.title.toLowerCase() : null;
+  }
+  return defect[field] ?? null;
+};
+
+// Missing values always sort last; ties are broken by id to keep the order stable for cursors
+const compareKeys = (
+  a: { value: string | number | null; id: string },
+  b: { value: string | number | null; id: string },
+  order: SortOrder,
+): number => {
+  if (a.value !== b.value) {
+    if (a.value === null) return 1;
+    if (b.value === null) return -1;
+    const result = a.value < b.value ? -1 : 1;
+    return order === 'asc' ? result : -result;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+};
+
+const encodeCursor = (key: { value: string | number | null; id: string }): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(key));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const decodeCursor = (cursor: string): { value: string | number | null; id: string } | null => {
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    const key = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (ch) => ch.charCodeAt(0))));
+    return typeof key?.id === 'string' ? key : null;
+  } catch {
+    return null;
+  }
+};
+
+// Filters, sorts and slices defects. Without a limit every matching defect is returned.
+export const queryDefects = (defects: any[], query: DefectQuery, now = new Date()): DefectPage => {
+  const keyOf = (defect: any) => ({ value: sortValue(defect, query.sort), id: String(defect.id) });
+
+  const matching = defects
+    .filter((defect) => matchesDefectQuery(defect, query, now))
+    .sort((a, b) => compareKeys(keyOf(a), keyOf(b), query.order));
+
+  let start = 0;
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  if (after) {
+    start = matching.findIndex((defect) => compareKeys(keyOf(defect), after, query.order) > 0);
+    if (start === -1) start = matching.length;
+  }
+
+  if (!query.limit) {
+    return { defects: matching.slice(start), nextCursor: null, total: matching.length };
+  }
+
+  const page = matching.slice(start, start + query.limit);
+  const hasMore = start + query.limit < matching.length;
+  return {
+    defects: page,
+    nextCursor: hasMore ? encodeCursor(keyOf(page[page.length - 1])) : null,
+    total: matching.length,
+  };
+};
@@ -0,0 +1,150 @@
+// Changes to a single defect, shared by PUT /defects/:id and the bulk endpoint.
+//
+// Every check that depends on the defect itself happens here: project and assignee references,
+// reassignment and project-move permissions, and the status workflow. A successful save writes
+// the history entry; the webhook and notifications are sent by `announceDefectUpdate`, which the
+// bulk endpoint defers until every defect has been saved.
+import * as kv from "./kv.tsx";
+import { can, type Action, type Role } from "./permissions.tsx";
+import { getProjectRole } from "./memberships.tsx";
+import { findTransition, validateTransition } from "./workflow.tsx";
+import { FINAL_STATUSES } from "./defect_query.tsx";
+import { saveDefect } from "./defect_index.tsx";
+import { diffDefect, type HistoryChange } from "./defect_history.tsx";
+import { slaFieldsForUpdate } from "./sla_policies.tsx";
+import { emitWebhookEvent } from "./webhooks.tsx";
+import { notify } from "./notifications.tsx";
+import { checkAssigneeAccess, checkDefectReferences } from "./validation.tsx";
+
+// Raised when an update is refused. `status` and `body` are what PUT /defects/:id responds with.
+export class DefectUpdateError extends Error {
+  status: 400 | 403 | 404 | 409;
+  body: Record<string, unknown>;
+
+  constructor(status: 400 | 403 | 404 | 409, body: { error: string; [key: string]: unknown }) {
+    super(body.error);
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export const forbiddenUpdate = (action: Action) =>
+  new DefectUpdateError(403, { error: 'Forbidden: insufficient permissions', action });
+
+export interface DefectUpdateActor {
+  id: string;
+  // Global role, for checks on a project the defect is moved to
+  role: Role;
+  // Role on the defect's current project
+  projectRole: string | null;
+}
+
+export interface DefectUpdate {
+  previous: any;
+  defect: any;
+  changes: HistoryChange[];
+}
+
+// Applies validated updates to a defect, saves it with its history entry and returns the change.
+// Throws DefectUpdateError or ValidationError when the change is not allowed.
+export const updateDefect = async (
+  existingDefect: any,
+  input: Record<string, any>,
+  actor: DefectUpdateActor,
+): Promise<DefectUpdate> => {
+  const updates = { ...input };
+
+  // The project is only checked when it changes, so defects of an archived project stay editable
+  // by clients that send the whole form back
+  await checkDefectReferences({
+    projectId: 'projectId' in updates && updates.projectId !== existingDefect.projectId ? updates.projectId : undefined,
+    assignee: updates.assignee,
+  });
+
+  // Moving a defect to another project needs the right to file defects there
+  if ('projectId' in updates && updates.projectId !== existingDefect.projectId &&
+      !can(await getProjectRole(actor.id, actor.role, updates.projectId), 'defects:create')) {
+    throw forbiddenUpdate('defects:create');
+  }
+
+  // Reassigning a defect needs its own permission on top of defects:update
+  if ('assignee' in updates && updates.assignee !== existingDefect.assignee && !can(actor.projectRole, 'defects:assign')) {
+    throw forbiddenUpdate('defects:assign');
+  }
+
+  if ('assignee' in updates || 'projectId' in updates) {
+    await checkAssigneeAccess(
+      'assignee' in updates ? updates.assignee : existingDefect.assignee,
+      updates.projectId ?? existingDefect.projectId
+    );
+  }
+
+  // Status changes must follow the workflow
+  if ('status' in updates && updates.status !== existingDefect.status) {
+    const transitionError = validateTransition(existingDefect.status, updates.status, actor.projectRole, updates);
+    if (transitionError) {
+      throw new DefectUpdateError(transitionError.status, { error: transitionError.error, missingFields: transitionError.missingFields });
+    }
+
+    // A reopened defect no longer has a valid resolution
+    if (findTransition(existingDefect.status, updates.status)?.requires?.includes('reopenReason')) {
+      updates.resolution = null;
+    }
+
+    // The SLA clock stops when a defect is closed or cancelled and runs again on reopen
+    updates.closedAt = FINAL_STATUSES.includes(updates.status) ? new Date().toISOString() : null;
+  }
+
+  const updatedDefect = {
+    ...existingDefect,
+    ...updates,
+    ...await slaFieldsForUpdate(existingDefect, updates),
+    version: (existingDefect.version ?? 1) + 1,
+    updatedBy: actor.id,
+    updatedAt: new Date().toISOString()
+  };
+
+  await saveDefect(updatedDefect, existingDefect);
+
+  // Record only the fields that actually changed, with their old and new values
+  const changes = diffDefect(existingDefect, updatedDefect);
+  if (changes.length > 0) {
+    const historyEntry = {
+      id: crypto.randomUUID(),
+      defectId: updatedDefect.id,
+      action: 'updated',
+      userId: actor.id,
+      timestamp: new Date().toISOString(),
+      details: `Дефект обновлен: ${changes.map((change) => change.field).join(', ')}`,
+      changes
+    };
+
+    await kv.set(`history:${updatedDefect.id}:${historyEntry.id}`, historyEntry);
+  }
+
+  return { previous: existingDefect, defect: updatedDefect, changes };
+};
+
+// Sends the webhook event and notifications for a saved update
+export const announceDefectUpdate = async ({ previous: existingDefect, defect: updatedDefect, changes }: DefectUpdate, actorId: string) => {
+  if (changes.length > 0) {
+    await emitWebhookEvent('defect.updated', { defect: updatedDefect, changes });
+  }
+
+  if (updatedDefect.assignee && updatedDefect.assignee !== existingDefect.assignee) {
+    await notify([updatedDefect.assignee], {
+      type: 'assigned',
+      defect: updatedDefect,
+      message: `Вам назначен дефект «${updatedDefect.title}»`,
+      actorId
+    });
+  }
+  if (updatedDefect.status !== existingDefect.status) {
+    await notify([updatedDefect.assignee, updatedDefect.createdBy], {
+      type: 'status_changed',
+      defect: updatedDefect,
+      message: `Статус дефекта «${updatedDefect.title}»: ${existingDefect.status} → ${updatedDefect.status}`,
+      actorId
+    });
+  }
+};
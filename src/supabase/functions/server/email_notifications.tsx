@@ -0,0 +1,80 @@
+// Email notifications: immediate mail on assignment and a daily digest. Both are opt-in,
+// per user, with the settings stored under `settings:notifications:<userId>`.
+import * as kv from "./kv.tsx";
+import { getMailer } from "./mailer.tsx";
+import { assignmentEmail, digestEmail } from "./mail_templates.tsx";
+import { loadAnalyticsDefects } from "./analytics.tsx";
+import { FINAL_STATUSES, isOverdue } from "./defect_query.tsx";
+
+export interface NotificationSettings {
+  emailOnAssign: boolean;
+  dailyDigest: boolean;
+}
+
+const DEFAULT_SETTINGS: NotificationSettings = {
+  emailOnAssign: false,
+  dailyDigest: false,
+};
+
+const settingsKey = (userId: string) => `settings:notifications:${userId}`;
+
+export const getNotificationSettings = async (userId: string): Promise<NotificationSettings> => {
+  return { ...DEFAULT_SETTINGS, ...(await kv.get(settingsKey(userId))) };
+};
+
+export const saveNotificationSettings = async (
+  userId: string,
+  changes: Partial<NotificationSettings>
+): Promise<NotificationSettings> => {
+  const settings = { ...await getNotificationSettings(userId), ...changes };
+  await kv.set(settingsKey(userId), settings);
+  return settings;
+};
+
+// Mails the new assignees of a defect that opted in. Failures are logged and never fail the request.
+export const sendAssignmentEmails = async (userIds: string[], defect: any): Promise<void> => {
+  try {
+    const project = await kv.get(`project:${defect.projectId}`);
+    const mailer = await getMailer();
+    for (const userId of userIds) {
+      const profile = await kv.get(`user:${userId}`);
+      if (!profile?.email || !(await getNotificationSettings(userId)).emailOnAssign) {
+        continue;
+      }
+      await mailer.send(assignmentEmail(profile.email, defect, project?.name ?? null));
+    }
+  } catch (error) {
+    console.log('Assignment email error:', error);
+  }
+};
+
+// Sends each opted-in user their open and overdue defects. Users with nothing open get no mail.
+// Returns the number of digests sent.
+export const sendDailyDigests = async (now = new Date()): Promise<number> => {
+  const users = await kv.getByPrefix('user:');
+  const defects = await loadAnalyticsDefects(null);
+  const mailer = await getMailer();
+  let sent = 0;
+
+  for (const user of users) {
+    if (!user.email || !(await getNotificationSettings(user.id)).dailyDigest) {
+      continue;
+    }
+
+    const assigned = defects.filter((defect) => defect.assignee === user.id && !FINAL_STATUSES.includes(defect.status));
+    if (assigned.length === 0) {
+      continue;
+    }
+
+    const overdue = assigned.filter((defect) => isOverdue(defect, now));
+    const open = assigned.filter((defect) => !isOverdue(defect, now));
+    try {
+      await mailer.send(digestEmail(user.email, user.name, open, overdue));
+      sent++;
+    } catch (error) {
+      console.log(`Digest email error for user ${user.id}:`, error);
+    }
+  }
+
+  return sent;
+};
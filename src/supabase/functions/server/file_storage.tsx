@@ -0,0 +1,124 @@
+// Binary file storage for defect attachments.
+//
+// FILE_STORAGE selects the backend:
+//   supabase (default) - a private Supabase Storage bucket
+//   local              - files under FILE_STORAGE_DIR (default ./attachments)
+import { getSupabase } from "./supabase.tsx";
+
+export interface FileStorage {
+  put(path: string, data: Uint8Array, contentType: string): Promise<void>;
+  get(path: string): Promise<Uint8Array<ArrayBuffer> | null>;
+  remove(paths: string[]): Promise<void>;
+}
+
+const BUCKET_NAME = 'make-090ebd00-attachments';
+
+let bucketReady: Promise<void> | null = null;
+
+// Creates the private bucket on first use
+const ensureBucket = (supabase: any): Promise<void> => {
+  bucketReady ??= (async () => {
+    const { data: buckets, error } = await supabase.storage.listBuckets();
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!buckets?.some((bucket: any) => bucket.name === BUCKET_NAME)) {
+      const { error: createError } = await supabase.storage.createBucket(BUCKET_NAME, { public: false });
+      if (createError) {
+        throw new Error(createError.message);
+      }
+    }
+  })().catch((error) => {
+    bucketReady = null;
+    throw error;
+  });
+  return bucketReady;
+};
+
+const supabaseFileStorage: FileStorage = {
+  async put(path, data, contentType) {
+    const supabase = await getSupabase();
+    await ensureBucket(supabase);
+    const { error } = await supabase.storage.from(BUCKET_NAME).upload(path, data, { contentType, upsert: true });
+    if (error) {
+      throw new Error(error.message);
+    }
+  },
+
+  async get(path) {
+    const supabase = await getSupabase();
+    await ensureBucket(supabase);
+    const { data, error } = await supabase.storage.from(BUCKET_NAME).download(path);
+    if (error || !data) {
+      return null;
+    }
+    return new Uint8Array(await data.arrayBuffer());
+  },
+
+  async remove(paths) {
+    if (paths.length === 0) return;
+    const supabase = await getSupabase();
+    await ensureBucket(supabase);
+    const { error } = await supabase.storage.from(BUCKET_NAME).remove(paths);
+    if (error) {
+      throw new Error(error.message);
+    }
+  },
+};
+
+const localRoot = () => Deno.env.get('FILE_STORAGE_DIR') || './attachments';
+
+// Paths are built by the server from ids, but refuse anything that could leave the root
+const localPath = (path: string) => {
+  if (path.split('/').some((part) => part === '..' || part === '')) {
+    throw new Error(`Invalid storage path: ${path}`);
+  }
+  return `${localRoot()}/${path}`;
+};
+
+const localFileStorage: FileStorage = {
+  async put(path, data) {
+    const fullPath = localPath(path);
+    await Deno.mkdir(fullPath.slice(0, fullPath.lastIndexOf('/')), { recursive: true });
+    await Deno.writeFile(fullPath, data);
+  },
+
+  async get(path) {
+    try {
+      return await Deno.readFile(localPath(path));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async remove(paths) {
+    for (const path of paths) {
+      try {
+        await Deno.remove(localPath(path));
+      } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) {
+          throw error;
+        }
+      }
+    }
+  },
+};
+
+let storage: FileStorage | null = null;
+
+export const getFileStorage = (): FileStorage => {
+  if (!storage) {
+    const name = Deno.env.get('FILE_STORAGE') || 'supabase';
+    if (name === 'supabase') {
+      storage = supabaseFileStorage;
+    } else if (name === 'local') {
+      storage = localFileStorage;
+    } else {
+      throw new Error(`Unknown FILE_STORAGE: ${name}`);
+    }
+  }
+  return storage;
+};
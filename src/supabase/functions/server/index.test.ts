@@ -0,0 +1,260 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import * as kv from './kv.tsx';
+import { createMemoryBackend } from './kv_memory.tsx';
+import { signPayload } from './webhooks.tsx';
+
+// Imported once the console is silenced, since the request logger keeps its own reference
+let app: typeof import('./index.tsx').app;
+
+const BASE = '/make-server-090ebd00';
+
+interface RequestOptions {
+  token?: string;
+  method?: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+const request = (path: string, { token, method = 'GET', body, headers = {} }: RequestOptions = {}) =>
+  app.request(`${BASE}${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...headers,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+// Signs a user up through the API and gives them a global role
+const signIn = async (name: string, role: string) => {
+  const email = `${name}@example.com`;
+  const signup = await request('/signup', { method: 'POST', body: { email, password: 'secret123', name } });
+  const { user } = await signup.json();
+  await kv.set(`user:${user.id}`, { ...await kv.get(`user:${user.id}`), role });
+
+  const login = await request('/login', { method: 'POST', body: { email, password: 'secret123' } });
+  const { access_token: token } = await login.json();
+  return { id: user.id as string, token: token as string };
+};
+
+const fetchMock = vi.fn(async () => new Response('ok'));
+
+let admin: { id: string; token: string };
+let manager: { id: string; token: string };
+let observer: { id: string; token: string };
+let projectId: string;
+
+beforeAll(async () => {
+  vi.stubEnv('AUTH_PROVIDER', 'local');
+  vi.stubEnv('LOCAL_AUTH_JWT_SECRET', 'test-secret');
+  vi.stubGlobal('fetch', fetchMock);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  ({ app } = await import('./index.tsx'));
+  kv.useBackend(createMemoryBackend());
+
+  admin = await signIn('admin', 'admin');
+  manager = await signIn('manager', 'manager');
+  observer = await signIn('observer', 'observer');
+
+  const response = await request('/projects', { token: manager.token, method: 'POST', body: { name: 'ЖК Северный' } });
+  projectId = (await response.json()).project.id;
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const createDefect = async (title: string, fields: Record<string, unknown> = {}) => {
+  const response = await request('/defects', {
+    token: manager.token,
+    method: 'POST',
+    body: { title, priority: 'Средний', projectId, ...fields },
+  });
+  expect(response.status).toBe(200);
+  return (await response.json()).defect;
+};
+
+describe('authentication', () => {
+  it('rejects requests without a valid access token', async () => {
+    expect((await request('/projects')).status).toBe(401);
+    expect((await request('/projects', { token: 'not-a-token' })).status).toBe(401);
+  });
+
+  it('leaves health and sign-in open', async () => {
+    expect((await request('/health')).status).toBe(200);
+  });
+});
+
+describe('permissions', () => {
+  it('refuses actions outside the caller role', async () => {
+    const response = await request('/projects', { token: observer.token, method: 'POST', body: { name: 'Новый' } });
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ action: 'projects:create' });
+  });
+
+  it('hides projects the caller is not a member of', async () => {
+    const response = await request('/projects', { token: observer.token });
+    expect((await response.json()).projects).toEqual([]);
+
+    const defect = await createDefect('Скрытый дефект');
+    expect((await request(`/defects/${defect.id}`, { token: observer.token })).status).toBe(404);
+  });
+});
+
+describe('PUT /defects/:id', () => {
+  it('rejects an edit based on a stale version with 409', async () => {
+    const defect = await createDefect('Трещина в стене');
+    const etag = (await request(`/defects/${defect.id}`, { token: manager.token })).headers.get('ETag')!;
+
+    const first = await request(`/defects/${defect.id}`, {
+      token: manager.token,
+      method: 'PUT',
+      body: { priority: 'Высокий' },
+      headers: { 'If-Match': etag },
+    });
+    expect(first.status).toBe(200);
+    expect(first.headers.get('ETag')).not.toBe(etag);
+
+    const stale = await request(`/defects/${defect.id}`, {
+      token: manager.token,
+      method: 'PUT',
+      body: { priority: 'Низкий' },
+      headers: { 'If-Match': etag },
+    });
+    expect(stale.status).toBe(409);
+    expect((await stale.json()).defect.priority).toBe('Высокий');
+  });
+
+  it('returns per-field errors for invalid bodies', async () => {
+    const defect = await createDefect('Протечка');
+    const response = await request(`/defects/${defect.id}`, { token: manager.token, method: 'PUT', body: { priority: 'Срочный' } });
+    expect(response.status).toBe(400);
+    expect((await response.json()).fields).toHaveProperty('priority');
+  });
+
+  it('checks the project only when the defect moves to another one', async () => {
+    const response = await request('/projects', { token: manager.token, method: 'POST', body: { name: 'ЖК Южный' } });
+    const archivedId = (await response.json()).project.id;
+    const defect = await createDefect('Сколы на ступенях', { projectId: archivedId });
+    await request(`/projects/${archivedId}/archive`, { token: manager.token, method: 'POST' });
+
+    const edit = await request(`/defects/${defect.id}`, {
+      token: manager.token,
+      method: 'PUT',
+      body: { projectId: archivedId, priority: 'Высокий' },
+    });
+    expect(edit.status).toBe(200);
+
+    const other = await createDefect('Трещина в отмостке');
+    const move = await request(`/defects/${other.id}`, { token: manager.token, method: 'PUT', body: { projectId: archivedId } });
+    expect(move.status).toBe(400);
+    expect((await move.json()).fields).toEqual({ projectId: 'Проект находится в архиве' });
+  });
+});
+
+describe('POST /defects/:id/attachments', () => {
+  it('rejects a file whose content does not match its image or PDF type', async () => {
+    const defect = await createDefect('Пятно на потолке');
+    const body = new FormData();
+    body.append('file', new File(['<svg onload="alert(1)"/>'], 'photo.png', { type: 'image/png' }));
+
+    const response = await app.request(`${BASE}/defects/${defect.id}/attachments`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${manager.token}` },
+      body,
+    });
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('POST /defects/bulk', () => {
+  it('saves what it can and reports the rest per defect', async () => {
+    const defect = await createDefect('Скол плитки');
+    const response = await request('/defects/bulk', {
+      token: manager.token,
+      method: 'POST',
+      body: { ids: [defect.id, 'missing'], updates: { status: 'В работе' } },
+    });
+    expect(response.status).toBe(200);
+    const { updated, failed } = await response.json();
+    expect(updated.map((entry: any) => entry.status)).toEqual(['В работе']);
+    expect(failed).toEqual([{ id: 'missing', status: 404, error: 'Defect not found' }]);
+  });
+
+  it('refuses a reopen reason for defects whose transition does not ask for one', async () => {
+    const closed = await createDefect('Неровная стяжка');
+    for (const body of [{ status: 'В работе' }, { status: 'На проверке' }, { status: 'Закрыта', resolution: 'Выровнено' }]) {
+      await request(`/defects/${closed.id}`, { token: manager.token, method: 'PUT', body });
+    }
+    const fresh = await createDefect('Зазор в оконной раме');
+
+    const response = await request('/defects/bulk', {
+      token: manager.token,
+      method: 'POST',
+      body: { ids: [closed.id, fresh.id], updates: { status: 'В работе', reopenReason: 'Снова трещина' } },
+    });
+    const { updated, failed } = await response.json();
+    expect(updated.map((entry: any) => [entry.id, entry.reopenReason])).toEqual([[closed.id, 'Снова трещина']]);
+    expect(failed).toEqual([{
+      id: fresh.id,
+      status: 400,
+      error: 'Validation failed',
+      fields: { reopenReason: 'Не требуется для этого перехода' },
+    }]);
+  });
+});
+
+describe('POST /defects/import', () => {
+  it('lists row errors in a dry run without saving anything', async () => {
+    const before = (await kv.getByPrefix('defect:')).length;
+    const response = await request('/defects/import', {
+      token: manager.token,
+      method: 'POST',
+      body: {
+        projectId,
+        dryRun: true,
+        rows: [{ title: 'Трещина', priority: 'Высокий' }, { title: 'Скол', priority: 'Срочно' }],
+      },
+    });
+    expect(await response.json()).toMatchObject({ dryRun: true, valid: 1, errors: [{ row: 1 }] });
+    expect((await kv.getByPrefix('defect:')).length).toBe(before);
+  });
+
+  it('refuses callers who cannot file defects in the project', async () => {
+    const response = await request('/defects/import', {
+      token: observer.token,
+      method: 'POST',
+      body: { projectId, rows: [{ title: 'Трещина', priority: 'Высокий' }] },
+    });
+    expect(response.status).toBe(403);
+  });
+});
+
+describe('webhooks', () => {
+  it('sends signed events after the request', async () => {
+    const created = await request('/webhooks', {
+      token: admin.token,
+      method: 'POST',
+      body: { url: 'https://hooks.example.com/defects', events: ['defect.created'] },
+    });
+    const { webhook } = await created.json();
+    fetchMock.mockClear();
+
+    const defect = await createDefect('Отслоение штукатурки');
+
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://hooks.example.com/defects');
+    const body = init.body as string;
+    expect(JSON.parse(body)).toMatchObject({ event: 'defect.created', data: { defect: { id: defect.id } } });
+    expect((init.headers as Record<string, string>)['X-Webhook-Signature']).toBe(`sha256=${await signPayload(webhook.secret, body)}`);
+
+    await vi.waitFor(async () => {
+      const deliveries = await (await request(`/webhooks/${webhook.id}/deliveries`, { token: admin.token })).json();
+      expect(deliveries.deliveries[0]).toMatchObject({ status: 'success', attempts: 1 });
+    });
+  });
+});
@@ -1,16 +1,80 @@
-import { Hono } from "npm:hono";
+import { Hono, type Context, type Next } from "npm:hono";
 import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
-import { createClient } from "npm:@supabase/supabase-js";
-import * as kv from "./kv_store.tsx";
+import * as kv from "./kv.tsx";
+import { AuthError, getAuthProvider, type AuthUser } from "./auth.tsx";
+import { invalidateUser, resolveUser } from "./session_cache.tsx";
+import { can, isRole, type Action, type Role } from "./permissions.tsx";
+import { INITIAL_STATUS, TRANSITION_FIELD_LABELS, findTransition } from "./workflow.tsx";
+import { matchesDefectQuery, parseDefectQuery, queryDefects } from "./defect_query.tsx";
+import { deleteDefect, getDefectsBy, getDefectsInProjects, loadDefectsForQuery, rebuildDefectIndexes, saveDefect } from "./defect_index.tsx";
+import { getFileStorage } from "./file_storage.tsx";
+import { attachmentHeaders, isInlineType, matchesDeclaredType, normalizeMimeType } from "./attachment_types.tsx";
+import {
+  deleteMembership,
+  deleteProjectMemberships,
+  getAccessibleProjects,
+  getMembership,
+  getProjectMembers,
+  getProjectRole,
+  saveMembership,
+} from "./memberships.tsx";
+import { listNotifications, markRead, notify } from "./notifications.tsx";
+import { getNotificationSettings, saveNotificationSettings } from "./email_notifications.tsx";
+import { loadAnalyticsDefects, summarizeDefects } from "./analytics.tsx";
+import { loadHistoryByDefect, summarizeLifecycle } from "./lifecycle.tsx";
+import { getSlaPolicy, saveSlaPolicy, slaFieldsForNewDefect } from "./sla_policies.tsx";
+import { JOBS, findJob, getJobRuns, runJob, scheduleJobs } from "./jobs.tsx";
+import { importDefects, validateImportRows } from "./defect_import.tsx";
+import { DefectUpdateError, announceDefectUpdate, forbiddenUpdate, updateDefect, type DefectUpdate } from "./defect_updates.tsx";
+import { runInBackground } from "./background.tsx";
+import { searchDefects } from "./search.tsx";
+import {
+  deleteWebhook,
+  emitWebhookEvent,
+  generateSecret,
+  getDeliveries,
+  getWebhook,
+  getWebhooks,
+  saveWebhook,
+} from "./webhooks.tsx";
+import {
+  DATES_OUT_OF_ORDER,
+  ValidationError,
+  bulkUpdateDefectsSchema,
+  checkAssigneeAccess,
+  checkDefectReferences,
+  commentSchema,
+  createDefectSchema,
+  createProjectSchema,
+  createWebhookSchema,
+  importDefectsSchema,
+  loginSchema,
+  markNotificationsReadSchema,
+  memberRoleSchema,
+  notificationSettingsSchema,
+  parseBody,
+  projectDatesInOrder,
+  roleSchema,
+  slaPolicySchema,
+  signupSchema,
+  updateDefectSchema,
+  updateProjectSchema,
+  updateWebhookSchema,
+  validationFailed,
+} from "./validation.tsx";
 
-const app = new Hono();
+type AppEnv = {
+  Variables: {
+    user: AuthUser;
+    profile: any;
+    role: Role;
+    // The caller's role on the project of the requested defect
+    projectRole: Role;
+  };
+};
 
-// Initialize Supabase client
-const supabase = createClient(
-  Deno.env.get('SUPABASE_URL')!,
-  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
-);
+const app = new Hono<AppEnv>();
 
 // Enable logger
 app.use('*', logger(console.log));
@@ -20,25 +84,108 @@ app.use(
   "/*",
   cors({
     origin: "*",
-    allowHeaders: ["Content-Type", "Authorization"],
+    allowHeaders: ["Content-Type", "Authorization", "If-Match"],
     allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-    exposeHeaders: ["Content-Length"],
+    exposeHeaders: ["Content-Length", "Content-Disposition", "ETag"],
     maxAge: 600,
   }),
 );
 
-// Middleware to verify auth token
-async function verifyAuth(accessToken: string) {
+// Routes that can be called without an access token
+const PUBLIC_PATHS = [
+  '/make-server-090ebd00/health',
+  '/make-server-090ebd00/signup',
+  '/make-server-090ebd00/login',
+];
+
+// Middleware to authenticate the caller. The resolved user, profile and role
+// are stored on the context for every handler.
+app.use('/make-server-090ebd00/*', async (c, next) => {
+  if (PUBLIC_PATHS.includes(c.req.path)) {
+    return next();
+  }
+
   try {
-    const { data: { user }, error } = await supabase.auth.getUser(accessToken);
-    if (error || !user) {
-      return null;
+    const accessToken = c.req.header('Authorization')?.split(' ')[1];
+    if (!accessToken) {
+      return c.json({ error: 'Unauthorized' }, 401);
     }
-    return user;
+
+    const resolved = await resolveUser(accessToken);
+    if (!resolved) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    c.set('user', resolved.user);
+    c.set('profile', resolved.profile);
+    c.set('role', resolved.role);
   } catch (error) {
     console.log('Auth verification error:', error);
-    return null;
+    return c.json({ error: 'Internal server error while verifying access token' }, 500);
   }
+
+  await next();
+});
+
+// Middleware to check the permission matrix for the authenticated caller
+function requirePermission(action: Action) {
+  return async (c: Context<AppEnv>, next: Next) => {
+    if (!can(c.get('role'), action)) {
+      return forbidden(c, action);
+    }
+    await next();
+  };
+}
+
+function forbidden(c: Context<AppEnv>, action: Action) {
+  return c.json({ error: 'Forbidden: insufficient permissions', action }, 403);
+}
+
+// Resolves the caller's role on a project; null when they are not a member
+function callerProjectRole(c: Context<AppEnv>, projectId: string) {
+  return getProjectRole(c.get('user').id, c.get('role'), projectId);
+}
+
+// Middleware for /projects/:id routes: checks the action against the caller's role on that project.
+// Projects the caller is not a member of look missing.
+function requireProjectPermission(action: Action) {
+  return async (c: Context<AppEnv>, next: Next) => {
+    try {
+      const role = await callerProjectRole(c, c.req.param('id'));
+      if (!role) {
+        return c.json({ error: 'Project not found' }, 404);
+      }
+      if (!can(role, action)) {
+        return forbidden(c, action);
+      }
+    } catch (error) {
+      console.log('Project permission error:', error);
+      return c.json({ error: 'Internal server error while checking permissions' }, 500);
+    }
+    await next();
+  };
+}
+
+// Middleware for /defects/:id routes: checks the action against the caller's role on the
+// defect's project and stores that role on the context. Defects of other projects look missing.
+function requireDefectPermission(action: Action) {
+  return async (c: Context<AppEnv>, next: Next) => {
+    try {
+      const defect = await kv.get(`defect:${c.req.param('id')}`);
+      const role = defect ? await callerProjectRole(c, defect.projectId) : null;
+      if (!role) {
+        return c.json({ error: 'Defect not found' }, 404);
+      }
+      if (!can(role, action)) {
+        return forbidden(c, action);
+      }
+      c.set('projectRole', role);
+    } catch (error) {
+      console.log('Defect permission error:', error);
+      return c.json({ error: 'Internal server error while checking permissions' }, 500);
+    }
+    await next();
+  };
 }
 
 // Health check endpoint
@@ -49,74 +196,82 @@ app.get("/make-server-090ebd00/health", (c) => {
 // User registration
 app.post("/make-server-090ebd00/signup", async (c) => {
   try {
-    const { email, password, name } = await c.req.json();
+    const { email, password, name } = await parseBody(c, signupSchema);
     
     // All new users are created as observers
     const role = 'observer';
     
-    const { data, error } = await supabase.auth.admin.createUser({
-      email,
-      password,
-      user_metadata: { name, role },
-      // Automatically confirm the user's email since an email server hasn't been configured.
-      email_confirm: true
-    });
-
-    if (error) {
-      console.log('Signup error:', error);
-      return c.json({ error: error.message }, 400);
-    }
+    const user = await getAuthProvider().createUser(email, password, { name, role });
 
     // Store user profile in KV store
-    await kv.set(`user:${data.user.id}`, {
-      id: data.user.id,
+    await kv.set(`user:${user.id}`, {
+      id: user.id,
       email,
       name,
       role,
       createdAt: new Date().toISOString()
     });
 
-    return c.json({ user: data.user });
+    return c.json({ user });
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationFailed(c, error);
+    }
+    if (error instanceof AuthError) {
+      console.log('Signup error:', error.message);
+      return c.json({ error: error.message }, 400);
+    }
     console.log('Signup error:', error);
     return c.json({ error: 'Internal server error during signup' }, 500);
   }
 });
 
-// Projects endpoints
-app.get("/make-server-090ebd00/projects", async (c) => {
+// Password sign-in for providers that manage passwords themselves (AUTH_PROVIDER=local).
+// With Supabase Auth the client signs in against Supabase directly.
+app.post("/make-server-090ebd00/login", async (c) => {
   try {
-    const accessToken = c.req.header('Authorization')?.split(' ')[1];
-    if (!accessToken) {
-      return c.json({ error: 'Unauthorized' }, 401);
+    const provider = getAuthProvider();
+    if (!provider.signIn) {
+      return c.json({ error: 'Password sign-in is handled by Supabase Auth' }, 400);
     }
 
-    const user = await verifyAuth(accessToken);
-    if (!user) {
-      return c.json({ error: 'Unauthorized' }, 401);
+    const { email, password } = await parseBody(c, loginSchema);
+    const session = await provider.signIn(email, password);
+    return c.json(session);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationFailed(c, error);
     }
+    if (error instanceof AuthError) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.log('Login error:', error);
+    return c.json({ error: 'Internal server error during login' }, 500);
+  }
+});
 
+// Projects endpoints
+app.get("/make-server-090ebd00/projects", requirePermission('projects:read'), async (c) => {
+  try {
     const projects = await kv.getByPrefix('project:');
-    return c.json({ projects });
+
+    // Each project carries the caller's role on it so the UI can show the right actions
+    const accessible = await getAccessibleProjects(c.get('user').id, c.get('role'));
+    const visible = accessible ? projects.filter((project) => accessible.has(project.id)) : projects;
+    return c.json({
+      projects: visible.map((project) => ({ ...project, myRole: accessible?.get(project.id) ?? 'admin' }))
+    });
   } catch (error) {
     console.log('Get projects error:', error);
     return c.json({ error: 'Internal server error while fetching projects' }, 500);
   }
 });
 
-app.post("/make-server-090ebd00/projects", async (c) => {
+app.post("/make-server-090ebd00/projects", requirePermission('projects:create'), async (c) => {
   try {
-    const accessToken = c.req.header('Authorization')?.split(' ')[1];
-    if (!accessToken) {
-      return c.json({ error: 'Unauthorized' }, 401);
-    }
+    const user = c.get('user');
 
-    const user = await verifyAuth(accessToken);
-    if (!user) {
-      return c.json({ error: 'Unauthorized' }, 401);
-    }
-
-    const { name, description, startDate, endDate } = await c.req.json();
+    const { name, description, startDate, endDate, slaPolicy } = await parseBody(c, createProjectSchema);
     const projectId = crypto.randomUUID();
     
     const project = {
@@ -125,54 +280,319 @@ app.post("/make-server-090ebd00/projects", async (c) => {
       description,
       startDate,
       endDate,
+      slaPolicy: slaPolicy ?? null,
       createdBy: user.id,
       createdAt: new Date().toISOString(),
       status: 'active'
     };
 
     await kv.set(`project:${projectId}`, project);
-    return c.json({ project });
+
+    // Admins see every project already; anyone else manages the project they created
+    if (c.get('role') !== 'admin') {
+      await saveMembership({
+        projectId,
+        userId: user.id,
+        role: 'manager',
+        addedBy: user.id,
+        addedAt: new Date().toISOString()
+      });
+    }
+
+    await emitWebhookEvent('project.created', { project });
+
+    return c.json({ project: { ...project, myRole: c.get('role') === 'admin' ? 'admin' : 'manager' } });
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationFailed(c, error);
+    }
     console.log('Create project error:', error);
     return c.json({ error: 'Internal server error while creating project' }, 500);
   }
 });
 
+app.put("/make-server-090ebd00/projects/:id", requireProjectPermission('projects:update'), async (c) => {
+  try {
+    const user = c.get('user');
+    const projectId = c.req.param('id');
+    const updates = await parseBody(c, updateProjectSchema);
+
+    const project = await kv.get(`project:${projectId}`);
+    if (!project) {
+      return c.json({ error: 'Project not found' }, 404);
+    }
+
+    const updatedProject = {
+      ...project,
+      ...updates,
+      updatedBy: user.id,
+      updatedAt: new Date().toISOString()
+    };
+
+    // Only one of the dates may have been sent, so check them against the stored ones too
+    if (!projectDatesInOrder(updatedProject)) {
+      throw new ValidationError({ endDate: DATES_OUT_OF_ORDER.message });
+    }
+
+    await kv.set(`project:${projectId}`, updatedProject);
+    return c.json({ project: updatedProject });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationFailed(c, error);
+    }
+    console.log('Update project error:', error);
+    return c.json({ error: 'Internal server error while updating project' }, 500);
+  }
+});
+
+// Archived projects stay readable but no longer accept new defects
+app.post("/make-server-090ebd00/projects/:id/archive", requireProjectPermission('projects:update'), async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const project = await kv.get(`project:${projectId}`);
+    if (!project) {
+      return c.json({ error: 'Project not found' }, 404);
+    }
+
+    const updatedProject = {
+      ...project,
+      archivedAt: new Date().toISOString(),
+      archivedBy: c.get('user').id
+    };
+
+    await kv.set(`project:${projectId}`, updatedProject);
+    return c.json({ project: updatedProject });
+  } catch (error) {
+    console.log('Archive project error:', error);
+    return c.json({ error: 'Internal server error while archiving project' }, 500);
+  }
+});
+
+app.post("/make-server-090ebd00/projects/:id/restore", requireProjectPermission('projects:update'), async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const project = await kv.get(`project:${projectId}`);
+    if (!project) {
+      return c.json({ error: 'Project not found' }, 404);
+    }
+
+    const updatedProject = {
+      ...project,
+      archivedAt: null,
+      archivedBy: null
+    };
+
+    await kv.set(`project:${projectId}`, updatedProject);
+    return c.json({ project: updatedProject });
+  } catch (error) {
+    console.log('Restore project error:', error);
+    return c.json({ error: 'Internal server error while restoring project' }, 500);
+  }
+});
+
+// Projects with defects are only deleted with ?cascade=true, which deletes the defects as well
+app.delete("/make-server-090ebd00/projects/:id", requirePermission('projects:delete'), async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const project = await kv.get(`project:${projectId}`);
+    if (!project) {
+      return c.json({ error: 'Project not found' }, 404);
+    }
+
+    const defects = await getDefectsBy('project', projectId);
+    if (defects.length > 0 && c.req.query('cascade') !== 'true') {
+      return c.json({ error: 'Project has defects', defectCount: defects.length }, 409);
+    }
+
+    for (const defect of defects) {
+      await purgeDefect(defect);
+    }
+    await deleteProjectMemberships(projectId);
+    await kv.del(`project:${projectId}`);
+
+    return c.json({ success: true, deletedDefects: defects.length });
+  } catch (error) {
+    console.log('Delete project error:', error);
+    return c.json({ error: 'Internal server error while deleting project' }, 500);
+  }
+});
+
+// Project members endpoints
+app.get("/make-server-090ebd00/projects/:id/members", requireProjectPermission('projects:read'), async (c) => {
+  try {
+    const members = await getProjectMembers(c.req.param('id'));
+    return c.json({ members });
+  } catch (error) {
+    console.log('Get project members error:', error);
+    return c.json({ error: 'Internal server error while fetching project members' }, 500);
+  }
+});
+
+// Adds a member or changes their role on the project
+app.put("/make-server-090ebd00/projects/:id/members/:userId", requireProjectPermission('projects:manageMembers'), async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const userId = c.req.param('userId');
+    const { role } = await parseBody(c, memberRoleSchema);
+
+    if (!await kv.get(`user:${userId}`)) {
+      return c.json({ error: 'User not found' }, 404);
+    }
+
+    const existing = await getMembership(projectId, userId);
+    const membership = {
+      projectId,
+      userId,
+      role,
+      addedBy: existing?.addedBy ?? c.get('user').id,
+      addedAt: existing?.addedAt ?? new Date().toISOString()
+    };
+
+    await saveMembership(membership);
+    return c.json({ member: membership });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationFailed(c, error);
+    }
+    console.log('Update project member error:', error);
+    return c.json({ error: 'Internal server error while updating project member' }, 500);
+  }
+});
+
+app.delete("/make-server-090ebd00/projects/:id/members/:userId", requireProjectPermission('projects:manageMembers'), async (c) => {
+  try {
+    const projectId = c.req.param('id');
+    const userId = c.req.param('userId');
+
+    if (!await getMembership(projectId, userId)) {
+      return c.json({ error: 'Member not found' }, 404);
+    }
+
+    await deleteMembership(projectId, userId);
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Remove project member error:', error);
+    return c.json({ error: 'Internal server error while removing project member' }, 500);
+  }
+});
+
 // Defects endpoints
-app.get("/make-server-090ebd00/defects", async (c) => {
+
+// Removes a defect together with its indexes, attachment files and history
+const purgeDefect = async (defect: any) => {
+  await deleteDefect(defect);
+
+  const attachmentPaths = (defect.attachments || []).flatMap((attachment: any) =>
+    [attachment.path, attachment.thumbnailPath].filter(Boolean)
+  );
+  await getFileStorage().remove(attachmentPaths);
+
+  const history = await kv.getByPrefix(`history:${defect.id}:`);
+  if (history.length > 0) {
+    await kv.mdel(history.map((entry) => `history:${defect.id}:${entry.id}`));
+  }
+};
+
+// Every edit through PUT bumps the version; it is exposed as the ETag and checked against If-Match
+const defectEtag = (defect: any) => `"${defect.version ?? 1}"`;
+
+const matchesEtag = (ifMatch: string, etag: string) =>
+  ifMatch.split(',').some((tag) => {
+    const value = tag.trim().replace(/^W\//, '');
+    return value === '*' || value === etag;
+  });
+
+app.get("/make-server-090ebd00/defects", requirePermission('defects:read'), async (c) => {
   try {
-    const accessToken = c.req.header('Authorization')?.split(' ')[1];
-    if (!accessToken) {
-      return c.json({ error: 'Unauthorized' }, 401);
+    const query = parseDefectQuery(c.req.query());
+
+    // "me" is a shortcut for defects assigned to the caller
+    if (query.assignee === 'me') {
+      query.assignee = c.get('user').id;
     }
 
-    const user = await verifyAuth(accessToken);
-    if (!user) {
-      return c.json({ error: 'Unauthorized' }, 401);
+    // Only defects of the caller's projects are listed
+    const accessible = await getAccessibleProjects(c.get('user').id, c.get('role'));
+    if (accessible && query.projectId && !accessible.has(query.projectId)) {
+      return c.json(queryDefects([], query));
     }
 
-    const defects = await kv.getByPrefix('defect:');
-    return c.json({ defects });
+    const defects = await loadDefectsForQuery(query, accessible);
+    const visible = accessible ? defects.filter((defect) => accessible.has(defect.projectId)) : defects;
+    return c.json(queryDefects(visible, query));
   } catch (error) {
     console.log('Get defects error:', error);
     return c.json({ error: 'Internal server error while fetching defects' }, 500);
   }
 });
 
-app.post("/make-server-090ebd00/defects", async (c) => {
+// Search results per request
+const MAX_SEARCH_RESULTS = 50;
+
+// Full-text search over the titles, descriptions and comments of the caller's defects and
+// the names of their projects. Results are ranked, with highlighted snippets.
+app.get("/make-server-090ebd00/search", requirePermission('defects:read'), async (c) => {
   try {
-    const accessToken = c.req.header('Authorization')?.split(' ')[1];
-    if (!accessToken) {
-      return c.json({ error: 'Unauthorized' }, 401);
+    const q = c.req.query('q')?.trim();
+    if (!q) {
+      throw new ValidationError({ q: 'Введите поисковый запрос' });
     }
+    const projectId = c.req.query('projectId');
+    const limit = Math.min(Number(c.req.query('limit')) || 20, MAX_SEARCH_RESULTS);
 
-    const user = await verifyAuth(accessToken);
-    if (!user) {
-      return c.json({ error: 'Unauthorized' }, 401);
+    const accessible = await getAccessibleProjects(c.get('user').id, c.get('role'));
+    if (accessible && projectId && !accessible.has(projectId)) {
+      return c.json({ results: [], total: 0 });
+    }
+
+    const defects = projectId
+      ? await getDefectsBy('project', projectId)
+      : accessible ? await getDefectsInProjects(accessible.keys()) : await kv.getByPrefix('defect:');
+    const visible = accessible ? defects.filter((defect) => accessible.has(defect.projectId)) : defects;
+    const projects = await kv.getByPrefix('project:');
+    const projectNames = new Map<string, string>(projects.map((project) => [project.id, project.name]));
+
+    const results = searchDefects(visible, projectNames, q);
+    return c.json({
+      results: results.slice(0, limit).map(({ defect, score, snippets }) => ({
+        defect: {
+          id: defect.id,
+          title: defect.title,
+          status: defect.status,
+          priority: defect.priority,
+          projectId: defect.projectId,
+          assignee: defect.assignee,
+          dueDate: defect.dueDate,
+          updatedAt: defect.updatedAt
+        },
+        score,
+        snippets
+      })),
+      total: results.length
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationFailed(c, error);
+    }
+    console.log('Search error:', error);
+    return c.json({ error: 'Internal server error while searching' }, 500);
+  }
+});
+
+app.post("/make-server-090ebd00/defects", async (c) => {
+  try {
+    const user = c.get('user');
+
+    const { title, description, priority, assignee, projectId, dueDate } = await parseBody(c, createDefectSchema);
+    await checkDefectReferences({ projectId, assignee });
+
+    if (!can(await callerProjectRole(c, projectId), 'defects:create')) {
+      return forbidden(c, 'defects:create');
     }
+    await checkAssigneeAccess(assignee, projectId);
 
-    const { title, description, priority, assignee, projectId, dueDate } = await c.req.json();
     const defectId = crypto.randomUUID();
+    const createdAt = new Date().toISOString();
     
     const defect = {
       id: defectId,
@@ -181,15 +601,17 @@ app.post("/make-server-090ebd00/defects", async (c) => {
       priority,
       assignee,
       projectId,
-      dueDate,
-      status: 'Новая',
+      status: INITIAL_STATUS,
+      version: 1,
       createdBy: user.id,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+      createdAt,
+      updatedAt: createdAt,
+      // Fills in the due date from the SLA unless one was picked
+      ...await slaFieldsForNewDefect({ priority, projectId, dueDate, createdAt }),
       comments: []
     };
 
-    await kv.set(`defect:${defectId}`, defect);
+    await saveDefect(defect);
     
     // Create history entry
     const historyEntry = {
@@ -202,73 +624,162 @@ app.post("/make-server-090ebd00/defects", async (c) => {
     };
     
     await kv.set(`history:${defectId}:${historyEntry.id}`, historyEntry);
+
+    await notify([assignee], {
+      type: 'assigned',
+      defect,
+      message: `Вам назначен дефект «${title}»`,
+      actorId: user.id
+    });
+
+    await emitWebhookEvent('defect.created', { defect });
     
     return c.json({ defect });
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationFailed(c, error);
+    }
     console.log('Create defect error:', error);
     return c.json({ error: 'Internal server error while creating defect' }, 500);
   }
 });
 
-app.put("/make-server-090ebd00/defects/:id", async (c) => {
+// Bulk import from the import wizard. With dryRun only the per-row errors are reported;
+// otherwise every row must be valid. Imported defects send no notifications or webhooks.
+app.post("/make-server-090ebd00/defects/import", async (c) => {
   try {
-    const accessToken = c.req.header('Authorization')?.split(' ')[1];
-    if (!accessToken) {
-      return c.json({ error: 'Unauthorized' }, 401);
+    const user = c.get('user');
+
+    const { projectId, dryRun, rows } = await parseBody(c, importDefectsSchema);
+    await checkDefectReferences({ projectId });
+
+    if (!can(await callerProjectRole(c, projectId), 'defects:create')) {
+      return forbidden(c, 'defects:create');
     }
 
-    const user = await verifyAuth(accessToken);
-    if (!user) {
-      return c.json({ error: 'Unauthorized' }, 401);
+    const { valid, errors } = await validateImportRows(projectId, rows);
+    if (dryRun) {
+      return c.json({ dryRun: true, valid: valid.length, errors });
+    }
+    if (errors.length > 0) {
+      return c.json({ error: 'Some rows are invalid', valid: valid.length, errors }, 400);
+    }
+
+    const defects = await importDefects(projectId, valid, user.id);
+    return c.json({ created: defects.length });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationFailed(c, error);
+    }
+    console.log('Import defects error:', error);
+    return c.json({ error: 'Internal server error while importing defects' }, 500);
+  }
+});
+
+// Bulk changes from the defect list. Each defect is checked and saved as through PUT /defects/:id,
+// one at a time, so some may fail while the rest are saved; failures come back with their reasons.
+app.post("/make-server-090ebd00/defects/bulk", async (c) => {
+  try {
+    const user = c.get('user');
+
+    const { ids, updates } = await parseBody(c, bulkUpdateDefectsSchema);
+
+    const saved: DefectUpdate[] = [];
+    const failed: Record<string, unknown>[] = [];
+    for (const id of new Set(ids)) {
+      try {
+        const existingDefect = await kv.get(`defect:${id}`);
+        const projectRole = existingDefect ? await callerProjectRole(c, existingDefect.projectId) : null;
+        // Defects of other projects look missing, as with the single-defect routes
+        if (!projectRole) {
+          throw new DefectUpdateError(404, { error: 'Defect not found' });
+        }
+        if (!can(projectRole, 'defects:update')) {
+          throw forbiddenUpdate('defects:update');
+        }
+
+        // The client groups defects by the fields their transition requires, so a resolution or
+        // reopen reason sent for any other defect is a mistake rather than something to drop
+        const required: string[] = findTransition(existingDefect.status, updates.status ?? '')?.requires ?? [];
+        const unexpected = Object.keys(TRANSITION_FIELD_LABELS).filter((name) => name in updates && !required.includes(name));
+        if (unexpected.length > 0) {
+          throw new ValidationError(Object.fromEntries(unexpected.map((name) => [name, 'Не требуется для этого перехода'])));
+        }
+
+        saved.push(await updateDefect(existingDefect, updates, { id: user.id, role: c.get('role'), projectRole }));
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          failed.push({ id, status: 400, error: 'Validation failed', fields: error.fields });
+        } else if (error instanceof DefectUpdateError) {
+          failed.push({ id, status: error.status, ...error.body });
+        } else {
+          // Earlier defects are saved already, so one broken defect must not fail the request
+          console.log(`Bulk update defect ${id} error:`, error);
+          failed.push({ id, status: 500, error: 'Internal server error while updating defect' });
+        }
+      }
+    }
+
+    // Webhooks and notifications go out after the response, not once per defect inside the loop
+    runInBackground('Bulk update announcements', async () => {
+      for (const update of saved) {
+        await announceDefectUpdate(update, user.id);
+      }
+    });
+
+    return c.json({ updated: saved.map((update) => update.defect), failed });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationFailed(c, error);
     }
+    console.log('Bulk update defects error:', error);
+    return c.json({ error: 'Internal server error while updating defects' }, 500);
+  }
+});
+
+app.put("/make-server-090ebd00/defects/:id", requireDefectPermission('defects:update'), async (c) => {
+  try {
+    const user = c.get('user');
 
     const defectId = c.req.param('id');
-    const updates = await c.req.json();
+    const updates: Record<string, any> = await parseBody(c, updateDefectSchema);
     
     const existingDefect = await kv.get(`defect:${defectId}`);
     if (!existingDefect) {
       return c.json({ error: 'Defect not found' }, 404);
     }
 
-    const updatedDefect = {
-      ...existingDefect,
-      ...updates,
-      updatedAt: new Date().toISOString()
-    };
+    // Saving over a newer version would silently drop someone else's edit
+    const ifMatch = c.req.header('If-Match');
+    if (ifMatch && !matchesEtag(ifMatch, defectEtag(existingDefect))) {
+      c.header('ETag', defectEtag(existingDefect));
+      return c.json({ error: 'Defect was modified by another user', defect: existingDefect }, 409);
+    }
 
-    await kv.set(`defect:${defectId}`, updatedDefect);
-    
-    // Create history entry
-    const historyEntry = {
-      id: crypto.randomUUID(),
-      defectId,
-      action: 'updated',
-      userId: user.id,
-      timestamp: new Date().toISOString(),
-      details: `Дефект обновлен: ${Object.keys(updates).join(', ')}`
-    };
-    
-    await kv.set(`history:${defectId}:${historyEntry.id}`, historyEntry);
+    const update = await updateDefect(existingDefect, updates, {
+      id: user.id,
+      role: c.get('role'),
+      projectRole: c.get('projectRole')
+    });
+    await announceDefectUpdate(update, user.id);
+    const updatedDefect = update.defect;
     
+    c.header('ETag', defectEtag(updatedDefect));
     return c.json({ defect: updatedDefect });
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationFailed(c, error);
+    }
+    if (error instanceof DefectUpdateError) {
+      return c.json(error.body, error.status);
+    }
     console.log('Update defect error:', error);
     return c.json({ error: 'Internal server error while updating defect' }, 500);
   }
 });
 
-app.get("/make-server-090ebd00/defects/:id", async (c) => {
+app.get("/make-server-090ebd00/defects/:id", requireDefectPermission('defects:read'), async (c) => {
   try {
-    const accessToken = c.req.header('Authorization')?.split(' ')[1];
-    if (!accessToken) {
-      return c.json({ error: 'Unauthorized' }, 401);
-    }
-
-    const user = await verifyAuth(accessToken);
-    if (!user) {
-      return c.json({ error: 'Unauthorized' }, 401);
-    }
-
     const defectId = c.req.param('id');
     const defect = await kv.get(`defect:${defectId}`);
     
@@ -278,28 +789,39 @@ app.get("/make-server-090ebd00/defects/:id", async (c) => {
 
     const history = await kv.getByPrefix(`history:${defectId}:`);
     
-    return c.json({ defect, history });
+    c.header('ETag', defectEtag(defect));
+    return c.json({ defect, history, role: c.get('projectRole') });
   } catch (error) {
     console.log('Get defect error:', error);
     return c.json({ error: 'Internal server error while fetching defect' }, 500);
   }
 });
 
-// Add comment to defect
-app.post("/make-server-090ebd00/defects/:id/comments", async (c) => {
+app.delete("/make-server-090ebd00/defects/:id", requireDefectPermission('defects:delete'), async (c) => {
   try {
-    const accessToken = c.req.header('Authorization')?.split(' ')[1];
-    if (!accessToken) {
-      return c.json({ error: 'Unauthorized' }, 401);
+    const defectId = c.req.param('id');
+    const defect = await kv.get(`defect:${defectId}`);
+    
+    if (!defect) {
+      return c.json({ error: 'Defect not found' }, 404);
     }
 
-    const user = await verifyAuth(accessToken);
-    if (!user) {
-      return c.json({ error: 'Unauthorized' }, 401);
-    }
+    await purgeDefect(defect);
+    
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Delete defect error:', error);
+    return c.json({ error: 'Internal server error while deleting defect' }, 500);
+  }
+});
+
+// Add comment to defect
+app.post("/make-server-090ebd00/defects/:id/comments", requireDefectPermission('comments:create'), async (c) => {
+  try {
+    const user = c.get('user');
 
     const defectId = c.req.param('id');
-    const { comment } = await c.req.json();
+    const { comment } = await parseBody(c, commentSchema);
     
     const defect = await kv.get(`defect:${defectId}`);
     if (!defect) {
@@ -313,74 +835,275 @@ app.post("/make-server-090ebd00/defects/:id/comments", async (c) => {
       timestamp: new Date().toISOString()
     };
 
-    defect.comments = defect.comments || [];
-    defect.comments.push(newComment);
+    const updatedDefect = {
+      ...defect,
+      comments: [...(defect.comments || []), newComment]
+    };
     
-    await kv.set(`defect:${defectId}`, defect);
+    await saveDefect(updatedDefect, defect);
+
+    // Everyone involved in the discussion hears about new comments
+    await notify([defect.assignee, defect.createdBy, ...(defect.comments || []).map((c: any) => c.author)], {
+      type: 'comment',
+      defect,
+      message: `Новый комментарий к дефекту «${defect.title}»`,
+      actorId: user.id
+    });
+
+    await emitWebhookEvent('comment.added', { defectId: defect.id, comment: newComment });
     
     return c.json({ comment: newComment });
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationFailed(c, error);
+    }
     console.log('Add comment error:', error);
     return c.json({ error: 'Internal server error while adding comment' }, 500);
   }
 });
 
-// Analytics endpoint
-app.get("/make-server-090ebd00/analytics", async (c) => {
+// Attachments endpoints
+const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024;
+
+app.post("/make-server-090ebd00/defects/:id/attachments", requireDefectPermission('attachments:create'), async (c) => {
   try {
-    const accessToken = c.req.header('Authorization')?.split(' ')[1];
-    if (!accessToken) {
-      return c.json({ error: 'Unauthorized' }, 401);
+    const user = c.get('user');
+    const defectId = c.req.param('id');
+    
+    const defect = await kv.get(`defect:${defectId}`);
+    if (!defect) {
+      return c.json({ error: 'Defect not found' }, 404);
     }
 
-    const user = await verifyAuth(accessToken);
-    if (!user) {
-      return c.json({ error: 'Unauthorized' }, 401);
+    const body = await c.req.parseBody();
+    const file = body['file'];
+    const thumbnail = body['thumbnail'];
+    if (!(file instanceof File)) {
+      return c.json({ error: 'File is required' }, 400);
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      return c.json({ error: 'File is too large (max 20 MB)' }, 400);
     }
 
-    const defects = await kv.getByPrefix('defect:');
-    
-    const statusCount = {};
-    const priorityCount = {};
-    let totalDefects = 0;
-    let overdue = 0;
-    
-    for (const defect of defects) {
-      totalDefects++;
-      
-      statusCount[defect.status] = (statusCount[defect.status] || 0) + 1;
-      priorityCount[defect.priority] = (priorityCount[defect.priority] || 0) + 1;
-      
-      if (defect.dueDate && new Date(defect.dueDate) < new Date() && defect.status !== 'Закрыта') {
-        overdue++;
+    const data = new Uint8Array(await file.arrayBuffer());
+    const mimeType = normalizeMimeType(file.type);
+    if (!matchesDeclaredType(mimeType, data)) {
+      return c.json({ error: `File content does not match its type ${mimeType}` }, 400);
+    }
+
+    const attachmentId = crypto.randomUUID();
+    const storage = getFileStorage();
+    const attachment: any = {
+      id: attachmentId,
+      name: file.name,
+      size: file.size,
+      mimeType,
+      uploadedBy: user.id,
+      uploadedAt: new Date().toISOString(),
+      path: `${defectId}/${attachmentId}`
+    };
+
+    await storage.put(attachment.path, data, mimeType);
+
+    // Thumbnails are rendered by the client; only images shown inline are accepted
+    if (thumbnail instanceof File && thumbnail.size <= MAX_ATTACHMENT_SIZE) {
+      const thumbnailType = normalizeMimeType(thumbnail.type);
+      const thumbnailData = new Uint8Array(await thumbnail.arrayBuffer());
+      if (thumbnailType.startsWith('image/') && isInlineType(thumbnailType) && matchesDeclaredType(thumbnailType, thumbnailData)) {
+        attachment.thumbnailPath = `${defectId}/${attachmentId}-thumbnail`;
+        attachment.thumbnailMimeType = thumbnailType;
+        await storage.put(attachment.thumbnailPath, thumbnailData, thumbnailType);
       }
     }
+
+    // Re-read the defect so concurrent uploads do not drop each other's metadata
+    const currentDefect = await kv.get(`defect:${defectId}`) ?? defect;
+    const updatedDefect = {
+      ...currentDefect,
+      attachments: [...(currentDefect.attachments || []), attachment],
+      updatedAt: new Date().toISOString()
+    };
+    await saveDefect(updatedDefect, currentDefect);
+
+    const historyEntry = {
+      id: crypto.randomUUID(),
+      defectId,
+      action: 'attachment_added',
+      userId: user.id,
+      timestamp: new Date().toISOString(),
+      details: `Добавлен файл: ${attachment.name}`
+    };
     
-    return c.json({
-      totalDefects,
-      overdue,
-      statusCount,
-      priorityCount
+    await kv.set(`history:${defectId}:${historyEntry.id}`, historyEntry);
+
+    return c.json({ attachment });
+  } catch (error) {
+    console.log('Upload attachment error:', error);
+    return c.json({ error: 'Internal server error while uploading attachment' }, 500);
+  }
+});
+
+app.get("/make-server-090ebd00/defects/:id/attachments/:attachmentId", requireDefectPermission('defects:read'), async (c) => {
+  try {
+    const defectId = c.req.param('id');
+    const defect = await kv.get(`defect:${defectId}`);
+    const attachment = defect?.attachments?.find((a: any) => a.id === c.req.param('attachmentId'));
+    if (!attachment) {
+      return c.json({ error: 'Attachment not found' }, 404);
+    }
+
+    const useThumbnail = c.req.query('variant') === 'thumbnail' && attachment.thumbnailPath;
+    const data = await getFileStorage().get(useThumbnail ? attachment.thumbnailPath : attachment.path);
+    if (!data) {
+      return c.json({ error: 'Attachment file not found' }, 404);
+    }
+
+    // Files uploaded before types were checked are only shown inline if they still pass the check
+    const mimeType = normalizeMimeType(useThumbnail ? attachment.thumbnailMimeType : attachment.mimeType);
+    return c.body(data, 200, {
+      ...attachmentHeaders(attachment.name, matchesDeclaredType(mimeType, data) ? mimeType : 'application/octet-stream'),
+      'Cache-Control': 'private, max-age=3600'
     });
+  } catch (error) {
+    console.log('Download attachment error:', error);
+    return c.json({ error: 'Internal server error while downloading attachment' }, 500);
+  }
+});
+
+app.delete("/make-server-090ebd00/defects/:id/attachments/:attachmentId", requireDefectPermission('attachments:create'), async (c) => {
+  try {
+    const user = c.get('user');
+    const defectId = c.req.param('id');
+    const attachmentId = c.req.param('attachmentId');
+    
+    const defect = await kv.get(`defect:${defectId}`);
+    const attachment = defect?.attachments?.find((a: any) => a.id === attachmentId);
+    if (!attachment) {
+      return c.json({ error: 'Attachment not found' }, 404);
+    }
+
+    // Uploaders may remove their own files; removing others' needs a wider permission
+    if (attachment.uploadedBy !== user.id && !can(c.get('projectRole'), 'attachments:deleteAny')) {
+      return forbidden(c, 'attachments:deleteAny');
+    }
+
+    await getFileStorage().remove([attachment.path, attachment.thumbnailPath].filter(Boolean));
+
+    const updatedDefect = {
+      ...defect,
+      attachments: defect.attachments.filter((a: any) => a.id !== attachmentId),
+      updatedAt: new Date().toISOString()
+    };
+    await saveDefect(updatedDefect, defect);
+
+    const historyEntry = {
+      id: crypto.randomUUID(),
+      defectId,
+      action: 'attachment_removed',
+      userId: user.id,
+      timestamp: new Date().toISOString(),
+      details: `Удален файл: ${attachment.name}`
+    };
+    
+    await kv.set(`history:${defectId}:${historyEntry.id}`, historyEntry);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Delete attachment error:', error);
+    return c.json({ error: 'Internal server error while deleting attachment' }, 500);
+  }
+});
+
+// Defects visible to the caller that match the analytics filters. Analytics accepts the
+// defect list filters; the date range is createdFrom / createdTo.
+const loadFilteredAnalyticsDefects = async (c: Context<AppEnv>, now: Date) => {
+  const query = parseDefectQuery(c.req.query());
+  if (query.assignee === 'me') {
+    query.assignee = c.get('user').id;
+  }
+
+  const accessible = await getAccessibleProjects(c.get('user').id, c.get('role'));
+  return (await loadAnalyticsDefects(accessible)).filter((defect) => matchesDefectQuery(defect, query, now));
+};
+
+// Analytics endpoint
+app.get("/make-server-090ebd00/analytics", requirePermission('analytics:read'), async (c) => {
+  try {
+    const now = new Date();
+    const defects = await loadFilteredAnalyticsDefects(c, now);
+    
+    return c.json(summarizeDefects(defects, now));
   } catch (error) {
     console.log('Analytics error:', error);
     return c.json({ error: 'Internal server error while fetching analytics' }, 500);
   }
 });
 
-// Get users
-app.get("/make-server-090ebd00/users", async (c) => {
+// Time to close, time in status, reopen rate and first response, from the defect history
+app.get("/make-server-090ebd00/analytics/lifecycle", requirePermission('analytics:read'), async (c) => {
   try {
-    const accessToken = c.req.header('Authorization')?.split(' ')[1];
-    if (!accessToken) {
-      return c.json({ error: 'Unauthorized' }, 401);
+    const now = new Date();
+    const defects = await loadFilteredAnalyticsDefects(c, now);
+    const history = await loadHistoryByDefect(defects);
+
+    return c.json(summarizeLifecycle(defects, history, now));
+  } catch (error) {
+    console.log('Lifecycle analytics error:', error);
+    return c.json({ error: 'Internal server error while fetching lifecycle analytics' }, 500);
+  }
+});
+
+// Notifications endpoints
+app.get("/make-server-090ebd00/notifications", async (c) => {
+  try {
+    const limit = Math.min(Number(c.req.query('limit')) || 50, 100);
+    return c.json(await listNotifications(c.get('user').id, { unreadOnly: c.req.query('unread') === 'true', limit }));
+  } catch (error) {
+    console.log('Get notifications error:', error);
+    return c.json({ error: 'Internal server error while fetching notifications' }, 500);
+  }
+});
+
+app.post("/make-server-090ebd00/notifications/read", async (c) => {
+  try {
+    const { ids } = await parseBody(c, markNotificationsReadSchema);
+    const updated = await markRead(c.get('user').id, ids);
+    return c.json({ updated });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationFailed(c, error);
     }
+    console.log('Mark notifications read error:', error);
+    return c.json({ error: 'Internal server error while updating notifications' }, 500);
+  }
+});
 
-    const user = await verifyAuth(accessToken);
-    if (!user) {
-      return c.json({ error: 'Unauthorized' }, 401);
+// Notification settings of the caller
+app.get("/make-server-090ebd00/settings/notifications", async (c) => {
+  try {
+    return c.json({ settings: await getNotificationSettings(c.get('user').id) });
+  } catch (error) {
+    console.log('Get notification settings error:', error);
+    return c.json({ error: 'Internal server error while fetching settings' }, 500);
+  }
+});
+
+app.put("/make-server-090ebd00/settings/notifications", async (c) => {
+  try {
+    const changes = await parseBody(c, notificationSettingsSchema);
+    return c.json({ settings: await saveNotificationSettings(c.get('user').id, changes) });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationFailed(c, error);
     }
+    console.log('Update notification settings error:', error);
+    return c.json({ error: 'Internal server error while updating settings' }, 500);
+  }
+});
 
+// Get users
+app.get("/make-server-090ebd00/users", requirePermission('users:read'), async (c) => {
+  try {
     const users = await kv.getByPrefix('user:');
     return c.json({ users });
   } catch (error) {
@@ -390,32 +1113,10 @@ app.get("/make-server-090ebd00/users", async (c) => {
 });
 
 // Update user role (admin only)
-app.put("/make-server-090ebd00/users/:id/role", async (c) => {
+app.put("/make-server-090ebd00/users/:id/role", requirePermission('users:manageRoles'), async (c) => {
   try {
-    const accessToken = c.req.header('Authorization')?.split(' ')[1];
-    if (!accessToken) {
-      return c.json({ error: 'Unauthorized' }, 401);
-    }
-
-    const adminUser = await verifyAuth(accessToken);
-    if (!adminUser) {
-      return c.json({ error: 'Unauthorized' }, 401);
-    }
-
-    // Check if the user has admin privileges
-    const adminProfile = await kv.get(`user:${adminUser.id}`);
-    if (!adminProfile || adminProfile.role !== 'admin') {
-      return c.json({ error: 'Forbidden: Admin access required' }, 403);
-    }
-
     const userId = c.req.param('id');
-    const { role } = await c.req.json();
-
-    // Validate role
-    const validRoles = ['observer', 'engineer', 'manager', 'admin'];
-    if (!validRoles.includes(role)) {
-      return c.json({ error: 'Invalid role' }, 400);
-    }
+    const { role } = await parseBody(c, roleSchema);
 
     // Get user profile
     const userProfile = await kv.get(`user:${userId}`);
@@ -431,20 +1132,205 @@ app.put("/make-server-090ebd00/users/:id/role", async (c) => {
     };
 
     await kv.set(`user:${userId}`, updatedProfile);
+    invalidateUser(userId);
 
-    // Update Supabase auth metadata
-    await supabase.auth.admin.updateUserById(userId, {
-      user_metadata: {
-        ...userProfile,
-        role
-      }
+    // Update auth provider metadata
+    await getAuthProvider().updateUserMetadata(userId, {
+      ...userProfile,
+      role
     });
 
     return c.json({ user: updatedProfile });
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationFailed(c, error);
+    }
     console.log('Update user role error:', error);
     return c.json({ error: 'Internal server error while updating user role' }, 500);
   }
 });
 
-Deno.serve(app.fetch);
\ No newline at end of file
+// Rebuild secondary indexes from stored data (admin only)
+app.post("/make-server-090ebd00/admin/reindex", requirePermission('admin:maintenance'), async (c) => {
+  try {
+    const result = await rebuildDefectIndexes();
+    return c.json(result);
+  } catch (error) {
+    console.log('Reindex error:', error);
+    return c.json({ error: 'Internal server error while rebuilding indexes' }, 500);
+  }
+});
+
+// One-off migration for data from before project memberships: makes every
+// non-admin user a member of every project, with their global role
+app.post("/make-server-090ebd00/admin/memberships/backfill", requirePermission('admin:maintenance'), async (c) => {
+  try {
+    const [projects, users] = await Promise.all([kv.getByPrefix('project:'), kv.getByPrefix('user:')]);
+    let created = 0;
+
+    for (const project of projects) {
+      for (const user of users) {
+        if (!isRole(user.role) || user.role === 'admin' || await getMembership(project.id, user.id)) {
+          continue;
+        }
+        await saveMembership({
+          projectId: project.id,
+          userId: user.id,
+          role: user.role,
+          addedBy: c.get('user').id,
+          addedAt: new Date().toISOString()
+        });
+        created++;
+      }
+    }
+
+    return c.json({ created });
+  } catch (error) {
+    console.log('Membership backfill error:', error);
+    return c.json({ error: 'Internal server error while creating memberships' }, 500);
+  }
+});
+
+// Webhooks
+app.get("/make-server-090ebd00/webhooks", requirePermission('webhooks:manage'), async (c) => {
+  try {
+    return c.json({ webhooks: await getWebhooks() });
+  } catch (error) {
+    console.log('Get webhooks error:', error);
+    return c.json({ error: 'Internal server error while fetching webhooks' }, 500);
+  }
+});
+
+app.post("/make-server-090ebd00/webhooks", requirePermission('webhooks:manage'), async (c) => {
+  try {
+    const { url, events } = await parseBody(c, createWebhookSchema);
+    const webhook = {
+      id: crypto.randomUUID(),
+      url,
+      events,
+      secret: generateSecret(),
+      active: true,
+      createdBy: c.get('user').id,
+      createdAt: new Date().toISOString()
+    };
+    await saveWebhook(webhook);
+    return c.json({ webhook });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationFailed(c, error);
+    }
+    console.log('Create webhook error:', error);
+    return c.json({ error: 'Internal server error while creating webhook' }, 500);
+  }
+});
+
+app.put("/make-server-090ebd00/webhooks/:id", requirePermission('webhooks:manage'), async (c) => {
+  try {
+    const webhook = await getWebhook(c.req.param('id'));
+    if (!webhook) {
+      return c.json({ error: 'Webhook not found' }, 404);
+    }
+    const updates = await parseBody(c, updateWebhookSchema);
+    const updatedWebhook = { ...webhook, ...updates };
+    await saveWebhook(updatedWebhook);
+    return c.json({ webhook: updatedWebhook });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationFailed(c, error);
+    }
+    console.log('Update webhook error:', error);
+    return c.json({ error: 'Internal server error while updating webhook' }, 500);
+  }
+});
+
+app.delete("/make-server-090ebd00/webhooks/:id", requirePermission('webhooks:manage'), async (c) => {
+  try {
+    const webhookId = c.req.param('id');
+    if (!await getWebhook(webhookId)) {
+      return c.json({ error: 'Webhook not found' }, 404);
+    }
+    await deleteWebhook(webhookId);
+    return c.json({ success: true });
+  } catch (error) {
+    console.log('Delete webhook error:', error);
+    return c.json({ error: 'Internal server error while deleting webhook' }, 500);
+  }
+});
+
+app.get("/make-server-090ebd00/webhooks/:id/deliveries", requirePermission('webhooks:manage'), async (c) => {
+  try {
+    const webhookId = c.req.param('id');
+    if (!await getWebhook(webhookId)) {
+      return c.json({ error: 'Webhook not found' }, 404);
+    }
+    return c.json({ deliveries: await getDeliveries(webhookId) });
+  } catch (error) {
+    console.log('Get webhook deliveries error:', error);
+    return c.json({ error: 'Internal server error while fetching deliveries' }, 500);
+  }
+});
+
+// SLA policy
+app.get("/make-server-090ebd00/sla/policy", async (c) => {
+  try {
+    return c.json({ policy: await getSlaPolicy() });
+  } catch (error) {
+    console.log('Get SLA policy error:', error);
+    return c.json({ error: 'Internal server error while fetching SLA policy' }, 500);
+  }
+});
+
+app.put("/make-server-090ebd00/sla/policy", requirePermission('sla:manage'), async (c) => {
+  try {
+    const policy = await parseBody(c, slaPolicySchema);
+    return c.json({ policy: await saveSlaPolicy(policy) });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return validationFailed(c, error);
+    }
+    console.log('Update SLA policy error:', error);
+    return c.json({ error: 'Internal server error while updating SLA policy' }, 500);
+  }
+});
+
+// Background jobs
+app.get("/make-server-090ebd00/admin/jobs", requirePermission('admin:maintenance'), async (c) => {
+  try {
+    const jobs = await Promise.all(JOBS.map(async (job) => ({
+      name: job.name,
+      schedule: job.schedule,
+      description: job.description,
+      runs: (await getJobRuns(job.name)).slice(0, 10)
+    })));
+    return c.json({ jobs });
+  } catch (error) {
+    console.log('Get jobs error:', error);
+    return c.json({ error: 'Internal server error while fetching jobs' }, 500);
+  }
+});
+
+// Runs a job right away, for hosts without Deno.cron and for tests
+app.post("/make-server-090ebd00/admin/jobs/:name/run", requirePermission('admin:maintenance'), async (c) => {
+  try {
+    const job = findJob(c.req.param('name'));
+    if (!job) {
+      return c.json({ error: 'Job not found' }, 404);
+    }
+    const run = await runJob(job, 'manual');
+    if (!run) {
+      return c.json({ error: 'Job is already running' }, 409);
+    }
+    return c.json({ run });
+  } catch (error) {
+    console.log('Run job error:', error);
+    return c.json({ error: 'Internal server error while running job' }, 500);
+  }
+});
+
+// Tests import the app and call app.request without starting a server or the jobs
+if (import.meta.main) {
+  scheduleJobs();
+  Deno.serve(app.fetch);
+}
+
+export { app };
@@ -0,0 +1,160 @@
+// Scheduled background jobs.
+//
+// Each job has a cron schedule (UTC) and is registered with Deno.cron where the runtime
+// provides it. Hosts without Deno.cron, and tests, run jobs through POST /admin/jobs/:name/run.
+// Every run is recorded under `job_run:<job>:<runId>` with its status and duration.
+import * as kv from "./kv.tsx";
+import { rebuildDefectIndexes } from "./defect_index.tsx";
+import { deleteReadNotificationsBefore, deleteStaleReminderMarkers, remindDueDates } from "./notifications.tsx";
+import { sendDailyDigests } from "./email_notifications.tsx";
+import { deleteDeliveriesBefore, retryDueDeliveries } from "./webhooks.tsx";
+import { escalateSlaBreaches } from "./sla_policies.tsx";
+
+export interface JobDefinition {
+  name: string;
+  schedule: string;
+  description: string;
+  run: (now: Date) => Promise<Record<string, number>>;
+}
+
+export interface JobRun {
+  id: string;
+  job: string;
+  trigger: 'schedule' | 'manual';
+  status: 'running' | 'success' | 'failed';
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  result: Record<string, number> | null;
+  error: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Read notifications, finished webhook deliveries and job runs are kept this long
+const RETENTION_DAYS = 30;
+
+// Runs per job kept in the log
+const MAX_RUNS_PER_JOB = 50;
+
+// A run still marked running after this long is assumed to have died with its instance
+const STALE_RUN_MS = 30 * 60 * 1000;
+
+export const JOBS: JobDefinition[] = [
+  {
+    name: 'due-date-reminders',
+    schedule: '0 * * * *',
+    description: 'Напоминания исполнителям о приближающихся и просроченных сроках',
+    run: async (now) => ({ reminders: await remindDueDates(now) }),
+  },
+  {
+    name: 'sla-escalation',
+    schedule: '*/15 * * * *',
+    description: 'Уведомление менеджеров проектов о нарушениях SLA',
+    run: async (now) => ({ escalated: await escalateSlaBreaches(now) }),
+  },
+  {
+    name: 'daily-digest',
+    schedule: Deno.env.get('DIGEST_CRON') || '0 4 * * *',
+    description: 'Утренняя сводка по открытым и просроченным дефектам на email',
+    run: async (now) => ({ sent: await sendDailyDigests(now) }),
+  },
+  {
+    name: 'webhook-retries',
+    schedule: '* * * * *',
+    description: 'Повторная отправка неудачных доставок вебхуков',
+    run: async (now) => ({ attempted: await retryDueDeliveries(now) }),
+  },
+  {
+    name: 'index-rebuild',
+    schedule: '0 2 * * 0',
+    description: 'Перестроение индексов дефектов',
+    run: async () => rebuildDefectIndexes(),
+  },
+  {
+    name: 'cleanup',
+    schedule: '30 2 * * *',
+    description: `Удаление прочитанных уведомлений, журналов вебхуков и запусков задач старше ${RETENTION_DAYS} дней ` +
+      'и устаревших отметок о напоминаниях',
+    run: async (now) => {
+      const before = new Date(now.getTime() - RETENTION_DAYS * DAY_MS);
+      return {
+        notifications: await deleteReadNotificationsBefore(before),
+        deliveries: await deleteDeliveriesBefore(before),
+        jobRuns: await deleteJobRunsBefore(before),
+        reminderMarkers: await deleteStaleReminderMarkers(),
+      };
+    },
+  },
+];
+
+export const findJob = (name: string): JobDefinition | undefined => JOBS.find((job) => job.name === name);
+
+const runKey = (job: string, id: string) => `job_run:${job}:${id}`;
+
+export const getJobRuns = async (job: string): Promise<JobRun[]> => {
+  const runs: JobRun[] = await kv.getByPrefix(`job_run:${job}:`);
+  return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+};
+
+const deleteJobRunsBefore = async (before: Date): Promise<number> => {
+  const stale = (await kv.getByPrefix('job_run:') as JobRun[])
+    .filter((run) => run.status !== 'running' && new Date(run.startedAt) < before);
+  if (stale.length > 0) {
+    await kv.mdel(stale.map((run) => runKey(run.job, run.id)));
+  }
+  return stale.length;
+};
+
+// Runs a job and records the run. Returns null without running when the previous run of the
+// same job is still going, so a slow run is never overlapped by the next tick.
+export const runJob = async (job: JobDefinition, trigger: JobRun['trigger']): Promise<JobRun | null> => {
+  const runs = await getJobRuns(job.name);
+  const now = new Date();
+  if (runs.some((run) => run.status === 'running' && now.getTime() - new Date(run.startedAt).getTime() < STALE_RUN_MS)) {
+    return null;
+  }
+
+  const run: JobRun = {
+    id: crypto.randomUUID(),
+    job: job.name,
+    trigger,
+    status: 'running',
+    startedAt: now.toISOString(),
+    finishedAt: null,
+    durationMs: null,
+    result: null,
+    error: null,
+  };
+  await kv.set(runKey(job.name, run.id), run);
+
+  let finished: JobRun;
+  try {
+    const result = await job.run(now);
+    finished = { ...run, status: 'success', result };
+  } catch (error) {
+    console.log(`Job ${job.name} error:`, error);
+    finished = { ...run, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const finishedAt = new Date();
+  finished = { ...finished, finishedAt: finishedAt.toISOString(), durationMs: finishedAt.getTime() - now.getTime() };
+  await kv.set(runKey(job.name, run.id), finished);
+
+  if (runs.length >= MAX_RUNS_PER_JOB) {
+    await kv.mdel(runs.slice(MAX_RUNS_PER_JOB - 1).map((old) => runKey(job.name, old.id)));
+  }
+  return finished;
+};
+
+export const scheduleJobs = (): void => {
+  if (typeof Deno.cron !== 'function') {
+    console.log('Deno.cron is unavailable; run jobs through POST /admin/jobs/:name/run');
+    return;
+  }
+  for (const job of JOBS) {
+    Deno.cron(job.name, job.schedule, async () => {
+      await runJob(job, 'schedule');
+    });
+  }
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { KvBackend } from './kv.tsx';
+import { createMemoryBackend } from './kv_memory.tsx';
+
+// node:sqlite needs Node 22.5 or later; Deno always has it
+const sqlite = await import('./kv_sqlite.tsx').catch(() => null);
+
+const backends: [string, (() => KvBackend) | null][] = [
+  ['memory', createMemoryBackend],
+  ['sqlite', sqlite && (() => sqlite.createSqliteBackend(':memory:'))],
+];
+
+// Every backend must behave the same, since tests use one and deployments another
+for (const [name, create] of backends) {
+  describe.skipIf(!create)(`${name} backend`, () => {
+    const backend = () => create!();
+
+    it('returns undefined for a missing key', async () => {
+      expect(await backend().get('missing')).toBeUndefined();
+    });
+
+    it('stores, overwrites and deletes values', async () => {
+      const kv = backend();
+      await kv.set('defect:1', { id: '1', tags: ['a'], nested: { n: 1 }, empty: null });
+      expect(await kv.get('defect:1')).toEqual({ id: '1', tags: ['a'], nested: { n: 1 }, empty: null });
+
+      await kv.set('defect:1', 'replaced');
+      expect(await kv.get('defect:1')).toBe('replaced');
+
+      await kv.del('defect:1');
+      expect(await kv.get('defect:1')).toBeUndefined();
+      await kv.del('defect:1');
+    });
+
+    it('never shares object references with callers', async () => {
+      const kv = backend();
+      const value = { title: 'Трещина' };
+      await kv.set('defect:1', value);
+      value.title = 'changed';
+      const stored = await kv.get('defect:1');
+      stored.title = 'changed again';
+      expect(await kv.get('defect:1')).toEqual({ title: 'Трещина' });
+    });
+
+    it('sets, gets and deletes several keys at once', async () => {
+      const kv = backend();
+      await kv.mset(['a', 'b', 'c'], [1, { two: 2 }, 'three']);
+      // Missing keys are skipped
+      const values = await kv.mget(['c', 'missing', 'a', 'b']);
+      expect(values).toHaveLength(3);
+      expect(values).toEqual(expect.arrayContaining([1, { two: 2 }, 'three']));
+      expect(await kv.mget([])).toEqual([]);
+
+      await kv.mdel(['a', 'c', 'missing']);
+      expect(await kv.mget(['a', 'b', 'c'])).toEqual([{ two: 2 }]);
+      await kv.mdel([]);
+    });
+
+    it('finds values by literal, case-sensitive key prefix', async () => {
+      const kv = backend();
+      await kv.mset(
+        ['defect:1', 'defect:2', 'defects', 'Defect:3', 'idx:defect:status:Новая:1', 'a%b:1', 'axb:1', 'a_b:1'],
+        [1, 2, 'list', 3, 'index', '%', 'x', '_']
+      );
+      expect((await kv.getByPrefix('defect:')).sort()).toEqual([1, 2]);
+      expect(await kv.getByPrefix('idx:defect:status:Новая:')).toEqual(['index']);
+      // LIKE wildcards must not match other characters
+      expect(await kv.getByPrefix('a%b:')).toEqual(['%']);
+      expect(await kv.getByPrefix('a_b:')).toEqual(['_']);
+      expect(await kv.getByPrefix('nothing:')).toEqual([]);
+    });
+  });
+}
@@ -0,0 +1,82 @@
+// Key-value storage facade used by the server.
+//
+// The backend is chosen by the KV_BACKEND environment variable:
+//   supabase (default) - the kv_store_090ebd00 table, see kv_store.tsx
+//   memory             - process memory, lost on restart
+//   sqlite             - a local SQLite file at KV_SQLITE_PATH
+// Backends are imported lazily so local runs never load the Supabase client.
+
+export interface KvBackend {
+  set(key: string, value: any): Promise<void>;
+  get(key: string): Promise<any>;
+  del(key: string): Promise<void>;
+  mset(keys: string[], values: any[]): Promise<void>;
+  mget(keys: string[]): Promise<any[]>;
+  mdel(keys: string[]): Promise<void>;
+  getByPrefix(prefix: string): Promise<any[]>;
+}
+
+const loadBackend = async (): Promise<KvBackend> => {
+  const name = Deno.env.get('KV_BACKEND') || 'supabase';
+  switch (name) {
+    case 'supabase':
+      return await import("./kv_store.tsx");
+    case 'memory': {
+      const { createMemoryBackend } = await import("./kv_memory.tsx");
+      return createMemoryBackend();
+    }
+    case 'sqlite': {
+      const { createSqliteBackend } = await import("./kv_sqlite.tsx");
+      return createSqliteBackend(Deno.env.get('KV_SQLITE_PATH') || './kv_store.sqlite');
+    }
+    default:
+      throw new Error(`Unknown KV_BACKEND: ${name}`);
+  }
+};
+
+let backendPromise: Promise<KvBackend> | null = null;
+
+const backend = (): Promise<KvBackend> => {
+  backendPromise ??= loadBackend();
+  return backendPromise;
+};
+
+// Replaces the configured backend, e.g. with a fresh in-memory store in tests.
+export const useBackend = (replacement: KvBackend): void => {
+  backendPromise = Promise.resolve(replacement);
+};
+
+// Set stores a key-value pair.
+export const set = async (key: string, value: any): Promise<void> => {
+  return (await backend()).set(key, value);
+};
+
+// Get retrieves the value stored under a key.
+export const get = async (key: string): Promise<any> => {
+  return (await backend()).get(key);
+};
+
+// Delete deletes a key-value pair.
+export const del = async (key: string): Promise<void> => {
+  return (await backend()).del(key);
+};
+
+// Sets multiple key-value pairs.
+export const mset = async (keys: string[], values: any[]): Promise<void> => {
+  return (await backend()).mset(keys, values);
+};
+
+// Gets multiple values. Missing keys are skipped.
+export const mget = async (keys: string[]): Promise<any[]> => {
+  return (await backend()).mget(keys);
+};
+
+// Deletes multiple key-value pairs.
+export const mdel = async (keys: string[]): Promise<void> => {
+  return (await backend()).mdel(keys);
+};
+
+// Search for values whose keys start with the prefix.
+export const getByPrefix = async (prefix: string): Promise<any[]> => {
+  return (await backend()).getByPrefix(prefix);
+};
@@ -0,0 +1,37 @@
+// In-memory key-value backend for local development and tests.
+import type { KvBackend } from "./kv.tsx";
+
+// Values are stored as JSON, like the database does, so callers never share
+// object references with the store.
+const encode = (value: any): string => JSON.stringify(value);
+const decode = (value: string | undefined): any => value === undefined ? undefined : JSON.parse(value);
+
+export const createMemoryBackend = (): KvBackend => {
+  const store = new Map<string, string>();
+
+  return {
+    set: async (key, value) => {
+      store.set(key, encode(value));
+    },
+    get: async (key) => {
+      return decode(store.get(key));
+    },
+    del: async (key) => {
+      store.delete(key);
+    },
+    mset: async (keys, values) => {
+      keys.forEach((key, i) => store.set(key, encode(values[i])));
+    },
+    mget: async (keys) => {
+      return keys.filter((key) => store.has(key)).map((key) => decode(store.get(key)));
+    },
+    mdel: async (keys) => {
+      keys.forEach((key) => store.delete(key));
+    },
+    getByPrefix: async (prefix) => {
+      return [...store.entries()]
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([, value]) => decode(value));
+    },
+  };
+};
@@ -0,0 +1,63 @@
+// File-backed SQLite key-value backend for offline runs.
+// Uses the same table layout as the Supabase kv_store_090ebd00 table.
+import { DatabaseSync } from "node:sqlite";
+import type { KvBackend } from "./kv.tsx";
+
+const placeholders = (count: number) => Array(count).fill('?').join(', ');
+
+export const createSqliteBackend = (path: string): KvBackend => {
+  const db = new DatabaseSync(path);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS kv_store_090ebd00 (
+      key TEXT NOT NULL PRIMARY KEY,
+      value TEXT NOT NULL
+    )
+  `);
+
+  const upsert = db.prepare(
+    'INSERT INTO kv_store_090ebd00 (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value',
+  );
+
+  const transaction = (fn: () => void) => {
+    db.exec('BEGIN');
+    try {
+      fn();
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  };
+
+  return {
+    set: async (key, value) => {
+      upsert.run(key, JSON.stringify(value));
+    },
+    get: async (key) => {
+      const row = db.prepare('SELECT value FROM kv_store_090ebd00 WHERE key = ?').get(key) as { value: string } | undefined;
+      return row ? JSON.parse(row.value) : undefined;
+    },
+    del: async (key) => {
+      db.prepare('DELETE FROM kv_store_090ebd00 WHERE key = ?').run(key);
+    },
+    mset: async (keys, values) => {
+      transaction(() => keys.forEach((key, i) => upsert.run(key, JSON.stringify(values[i]))));
+    },
+    mget: async (keys) => {
+      if (keys.length === 0) return [];
+      const rows = db.prepare(`SELECT value FROM kv_store_090ebd00 WHERE key IN (${placeholders(keys.length)})`)
+        .all(...keys) as { value: string }[];
+      return rows.map((row) => JSON.parse(row.value));
+    },
+    mdel: async (keys) => {
+      if (keys.length === 0) return;
+      db.prepare(`DELETE FROM kv_store_090ebd00 WHERE key IN (${placeholders(keys.length)})`).run(...keys);
+    },
+    getByPrefix: async (prefix) => {
+      // substr keeps the match literal and case-sensitive, unlike LIKE
+      const rows = db.prepare('SELECT value FROM kv_store_090ebd00 WHERE substr(key, 1, length(?)) = ?')
+        .all(prefix, prefix) as { value: string }[];
+      return rows.map((row) => JSON.parse(row.value));
+    },
+  };
+};
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import * as kv from './kv.tsx';
+import { createMemoryBackend } from './kv_memory.tsx';
+import { computeLifecycle, loadHistoryByDefect, summarizeLifecycle } from './lifecycle.tsx';
+
+const DEFECT = {
+  id: 'd1',
+  projectId: 'p1',
+  priority: 'Высокий',
+  assignee: 'u2',
+  createdBy: 'u1',
+  createdAt: '2025-03-03T08:00:00.000Z',
+  status: 'Закрыта',
+  comments: [],
+};
+
+const statusChange = (timestamp: string, from: string, to: string, userId = 'u2') => ({
+  action: 'updated',
+  timestamp,
+  userId,
+  changes: [{ field: 'status', from, to }],
+});
+
+// Opened Monday 08:00, taken at 10:00, sent for review at 14:00, closed Tuesday 08:00
+const HISTORY = [
+  statusChange('2025-03-03T10:00:00.000Z', 'Новая', 'В работе'),
+  statusChange('2025-03-03T14:00:00.000Z', 'В работе', 'На проверке'),
+  statusChange('2025-03-04T08:00:00.000Z', 'На проверке', 'Закрыта', 'u1'),
+];
+
+const NOW = new Date('2025-03-10T08:00:00.000Z');
+
+describe('computeLifecycle', () => {
+  it('measures time to close and time in each open status', () => {
+    const lifecycle = computeLifecycle(DEFECT, HISTORY, NOW);
+    expect(lifecycle.closedAt).toBe('2025-03-04T08:00:00.000Z');
+    expect(lifecycle.hoursToClose).toBe(24);
+    expect(lifecycle.hoursInStatus).toEqual({ 'Новая': 2, 'В работе': 4, 'На проверке': 18 });
+  });
+
+  it('counts the current status up to now for open defects', () => {
+    const lifecycle = computeLifecycle({ ...DEFECT, status: 'В работе' }, HISTORY.slice(0, 1), NOW);
+    expect(lifecycle.closedAt).toBeNull();
+    expect(lifecycle.hoursToClose).toBeNull();
+    expect(lifecycle.hoursInStatus).toEqual({ 'Новая': 2, 'В работе': 7 * 24 - 2 });
+  });
+
+  it('runs time to close to the last close after a reopen', () => {
+    const history = [
+      ...HISTORY,
+      statusChange('2025-03-05T08:00:00.000Z', 'Закрыта', 'В работе', 'u1'),
+      statusChange('2025-03-05T20:00:00.000Z', 'В работе', 'Закрыта', 'u1'),
+    ];
+    const lifecycle = computeLifecycle(DEFECT, history, NOW);
+    expect(lifecycle.hoursToClose).toBe(60);
+    expect(lifecycle.reopenedAt).toEqual(['2025-03-05T08:00:00.000Z']);
+    // The day spent closed is not counted
+    expect(lifecycle.hoursInStatus['В работе']).toBe(16);
+  });
+
+  it('takes the first response from someone other than the reporter', () => {
+    const defect = {
+      ...DEFECT,
+      comments: [
+        { author: 'u1', timestamp: '2025-03-03T08:30:00.000Z' },
+        { author: 'u3', timestamp: '2025-03-03T09:00:00.000Z' },
+      ],
+    };
+    const lifecycle = computeLifecycle(defect, HISTORY, NOW);
+    expect(lifecycle.firstResponseAt).toBe('2025-03-03T09:00:00.000Z');
+    expect(lifecycle.hoursToFirstResponse).toBe(1);
+  });
+
+  it('uses the current status for defects without status history', () => {
+    const lifecycle = computeLifecycle({ ...DEFECT, status: 'Новая' }, [], NOW);
+    expect(lifecycle.hoursInStatus).toEqual({ 'Новая': 7 * 24 });
+    expect(lifecycle.hoursToFirstResponse).toBeNull();
+  });
+});
+
+describe('summarizeLifecycle', () => {
+  it('reports the mean and median and the reopen rate', () => {
+    const defects = [
+      DEFECT,
+      { ...DEFECT, id: 'd2', createdAt: '2025-03-03T20:00:00.000Z' },
+      { ...DEFECT, id: 'd3', status: 'В работе' },
+    ];
+    const history = new Map([
+      ['d1', HISTORY],
+      ['d2', [statusChange('2025-03-04T08:00:00.000Z', 'Новая', 'Закрыта')]],
+      ['d3', [
+        statusChange('2025-03-03T09:00:00.000Z', 'Новая', 'Закрыта'),
+        statusChange('2025-03-03T10:00:00.000Z', 'Закрыта', 'В работе'),
+      ]],
+    ]);
+
+    const summary = summarizeLifecycle(defects, history, NOW);
+    expect(summary.timeToClose).toEqual({ count: 2, meanHours: 18, medianHours: 18 });
+    expect(summary.reopened).toBe(1);
+    expect(summary.reopenRate).toBe(33);
+    expect(summary.trend).toEqual([{
+      week: '2025-03-03',
+      closed: 2,
+      meanHoursToClose: 18,
+      medianHoursToClose: 18,
+      meanHoursToFirstResponse: expect.any(Number),
+      reopened: 1,
+    }]);
+  });
+});
+
+describe('loadHistoryByDefect', () => {
+  it('reads only the history of the given defects, oldest first', async () => {
+    kv.useBackend(createMemoryBackend());
+    const entries = [
+      { id: 'h2', defectId: 'd1', timestamp: '2025-03-04T08:00:00.000Z' },
+      { id: 'h1', defectId: 'd1', timestamp: '2025-03-03T10:00:00.000Z' },
+      { id: 'h3', defectId: 'd10', timestamp: '2025-03-03T10:00:00.000Z' },
+    ];
+    await kv.mset(entries.map((entry) => `history:${entry.defectId}:${entry.id}`), entries);
+
+    const history = await loadHistoryByDefect([{ id: 'd1' }, { id: 'd2' }]);
+    expect([...history.keys()]).toEqual(['d1']);
+    expect(history.get('d1')!.map((entry) => entry.id)).toEqual(['h1', 'h2']);
+  });
+});
@@ -0,0 +1,211 @@
+// Defect lifecycle metrics for /analytics/lifecycle: time to close, time spent in each status,
+// reopen rate and time to first response, replayed from the `updated` history entries.
+import * as kv from "./kv.tsx";
+import { FINAL_STATUSES } from "./defect_query.tsx";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const CLOSED_STATUS = 'Закрыта';
+
+export interface DurationStats {
+  count: number;
+  meanHours: number | null;
+  medianHours: number | null;
+}
+
+interface StatusChange {
+  at: string;
+  from: string;
+  to: string;
+}
+
+export interface DefectLifecycle {
+  defect: any;
+  closedAt: string | null;
+  hoursToClose: number | null;
+  // Hours spent in each open status; time after closing or cancelling is not counted
+  hoursInStatus: Record<string, number>;
+  wasClosed: boolean;
+  reopenedAt: string[];
+  firstResponseAt: string | null;
+  hoursToFirstResponse: number | null;
+}
+
+const hoursBetween = (from: string, to: string | Date) =>
+  (new Date(to).getTime() - new Date(from).getTime()) / HOUR_MS;
+
+const round = (hours: number) => Math.round(hours * 10) / 10;
+
+const durationStats = (hours: number[]): DurationStats => {
+  if (hours.length === 0) {
+    return { count: 0, meanHours: null, medianHours: null };
+  }
+  const sorted = [...hours].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  return {
+    count: hours.length,
+    meanHours: round(hours.reduce((sum, value) => sum + value, 0) / hours.length),
+    medianHours: round(median),
+  };
+};
+
+// Monday of the UTC week containing the timestamp, as YYYY-MM-DD
+const weekStart = (timestamp: string) => {
+  const date = new Date(timestamp);
+  date.setUTCHours(0, 0, 0, 0);
+  date.setUTCDate(date.getUTCDate() - (date.getUTCDay() + 6) % 7);
+  return date.toISOString().slice(0, 10);
+};
+
+// Defects whose history is read at the same time
+const HISTORY_BATCH_SIZE = 50;
+
+// Reads the history of each given defect by its own key prefix, oldest entry first
+export const loadHistoryByDefect = async (defects: any[]): Promise<Map<string, any[]>> => {
+  const ids = [...new Set<string>(defects.map((defect) => defect.id))];
+  const byDefect = new Map<string, any[]>();
+  for (let i = 0; i < ids.length; i += HISTORY_BATCH_SIZE) {
+    const batch = ids.slice(i, i + HISTORY_BATCH_SIZE);
+    const histories = await Promise.all(batch.map((id) => kv.getByPrefix(`history:${id}:`)));
+    batch.forEach((id, index) => {
+      if (histories[index].length > 0) {
+        byDefect.set(id, histories[index].sort((a, b) => a.timestamp.localeCompare(b.timestamp)));
+      }
+    });
+  }
+  return byDefect;
+};
+
+export const computeLifecycle = (defect: any, history: any[], now = new Date()): DefectLifecycle => {
+  const statusChanges: StatusChange[] = history
+    .filter((entry) => entry.action === 'updated')
+    .flatMap((entry) => (entry.changes || [])
+      .filter((change: any) => change.field === 'status')
+      .map((change: any) => ({ at: entry.timestamp, from: change.from, to: change.to })));
+
+  const hoursInStatus: Record<string, number> = {};
+  const addTime = (status: string, from: string, to: string | Date) => {
+    if (!FINAL_STATUSES.includes(status)) {
+      hoursInStatus[status] = (hoursInStatus[status] || 0) + hoursBetween(from, to);
+    }
+  };
+
+  // Defects from before history recorded changes only have their current status
+  let status = statusChanges[0]?.from ?? defect.status;
+  let since = defect.createdAt;
+  for (const change of statusChanges) {
+    addTime(status, since, change.at);
+    status = change.to;
+    since = change.at;
+  }
+  addTime(status, since, now);
+
+  // Time to close runs to the last close, so a reopened defect counts its rework
+  const lastClose = statusChanges.filter((change) => change.to === CLOSED_STATUS).pop();
+  const closedAt = defect.status === CLOSED_STATUS ? lastClose?.at ?? defect.closedAt ?? null : null;
+
+  // The first comment or update by someone other than the reporter
+  const responses = [
+    ...(defect.comments || []).filter((comment: any) => comment.author !== defect.createdBy).map((comment: any) => comment.timestamp),
+    ...history
+      .filter((entry) => entry.action === 'updated' && entry.userId && entry.userId !== defect.createdBy)
+      .map((entry) => entry.timestamp),
+  ].sort();
+  const firstResponseAt = responses[0] ?? null;
+
+  return {
+    defect,
+    closedAt,
+    hoursToClose: closedAt ? hoursBetween(defect.createdAt, closedAt) : null,
+    hoursInStatus,
+    wasClosed: defect.status === CLOSED_STATUS || statusChanges.some((change) => change.to === CLOSED_STATUS),
+    reopenedAt: statusChanges.filter((change) => change.from === CLOSED_STATUS).map((change) => change.at),
+    firstResponseAt,
+    hoursToFirstResponse: firstResponseAt ? hoursBetween(defect.createdAt, firstResponseAt) : null,
+  };
+};
+
+const summarizeGroup = (lifecycles: DefectLifecycle[]) => {
+  const everClosed = lifecycles.filter((lifecycle) => lifecycle.wasClosed);
+  const reopened = everClosed.filter((lifecycle) => lifecycle.reopenedAt.length > 0).length;
+
+  // Mean over the defects that spent any time in the status
+  const statusHours: Record<string, number[]> = {};
+  for (const lifecycle of lifecycles) {
+    for (const [status, hours] of Object.entries(lifecycle.hoursInStatus)) {
+      (statusHours[status] ??= []).push(hours);
+    }
+  }
+
+  return {
+    defects: lifecycles.length,
+    timeToClose: durationStats(lifecycles.flatMap((lifecycle) => lifecycle.hoursToClose ?? [])),
+    firstResponse: durationStats(lifecycles.flatMap((lifecycle) => lifecycle.hoursToFirstResponse ?? [])),
+    reopened,
+    // Share of defects that were closed at some point and then reopened
+    reopenRate: everClosed.length > 0 ? Math.round(reopened / everClosed.length * 100) : null,
+    timeInStatus: Object.fromEntries(Object.entries(statusHours).map(([status, hours]) => [status, durationStats(hours)])),
+  };
+};
+
+const groupBy = (lifecycles: DefectLifecycle[], keyOf: (defect: any) => string | null) => {
+  const groups = new Map<string | null, DefectLifecycle[]>();
+  for (const lifecycle of lifecycles) {
+    const key = keyOf(lifecycle.defect);
+    groups.set(key, [...(groups.get(key) ?? []), lifecycle]);
+  }
+  return [...groups.entries()]
+    .map(([key, group]) => ({ key, ...summarizeGroup(group) }))
+    .sort((a, b) => b.defects - a.defects);
+};
+
+// Weekly trend: closes and reopens counted in the week they happened, first responses likewise
+const weeklyTrend = (lifecycles: DefectLifecycle[]) => {
+  const weeks = new Map<string, { toClose: number[]; firstResponse: number[]; reopened: number }>();
+  const bucket = (timestamp: string) => {
+    const key = weekStart(timestamp);
+    if (!weeks.has(key)) {
+      weeks.set(key, { toClose: [], firstResponse: [], reopened: 0 });
+    }
+    return weeks.get(key)!;
+  };
+
+  for (const lifecycle of lifecycles) {
+    if (lifecycle.closedAt && lifecycle.hoursToClose !== null) {
+      bucket(lifecycle.closedAt).toClose.push(lifecycle.hoursToClose);
+    }
+    if (lifecycle.firstResponseAt && lifecycle.hoursToFirstResponse !== null) {
+      bucket(lifecycle.firstResponseAt).firstResponse.push(lifecycle.hoursToFirstResponse);
+    }
+    for (const reopenedAt of lifecycle.reopenedAt) {
+      bucket(reopenedAt).reopened++;
+    }
+  }
+
+  return [...weeks.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([week, data]) => {
+      const toClose = durationStats(data.toClose);
+      return {
+        week,
+        closed: toClose.count,
+        meanHoursToClose: toClose.meanHours,
+        medianHoursToClose: toClose.medianHours,
+        meanHoursToFirstResponse: durationStats(data.firstResponse).meanHours,
+        reopened: data.reopened,
+      };
+    });
+};
+
+export const summarizeLifecycle = (defects: any[], historyByDefect: Map<string, any[]>, now = new Date()) => {
+  const lifecycles = defects.map((defect) => computeLifecycle(defect, historyByDefect.get(defect.id) ?? [], now));
+
+  return {
+    ...summarizeGroup(lifecycles),
+    byProject: groupBy(lifecycles, (defect) => defect.projectId),
+    byPriority: groupBy(lifecycles, (defect) => defect.priority),
+    byAssignee: groupBy(lifecycles, (defect) => defect.assignee || null),
+    trend: weeklyTrend(lifecycles),
+  };
+};
@@ -0,0 +1,80 @@
+// HTML email templates. Every message also gets a plain-text version for clients without HTML.
+import type { MailMessage } from "./mailer.tsx";
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '').replace(/[&<>"']/g, (char) => ({
+    '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+  }[char]!));
+
+const formatDate = (value: string | null | undefined) =>
+  value ? new Date(value).toLocaleDateString('ru-RU') : 'не указан';
+
+// Links point at the web app when APP_URL is set
+const appLink = () => Deno.env.get('APP_URL') || null;
+
+const layout = (title: string, body: string) => `<!DOCTYPE html>
+<html lang="ru">
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body style="font-family: Arial, sans-serif; color: #1f2937; max-width: 640px; margin: 0 auto; padding: 16px;">
+<h2 style="margin-top: 0;">${escapeHtml(title)}</h2>
+${body}
+${appLink() ? `<p><a href="${escapeHtml(appLink())}">Открыть Дефектолог</a></p>` : ''}
+<p style="color: #6b7280; font-size: 12px;">Письмо отправлено автоматически. Уведомления можно отключить в настройках.</p>
+</body>
+</html>`;
+
+const defectRow = (defect: any) => `<tr>
+<td style="padding: 4px 8px; border-bottom: 1px solid #e5e7eb;">${escapeHtml(defect.title)}</td>
+<td style="padding: 4px 8px; border-bottom: 1px solid #e5e7eb;">${escapeHtml(defect.status)}</td>
+<td style="padding: 4px 8px; border-bottom: 1px solid #e5e7eb;">${escapeHtml(defect.priority)}</td>
+<td style="padding: 4px 8px; border-bottom: 1px solid #e5e7eb;">${formatDate(defect.dueDate)}</td>
+</tr>`;
+
+const defectTable = (defects: any[]) => `<table style="border-collapse: collapse; width: 100%; font-size: 14px;">
+<tr style="text-align: left;"><th style="padding: 4px 8px;">Дефект</th><th style="padding: 4px 8px;">Статус</th><th style="padding: 4px 8px;">Приоритет</th><th style="padding: 4px 8px;">Срок</th></tr>
+${defects.map(defectRow).join('\n')}
+</table>`;
+
+const defectLine = (defect: any) =>
+  `- ${defect.title} (${defect.status}, ${defect.priority}, срок: ${formatDate(defect.dueDate)})`;
+
+export const assignmentEmail = (to: string, defect: any, projectName: string | null): MailMessage => {
+  const subject = `Вам назначен дефект «${defect.title}»`;
+  return {
+    to,
+    subject,
+    html: layout(subject, `<p>
+<b>Проект:</b> ${escapeHtml(projectName || 'неизвестен')}<br>
+<b>Приоритет:</b> ${escapeHtml(defect.priority)}<br>
+<b>Статус:</b> ${escapeHtml(defect.status)}<br>
+<b>Срок:</b> ${formatDate(defect.dueDate)}
+</p>
+${defect.description ? `<p style="white-space: pre-wrap;">${escapeHtml(defect.description)}</p>` : ''}`),
+    text: [
+      subject,
+      `Проект: ${projectName || 'неизвестен'}`,
+      `Приоритет: ${defect.priority}`,
+      `Статус: ${defect.status}`,
+      `Срок: ${formatDate(defect.dueDate)}`,
+      ...(defect.description ? ['', defect.description] : []),
+    ].join('\n'),
+  };
+};
+
+export const digestEmail = (to: string, name: string, open: any[], overdue: any[]): MailMessage => {
+  const subject = `Сводка по дефектам: ${open.length} открытых, ${overdue.length} просроченных`;
+  const sections = [
+    overdue.length > 0 ? `<h3>Просроченные</h3>\n${defectTable(overdue)}` : '',
+    open.length > 0 ? `<h3>Открытые</h3>\n${defectTable(open)}` : '',
+  ];
+  return {
+    to,
+    subject,
+    html: layout(subject, `<p>Здравствуйте, ${escapeHtml(name)}! Дефекты, назначенные вам на сегодня:</p>\n${sections.join('\n')}`),
+    text: [
+      `Здравствуйте, ${name}! Дефекты, назначенные вам на сегодня.`,
+      ...(overdue.length > 0 ? ['', 'Просроченные:', ...overdue.map(defectLine)] : []),
+      ...(open.length > 0 ? ['', 'Открытые:', ...open.map(defectLine)] : []),
+    ].join('\n'),
+  };
+};
@@ -0,0 +1,77 @@
+// Outgoing email.
+//
+// MAILER selects the transport:
+//   console (default) - logs each message, so nothing leaves the machine
+//   file              - writes each message as an HTML file under MAIL_DIR (default ./mail)
+//   smtp              - sends through SMTP_HOST / SMTP_PORT, authenticating with SMTP_USER / SMTP_PASSWORD
+// MAIL_FROM sets the sender address.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const mailFrom = () => Deno.env.get('MAIL_FROM') || 'Дефектолог <no-reply@localhost>';
+
+const consoleMailer: Mailer = {
+  async send(message) {
+    console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  },
+};
+
+const fileMailer: Mailer = {
+  async send(message) {
+    const dir = Deno.env.get('MAIL_DIR') || './mail';
+    await Deno.mkdir(dir, { recursive: true });
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID()}.html`;
+    const header = `<!--\nFrom: ${mailFrom()}\nTo: ${message.to}\nSubject: ${message.subject}\n-->\n`;
+    await Deno.writeTextFile(`${dir}/${name}`, header + message.html);
+  },
+};
+
+// nodemailer is imported on first use so the other transports never load it
+const createSmtpMailer = async (): Promise<Mailer> => {
+  const { default: nodemailer } = await import("npm:nodemailer@6");
+  const port = Number(Deno.env.get('SMTP_PORT') || 587);
+  const user = Deno.env.get('SMTP_USER');
+  const transport = nodemailer.createTransport({
+    host: Deno.env.get('SMTP_HOST'),
+    port,
+    secure: port === 465,
+    auth: user ? { user, pass: Deno.env.get('SMTP_PASSWORD') } : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transport.sendMail({ from: mailFrom(), ...message });
+    },
+  };
+};
+
+let mailerPromise: Promise<Mailer> | null = null;
+
+export const getMailer = (): Promise<Mailer> => {
+  mailerPromise ??= (async () => {
+    const name = Deno.env.get('MAILER') || 'console';
+    switch (name) {
+      case 'console':
+        return consoleMailer;
+      case 'file':
+        return fileMailer;
+      case 'smtp':
+        return createSmtpMailer();
+      default:
+        throw new Error(`Unknown MAILER: ${name}`);
+    }
+  })().catch((error) => {
+    mailerPromise = null;
+    throw error;
+  });
+  return mailerPromise;
+};
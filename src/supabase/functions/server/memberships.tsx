@@ -0,0 +1,72 @@
+// Project membership records with a role per project.
+//
+// A membership is stored under `membership:<projectId>:<userId>`, so the members
+// of a project share a prefix. The reverse entry `idx:membership:user:<userId>:<projectId>`
+// lists the projects of a user together with the role. Global admins need no memberships.
+import * as kv from "./kv.tsx";
+import type { Role } from "./permissions.tsx";
+
+export interface Membership {
+  projectId: string;
+  userId: string;
+  role: Role;
+  addedBy: string;
+  addedAt: string;
+}
+
+const USER_INDEX_PREFIX = 'idx:membership:user:';
+
+const membershipKey = (projectId: string, userId: string) => `membership:${projectId}:${userId}`;
+const userIndexKey = (userId: string, projectId: string) => `${USER_INDEX_PREFIX}${userId}:${projectId}`;
+
+export const getMembership = async (projectId: string, userId: string): Promise<Membership | null> => {
+  return (await kv.get(membershipKey(projectId, userId))) ?? null;
+};
+
+export const getProjectMembers = async (projectId: string): Promise<Membership[]> => {
+  return kv.getByPrefix(`membership:${projectId}:`);
+};
+
+// Maps each project the user is a member of to their role there
+export const getUserProjectRoles = async (userId: string): Promise<Map<string, Role>> => {
+  const entries = await kv.getByPrefix(`${USER_INDEX_PREFIX}${userId}:`);
+  return new Map(entries.map((entry) => [entry.projectId, entry.role]));
+};
+
+export const saveMembership = async (membership: Membership): Promise<void> => {
+  await kv.mset(
+    [membershipKey(membership.projectId, membership.userId), userIndexKey(membership.userId, membership.projectId)],
+    [membership, { projectId: membership.projectId, role: membership.role }]
+  );
+};
+
+export const deleteMembership = async (projectId: string, userId: string): Promise<void> => {
+  await kv.mdel([membershipKey(projectId, userId), userIndexKey(userId, projectId)]);
+};
+
+export const deleteProjectMemberships = async (projectId: string): Promise<void> => {
+  const members = await getProjectMembers(projectId);
+  if (members.length > 0) {
+    await kv.mdel(members.flatMap((member) => [
+      membershipKey(projectId, member.userId),
+      userIndexKey(member.userId, projectId),
+    ]));
+  }
+};
+
+// Resolves a user's role on a project: admins everywhere, everyone else through membership.
+// Returns null when the user has no access to the project.
+export const getProjectRole = async (userId: string, globalRole: Role, projectId: string): Promise<Role | null> => {
+  if (globalRole === 'admin') {
+    return 'admin';
+  }
+  return (await getMembership(projectId, userId))?.role ?? null;
+};
+
+// Maps the projects a user can see to their role there, or returns null when they can see all of them
+export const getAccessibleProjects = async (userId: string, globalRole: Role): Promise<Map<string, Role> | null> => {
+  if (globalRole === 'admin') {
+    return null;
+  }
+  return getUserProjectRoles(userId);
+};
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import * as kv from './kv.tsx';
+import { createMemoryBackend } from './kv_memory.tsx';
+import { deleteStaleReminderMarkers, remindDueDates } from './notifications.tsx';
+
+const NOW = new Date('2025-03-10T12:00:00.000Z');
+
+const defect = (id: string, fields: Record<string, unknown> = {}) => ({
+  id,
+  title: `Дефект ${id}`,
+  status: 'В работе',
+  assignee: 'u1',
+  dueDate: '2025-03-09T12:00:00.000Z',
+  ...fields,
+});
+
+const markers = () => kv.getByPrefix('reminder_sent:');
+
+beforeEach(async () => {
+  kv.useBackend(createMemoryBackend());
+  await kv.mset(['defect:d1', 'defect:d2', 'defect:d3'], [defect('d1'), defect('d2'), defect('d3')]);
+});
+
+describe('remindDueDates', () => {
+  it('reminds once per defect, kind and due date', async () => {
+    expect(await remindDueDates(NOW)).toBe(3);
+    expect(await remindDueDates(NOW)).toBe(0);
+    expect(await kv.getByPrefix('notification:u1:')).toHaveLength(3);
+    expect(await markers()).toContainEqual({
+      defectId: 'd1',
+      kind: 'overdue',
+      dueDate: '2025-03-09T12:00:00.000Z',
+      sentAt: NOW.toISOString(),
+    });
+  });
+});
+
+describe('deleteStaleReminderMarkers', () => {
+  it('keeps markers that still stop a repeat reminder', async () => {
+    await remindDueDates(NOW);
+    expect(await deleteStaleReminderMarkers()).toBe(0);
+    expect(await markers()).toHaveLength(3);
+  });
+
+  it('drops markers of deleted, finished and rescheduled defects', async () => {
+    await remindDueDates(NOW);
+    await kv.del('defect:d1');
+    await kv.set('defect:d2', defect('d2', { status: 'Закрыта' }));
+    await kv.set('defect:d3', defect('d3', { dueDate: '2025-03-08T12:00:00.000Z' }));
+
+    expect(await deleteStaleReminderMarkers()).toBe(3);
+    expect(await markers()).toEqual([]);
+    // The new due date of d3 is reminded about again
+    expect(await remindDueDates(NOW)).toBe(1);
+  });
+});
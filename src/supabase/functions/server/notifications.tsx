@@ -0,0 +1,191 @@
+// In-app notifications, stored per user under `notification:<userId>:<notificationId>`.
+import * as kv from "./kv.tsx";
+import { FINAL_STATUSES } from "./defect_query.tsx";
+import { getDefectsByIds } from "./defect_index.tsx";
+import { sendAssignmentEmails } from "./email_notifications.tsx";
+import { dueDeadline } from "./sla.tsx";
+
+export type NotificationType = 'assigned' | 'status_changed' | 'comment' | 'due_soon' | 'overdue' | 'sla_breached';
+
+export interface Notification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  defectId: string;
+  defectTitle: string;
+  message: string;
+  actorId: string | null;
+  createdAt: string;
+  read: boolean;
+}
+
+// Older notifications beyond this are dropped
+const MAX_PER_USER = 200;
+
+// Open defects due within this many days get a reminder
+const DUE_SOON_DAYS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const notificationKey = (userId: string, id: string) => `notification:${userId}:${id}`;
+
+type ReminderKind = 'due_soon' | 'overdue';
+
+// Records that a reminder went out. Kept apart from the notification itself, which the
+// user's notification limit and the cleanup job may delete. The value repeats the parts
+// of the key so that stale markers can be found and removed.
+interface ReminderMarker {
+  defectId: string;
+  kind: ReminderKind;
+  dueDate: string;
+  sentAt: string;
+}
+
+const reminderSentKey = (defectId: string, kind: ReminderKind, dueDate: string) =>
+  `reminder_sent:${defectId}:${kind}:${dueDate}`;
+
+const getAll = async (userId: string): Promise<Notification[]> => {
+  const notifications: Notification[] = await kv.getByPrefix(`notification:${userId}:`);
+  return notifications.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+const prune = async (userId: string) => {
+  const notifications = await getAll(userId);
+  if (notifications.length > MAX_PER_USER) {
+    await kv.mdel(notifications.slice(MAX_PER_USER).map((n) => notificationKey(userId, n.id)));
+  }
+};
+
+// Notifies every recipient once, skipping the user who caused the event. Notifications
+// are best effort: failures are logged and never fail the request that triggered them.
+export const notify = async (
+  recipients: (string | null | undefined)[],
+  event: { type: NotificationType; defect: any; message: string; actorId: string | null }
+): Promise<void> => {
+  const userIds = [...new Set(recipients.filter((id): id is string => !!id))]
+    .filter((id) => id !== event.actorId);
+  if (userIds.length === 0) {
+    return;
+  }
+
+  try {
+    const createdAt = new Date().toISOString();
+    const notifications: Notification[] = userIds.map((userId) => ({
+      id: crypto.randomUUID(),
+      userId,
+      type: event.type,
+      defectId: event.defect.id,
+      defectTitle: event.defect.title,
+      message: event.message,
+      actorId: event.actorId,
+      createdAt,
+      read: false
+    }));
+
+    await kv.mset(notifications.map((n) => notificationKey(n.userId, n.id)), notifications);
+    for (const userId of userIds) {
+      await prune(userId);
+    }
+  } catch (error) {
+    console.log('Notification error:', error);
+  }
+
+  if (event.type === 'assigned') {
+    await sendAssignmentEmails(userIds, event.defect);
+  }
+};
+
+// Reminds assignees of open defects that are due soon and again once they are overdue.
+// A `reminder_sent:` marker per defect, kind and due date makes sure each due date is
+// reminded about only once of each kind. Returns the number of reminders created.
+export const remindDueDates = async (now = new Date()): Promise<number> => {
+  const defects = (await kv.getByPrefix('defect:'))
+    .filter((defect) => defect.assignee && defect.dueDate && !FINAL_STATUSES.includes(defect.status));
+  const horizon = now.getTime() + DUE_SOON_DAYS * DAY_MS;
+  let created = 0;
+
+  for (const defect of defects) {
+    const deadline = dueDeadline(defect.dueDate);
+    if (Number.isNaN(deadline) || deadline > horizon) {
+      continue;
+    }
+
+    const overdue = deadline < now.getTime();
+    const kind: ReminderKind = overdue ? 'overdue' : 'due_soon';
+    const sentKey = reminderSentKey(defect.id, kind, defect.dueDate);
+    if (await kv.get(sentKey)) {
+      continue;
+    }
+    const id = `${overdue ? 'overdue' : 'due'}-${defect.id}-${defect.dueDate}`;
+
+    const due = new Date(defect.dueDate).toLocaleDateString('ru-RU');
+    const notification: Notification = {
+      id,
+      userId: defect.assignee,
+      type: kind,
+      defectId: defect.id,
+      defectTitle: defect.title,
+      message: overdue
+        ? `Просрочен дефект «${defect.title}»`
+        : `Приближается срок по дефекту «${defect.title}»: ${due}`,
+      actorId: null,
+      createdAt: now.toISOString(),
+      read: false
+    };
+    const marker: ReminderMarker = { defectId: defect.id, kind, dueDate: defect.dueDate, sentAt: now.toISOString() };
+    await kv.mset([notificationKey(defect.assignee, id), sentKey], [notification, marker]);
+    created++;
+  }
+
+  return created;
+};
+
+// Drops reminder markers that can no longer matter: the defect is gone, closed or cancelled,
+// or its due date has changed since. Returns the number removed.
+export const deleteStaleReminderMarkers = async (): Promise<number> => {
+  const markers = (await kv.getByPrefix('reminder_sent:') as ReminderMarker[]).filter((marker) => marker.defectId);
+  const defects = new Map((await getDefectsByIds(markers.map((marker) => marker.defectId)))
+    .map((defect) => [defect.id, defect]));
+
+  const stale = markers.filter((marker) => {
+    const defect = defects.get(marker.defectId);
+    return !defect || FINAL_STATUSES.includes(defect.status) || defect.dueDate !== marker.dueDate;
+  });
+  if (stale.length > 0) {
+    await kv.mdel(stale.map((marker) => reminderSentKey(marker.defectId, marker.kind, marker.dueDate)));
+  }
+  return stale.length;
+};
+
+// Drops read notifications older than the given date. Returns the number removed.
+export const deleteReadNotificationsBefore = async (before: Date): Promise<number> => {
+  const stale = (await kv.getByPrefix('notification:') as Notification[])
+    .filter((n) => n.read && new Date(n.createdAt) < before);
+  if (stale.length > 0) {
+    await kv.mdel(stale.map((n) => notificationKey(n.userId, n.id)));
+  }
+  return stale.length;
+};
+
+export const listNotifications = async (userId: string, options: { unreadOnly?: boolean; limit?: number } = {}) => {
+  const notifications = await getAll(userId);
+  const unread = notifications.filter((n) => !n.read);
+  const selected = options.unreadOnly ? unread : notifications;
+  return {
+    notifications: options.limit ? selected.slice(0, options.limit) : selected,
+    unreadCount: unread.length
+  };
+};
+
+// Marks the given notifications read, or all of them when no ids are passed
+export const markRead = async (userId: string, ids?: string[]): Promise<number> => {
+  const notifications = (await getAll(userId))
+    .filter((n) => !n.read && (!ids || ids.includes(n.id)));
+  if (notifications.length > 0) {
+    await kv.mset(
+      notifications.map((n) => notificationKey(userId, n.id)),
+      notifications.map((n) => ({ ...n, read: true }))
+    );
+  }
+  return notifications.length;
+};
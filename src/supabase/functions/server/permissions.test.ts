@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { PERMISSIONS, ROLES, can, isProjectRole, isRole, type Action, type Role } from './permissions.tsx';
+
+// The expected matrix, spelled out role by role
+const EXPECTED: Record<Role, Action[]> = {
+  observer: ['projects:read', 'defects:read', 'analytics:read', 'users:read'],
+  engineer: [
+    'projects:read', 'defects:read', 'defects:create', 'defects:update', 'comments:create', 'attachments:create',
+    'analytics:read', 'users:read',
+  ],
+  manager: [
+    'projects:read', 'projects:create', 'projects:update', 'projects:manageMembers',
+    'defects:read', 'defects:create', 'defects:update', 'defects:assign', 'defects:delete',
+    'comments:create', 'attachments:create', 'attachments:deleteAny', 'analytics:read', 'users:read',
+  ],
+  admin: Object.keys(PERMISSIONS) as Action[],
+};
+
+describe('can', () => {
+  for (const role of ROLES) {
+    it(`grants ${role} exactly its actions`, () => {
+      const granted = (Object.keys(PERMISSIONS) as Action[]).filter((action) => can(role, action));
+      expect(granted.sort()).toEqual([...EXPECTED[role]].sort());
+    });
+  }
+
+  it('grants nothing to missing or unknown roles', () => {
+    for (const action of Object.keys(PERMISSIONS) as Action[]) {
+      expect(can(null, action)).toBe(false);
+      expect(can(undefined, action)).toBe(false);
+      expect(can('superuser', action)).toBe(false);
+    }
+  });
+});
+
+describe('roles', () => {
+  it('recognises global roles', () => {
+    expect(isRole('manager')).toBe(true);
+    expect(isRole('Manager')).toBe(false);
+    expect(isRole(undefined)).toBe(false);
+  });
+
+  it('does not grant admin on a single project', () => {
+    expect(isProjectRole('manager')).toBe(true);
+    expect(isProjectRole('admin')).toBe(false);
+  });
+});
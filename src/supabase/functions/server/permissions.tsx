@@ -0,0 +1,71 @@
+// Central role × action permission matrix.
+// Project-bound actions are checked against the caller's role on that project,
+// everything else against their global role.
+// This module has no runtime imports so the frontend can share it with the server.
+
+export type Role = 'observer' | 'engineer' | 'manager' | 'admin';
+
+export const ROLES: Role[] = ['observer', 'engineer', 'manager', 'admin'];
+
+// Roles that can be granted on a single project. Admin is global only and sees every project.
+export const PROJECT_ROLES: Role[] = ['observer', 'engineer', 'manager'];
+
+export type Action =
+  | 'projects:read'
+  | 'projects:create'
+  | 'projects:update'
+  | 'projects:delete'
+  | 'projects:manageMembers'
+  | 'defects:read'
+  | 'defects:create'
+  | 'defects:update'
+  | 'defects:assign'
+  | 'defects:delete'
+  | 'comments:create'
+  | 'attachments:create'
+  | 'attachments:deleteAny'
+  | 'analytics:read'
+  | 'users:read'
+  | 'users:manageRoles'
+  | 'admin:maintenance'
+  | 'webhooks:manage'
+  | 'sla:manage';
+
+// Roles allowed to perform each action
+export const PERMISSIONS: Record<Action, Role[]> = {
+  'projects:read': ['observer', 'engineer', 'manager', 'admin'],
+  'projects:create': ['manager', 'admin'],
+  'projects:update': ['manager', 'admin'],
+  'projects:delete': ['admin'],
+  'projects:manageMembers': ['manager', 'admin'],
+  'defects:read': ['observer', 'engineer', 'manager', 'admin'],
+  'defects:create': ['engineer', 'manager', 'admin'],
+  'defects:update': ['engineer', 'manager', 'admin'],
+  'defects:assign': ['manager', 'admin'],
+  'defects:delete': ['manager', 'admin'],
+  'comments:create': ['engineer', 'manager', 'admin'],
+  'attachments:create': ['engineer', 'manager', 'admin'],
+  'attachments:deleteAny': ['manager', 'admin'],
+  'analytics:read': ['observer', 'engineer', 'manager', 'admin'],
+  'users:read': ['observer', 'engineer', 'manager', 'admin'],
+  'users:manageRoles': ['admin'],
+  'admin:maintenance': ['admin'],
+  'webhooks:manage': ['admin'],
+  'sla:manage': ['admin'],
+};
+
+export const isRole = (value: unknown): value is Role => {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+};
+
+export const isProjectRole = (value: unknown): value is Role => {
+  return typeof value === 'string' && (PROJECT_ROLES as string[]).includes(value);
+};
+
+// Checks whether the given role may perform the action. Unknown roles get nothing.
+export const can = (role: string | null | undefined, action: Action): boolean => {
+  if (!isRole(role)) {
+    return false;
+  }
+  return PERMISSIONS[action].includes(role);
+};
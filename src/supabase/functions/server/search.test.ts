@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { matchesSearch, searchDefects, stem } from './search.tsx';
+
+const defect = (id: string, fields: Record<string, any>) => ({
+  id,
+  title: '',
+  description: '',
+  projectId: 'p1',
+  comments: [],
+  createdAt: '2026-10-01T00:00:00Z',
+  ...fields,
+});
+
+const projectNames = new Map([['p1', 'ЖК Северный'], ['p2', 'Школа']]);
+
+describe('stem', () => {
+  it('reduces word forms to one stem', () => {
+    expect(stem('трещина')).toBe('трещин');
+    expect(stem('трещины')).toBe('трещин');
+    expect(stem('трещиной')).toBe('трещин');
+    expect(stem('Ёлки')).toBe(stem('елки'));
+  });
+});
+
+describe('searchDefects', () => {
+  const defects = [
+    defect('title', { title: 'Трещина в стене' }),
+    defect('description', { title: 'Отделка', description: 'Найдены трещины на фасаде' }),
+    defect('comment', { title: 'Окно', comments: [{ id: 'c1', comment: 'Под окном трещину заделали' }] }),
+    defect('other', { title: 'Протечка кровли', projectId: 'p2' }),
+  ];
+
+  it('finds every word form and ranks title matches first', () => {
+    const results = searchDefects(defects, projectNames, 'трещины');
+    expect(results.map((result) => result.defect.id)).toEqual(['title', 'description', 'comment']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it('requires every query word', () => {
+    expect(searchDefects(defects, projectNames, 'трещина фасад').map((result) => result.defect.id)).toEqual(['description']);
+    expect(searchDefects(defects, projectNames, 'трещина кровля')).toEqual([]);
+  });
+
+  it('matches project names', () => {
+    expect(searchDefects(defects, projectNames, 'школа').map((result) => result.defect.id)).toEqual(['other']);
+  });
+
+  it('matches words that are still being typed', () => {
+    expect(searchDefects(defects, projectNames, 'прот').map((result) => result.defect.id)).toEqual(['other']);
+  });
+
+  it('returns nothing for an empty query', () => {
+    expect(searchDefects(defects, projectNames, ' ,. ')).toEqual([]);
+  });
+
+  it('highlights the matched words in the snippets', () => {
+    const [result] = searchDefects(defects, projectNames, 'заделать');
+    const snippet = result.snippets.find((entry) => entry.field === 'comment')!;
+    expect(snippet.commentId).toBe('c1');
+    const [[start, end]] = snippet.highlights;
+    expect(snippet.text.slice(start, end)).toBe('заделали');
+  });
+
+  it('cuts long texts around the first match', () => {
+    const long = `${'Вступление '.repeat(30)}здесь трещина ${'и ещё текст '.repeat(30)}`;
+    const [result] = searchDefects([defect('long', { title: 'Акт', description: long })], projectNames, 'трещина');
+    const snippet = result.snippets[0];
+    expect(snippet.text.length).toBeLessThan(long.length);
+    expect(snippet.text.startsWith('…')).toBe(true);
+    const [[start, end]] = snippet.highlights;
+    expect(snippet.text.slice(start, end)).toBe('трещина');
+  });
+});
+
+describe('matchesSearch', () => {
+  it('matches word forms across the given texts', () => {
+    expect(matchesSearch(['Трещины в стенах', null], 'трещина стена')).toBe(true);
+    expect(matchesSearch(['Трещины в стенах'], 'трещина окно')).toBe(false);
+    expect(matchesSearch([undefined], '')).toBe(true);
+  });
+});
@@ -0,0 +1,283 @@
+// Full-text search over defects: Russian stemming, ranking and highlighted snippets.
+// The defect list filter shares `matchesSearch`, so this module has no runtime imports.
+//
+// Stems follow the Snowball Russian algorithm, so "трещина", "трещины" and "трещиной" all
+// become "трещин". Words are matched on stems, and a query word also matches longer stems it
+// starts, which keeps results coming while a word is still being typed.
+
+const VOWELS = 'аеиоуыэюя';
+
+interface EndingGroup {
+  endings: string[];
+  // Endings that only count after "а" or "я", which stays in the stem
+  afterAYa?: boolean;
+}
+
+const PERFECTIVE_GERUND: EndingGroup[] = [
+  { endings: ['в', 'вши', 'вшись'], afterAYa: true },
+  { endings: ['ив', 'ивши', 'ившись', 'ыв', 'ывши', 'ывшись'] },
+];
+
+const ADJECTIVE: EndingGroup[] = [{
+  endings: ['ее', 'ие', 'ые', 'ое', 'ими', 'ыми', 'ей', 'ий', 'ый', 'ой', 'ем', 'им', 'ым', 'ом', 'его', 'ого', 'ему', 'ому',
+    'их', 'ых', 'ую', 'юю', 'ая', 'яя', 'ою', 'ею'],
+}];
+
+const PARTICIPLE: EndingGroup[] = [
+  { endings: ['ем', 'нн', 'вш', 'ющ', 'щ'], afterAYa: true },
+  { endings: ['ивш', 'ывш', 'ующ'] },
+];
+
+const REFLEXIVE: EndingGroup[] = [{ endings: ['ся', 'сь'] }];
+
+const VERB: EndingGroup[] = [
+  { endings: ['ла', 'на', 'ете', 'йте', 'ли', 'й', 'л', 'ем', 'н', 'ло', 'но', 'ет', 'ют', 'ны', 'ть', 'ешь', 'нно'], afterAYa: true },
+  {
+    endings: ['ила', 'ыла', 'ена', 'ейте', 'уйте', 'ите', 'или', 'ыли', 'ей', 'уй', 'ил', 'ыл', 'им', 'ым', 'ен', 'ило', 'ыло',
+      'ено', 'ят', 'ует', 'уют', 'ит', 'ыт', 'ены', 'ить', 'ыть', 'ишь', 'ую', 'ю'],
+  },
+];
+
+const NOUN: EndingGroup[] = [{
+  endings: ['а', 'ев', 'ов', 'ие', 'ье', 'е', 'иями', 'ями', 'ами', 'еи', 'ии', 'и', 'ией', 'ей', 'ой', 'ий', 'й', 'иям', 'ям',
+    'ием', 'ем', 'ам', 'ом', 'о', 'у', 'ах', 'иях', 'ях', 'ы', 'ь', 'ию', 'ью', 'ю', 'ия', 'ья', 'я'],
+}];
+
+const SUPERLATIVE: EndingGroup[] = [{ endings: ['ейш', 'ейше'] }];
+
+const DERIVATIONAL: EndingGroup[] = [{ endings: ['ост', 'ость'] }];
+
+const isVowel = (char: string) => VOWELS.includes(char);
+
+// Start of the region after the first consonant that follows a vowel, looking from `from`
+const regionAfter = (word: string, from: number) => {
+  for (let i = from + 1; i < word.length; i++) {
+    if (!isVowel(word[i]) && isVowel(word[i - 1])) {
+      return i + 1;
+    }
+  }
+  return word.length;
+};
+
+// Removes the longest of the endings that lies at or after `limit`. Returns null when there is
+// none, or when the longest one needs a preceding "а"/"я" that is not there.
+const removeEnding = (word: string, groups: EndingGroup[], limit: number): string | null => {
+  let best: { ending: string; afterAYa?: boolean } | null = null;
+  for (const { endings, afterAYa } of groups) {
+    for (const ending of endings) {
+      if (word.endsWith(ending) && word.length - ending.length >= limit && (!best || ending.length > best.ending.length)) {
+        best = { ending, afterAYa };
+      }
+    }
+  }
+  if (!best) {
+    return null;
+  }
+
+  const stem = word.slice(0, word.length - best.ending.length);
+  if (best.afterAYa && !(stem.length - 1 >= limit && 'ая'.includes(stem[stem.length - 1]))) {
+    return null;
+  }
+  return stem;
+};
+
+// An adjective ending, optionally with a participle suffix before it
+const removeAdjectival = (word: string, limit: number) => {
+  const stem = removeEnding(word, ADJECTIVE, limit);
+  return stem === null ? null : removeEnding(stem, PARTICIPLE, limit) ?? stem;
+};
+
+export const stem = (input: string): string => {
+  let word = input.toLowerCase().replace(/ё/g, 'е');
+  const firstVowel = [...word].findIndex(isVowel);
+  if (firstVowel < 0) {
+    return word;
+  }
+  // Endings are only removed from the part after the first vowel
+  const rv = firstVowel + 1;
+  const r2 = regionAfter(word, regionAfter(word, 0));
+
+  const withoutGerund = removeEnding(word, PERFECTIVE_GERUND, rv);
+  if (withoutGerund !== null) {
+    word = withoutGerund;
+  } else {
+    word = removeEnding(word, REFLEXIVE, rv) ?? word;
+    word = removeAdjectival(word, rv) ?? removeEnding(word, VERB, rv) ?? removeEnding(word, NOUN, rv) ?? word;
+  }
+
+  if (word.endsWith('и') && word.length - 1 >= rv) {
+    word = word.slice(0, -1);
+  }
+
+  word = removeEnding(word, DERIVATIONAL, r2) ?? word;
+
+  const withoutSuperlative = removeEnding(word, SUPERLATIVE, rv);
+  if (withoutSuperlative !== null) {
+    word = withoutSuperlative;
+  }
+  if (word.endsWith('нн') && word.length - 2 >= rv) {
+    word = word.slice(0, -1);
+  } else if (withoutSuperlative === null && word.endsWith('ь') && word.length - 1 >= rv) {
+    word = word.slice(0, -1);
+  }
+
+  return word;
+};
+
+export interface Token {
+  stem: string;
+  start: number;
+  end: number;
+}
+
+export const tokenize = (text: string): Token[] =>
+  [...text.matchAll(/[\p{L}\p{N}]+/gu)].map((match) => ({
+    stem: stem(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+
+// Distinct stems of the query words
+export const parseSearchQuery = (query: string): string[] => [...new Set(tokenize(query).map((token) => token.stem))];
+
+// Short query words would match half the dictionary as prefixes
+const MIN_PREFIX_LENGTH = 3;
+
+// 1 for the same stem, 0.5 for a longer stem the query word starts, 0 otherwise
+const matchWeight = (tokenStem: string, queryStem: string) => {
+  if (tokenStem === queryStem) return 1;
+  if (queryStem.length >= MIN_PREFIX_LENGTH && tokenStem.startsWith(queryStem)) return 0.5;
+  return 0;
+};
+
+// True when every query word occurs somewhere in the texts
+export const matchesSearch = (texts: (string | null | undefined)[], query: string): boolean => {
+  const queryStems = parseSearchQuery(query);
+  if (queryStems.length === 0) {
+    return true;
+  }
+  const tokens = texts.flatMap((text) => (text ? tokenize(text) : []));
+  return queryStems.every((queryStem) => tokens.some((token) => matchWeight(token.stem, queryStem) > 0));
+};
+
+export type SearchField = 'title' | 'description' | 'comment' | 'project';
+
+// Matches in the title count the most, then the project name
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  project: 2,
+  description: 1,
+  comment: 1,
+};
+
+export interface SearchSnippet {
+  field: SearchField;
+  commentId?: string;
+  text: string;
+  // Start and end offsets of the matched words within `text`
+  highlights: [number, number][];
+}
+
+export interface SearchResult {
+  defect: any;
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+const SNIPPET_LENGTH = 160;
+const SNIPPETS_PER_RESULT = 3;
+
+// Cuts the text around the first match and shifts the highlights to the cut.
+// Titles and other short texts are returned whole.
+const makeSnippet = (field: SearchField, text: string, matches: Token[], commentId?: string): SearchSnippet => {
+  let start = 0;
+  let end = text.length;
+  if (text.length > SNIPPET_LENGTH) {
+    start = Math.max(0, matches[0].start - SNIPPET_LENGTH / 4);
+    // Start and end on word boundaries
+    if (start > 0) {
+      const space = text.indexOf(' ', start);
+      start = space >= 0 && space < matches[0].start ? space + 1 : start;
+    }
+    end = Math.min(text.length, start + SNIPPET_LENGTH);
+    if (end < text.length) {
+      const space = text.lastIndexOf(' ', end);
+      end = space > matches[0].end ? space : end;
+    }
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const highlights = matches
+    .filter((token) => token.start >= start && token.end <= end)
+    .map((token): [number, number] => [token.start - start + prefix.length, token.end - start + prefix.length]);
+  return {
+    field,
+    ...(commentId ? { commentId } : {}),
+    text: `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`,
+    highlights,
+  };
+};
+
+interface FieldText {
+  field: SearchField;
+  text: string;
+  commentId?: string;
+}
+
+const fieldTexts = (defect: any, projectName: string | undefined): FieldText[] => [
+  { field: 'title', text: defect.title ?? '' },
+  { field: 'description', text: defect.description ?? '' },
+  ...(defect.comments || []).map((comment: any) => ({ field: 'comment' as const, text: comment.comment ?? '', commentId: comment.id })),
+  { field: 'project', text: projectName ?? '' },
+];
+
+// Ranks the defects containing every query word. A word's score in a defect grows with the
+// field weights and (slowly) with repeats, and rare words count for more than common ones.
+export const searchDefects = (defects: any[], projectNames: Map<string, string>, query: string): SearchResult[] => {
+  const queryStems = parseSearchQuery(query);
+  if (queryStems.length === 0) {
+    return [];
+  }
+
+  const candidates = defects.map((defect) => {
+    const fields = fieldTexts(defect, projectNames.get(defect.projectId))
+      .filter(({ text }) => text)
+      .map((field) => ({ ...field, tokens: tokenize(field.text) }));
+
+    // Weighted hits per query word, and the matched tokens per field for snippets
+    const hits = queryStems.map(() => 0);
+    const matched = fields.map(({ tokens }) => tokens.filter((token) =>
+      queryStems.some((queryStem) => matchWeight(token.stem, queryStem) > 0)
+    ));
+    fields.forEach(({ field, tokens }) => {
+      queryStems.forEach((queryStem, index) => {
+        for (const token of tokens) {
+          hits[index] += FIELD_WEIGHTS[field] * matchWeight(token.stem, queryStem);
+        }
+      });
+    });
+    return { defect, fields, hits, matched };
+  }).filter(({ hits }) => hits.every((hit) => hit > 0));
+
+  // Inverse document frequency over the defects searched
+  const idf = queryStems.map((_, index) => {
+    const containing = candidates.filter(({ hits }) => hits[index] > 0).length;
+    return Math.log(1 + defects.length / containing);
+  });
+
+  return candidates
+    .map(({ defect, fields, hits, matched }) => {
+      const score = hits.reduce((sum, hit, index) => sum + idf[index] * (1 + Math.log(hit)), 0);
+
+      // The title snippet comes first when it matched, then the best other fields
+      const snippets = fields
+        .map((field, index) => ({ field, matches: matched[index] }))
+        .filter(({ matches }) => matches.length > 0)
+        .sort((a, b) => FIELD_WEIGHTS[b.field.field] - FIELD_WEIGHTS[a.field.field] || b.matches.length - a.matches.length)
+        .slice(0, SNIPPETS_PER_RESULT)
+        .map(({ field, matches }) => makeSnippet(field.field, field.text, matches, field.commentId));
+
+      return { defect, score: Math.round(score * 100) / 100, snippets };
+    })
+    .sort((a, b) => b.score - a.score || String(b.defect.updatedAt ?? b.defect.createdAt).localeCompare(String(a.defect.updatedAt ?? a.defect.createdAt)));
+};
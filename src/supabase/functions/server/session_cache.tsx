@@ -0,0 +1,62 @@
+// Short-lived cache of verified access tokens and the matching user profiles,
+// so handlers do not pay for token verification and a profile read on every request.
+import * as kv from "./kv.tsx";
+import { getAuthProvider, type AuthUser } from "./auth.tsx";
+import { isRole, type Role } from "./permissions.tsx";
+
+export interface ResolvedUser {
+  user: AuthUser;
+  profile: any;
+  role: Role;
+}
+
+const TTL_MS = 60 * 1000;
+const MAX_ENTRIES = 1000;
+
+const cache = new Map<string, { value: ResolvedUser; expiresAt: number }>();
+
+// Reads the token expiry so cached entries never outlive the token itself
+const tokenExpiry = (accessToken: string): number => {
+  try {
+    const payload = JSON.parse(atob(accessToken.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : Infinity;
+  } catch {
+    return Infinity;
+  }
+};
+
+// Resolves a token to its user, profile and role. Returns null for invalid tokens.
+export const resolveUser = async (accessToken: string): Promise<ResolvedUser | null> => {
+  const now = Date.now();
+  const cached = cache.get(accessToken);
+  if (cached && cached.expiresAt > now) {
+    return cached.value;
+  }
+  cache.delete(accessToken);
+
+  const user = await getAuthProvider().verifyToken(accessToken);
+  if (!user) {
+    return null;
+  }
+
+  const profile = await kv.get(`user:${user.id}`);
+  const role = isRole(profile?.role) ? profile.role : 'observer';
+  const value = { user, profile, role };
+
+  // Map keeps insertion order, so the first key is the oldest entry
+  if (cache.size >= MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+  cache.set(accessToken, { value, expiresAt: Math.min(now + TTL_MS, tokenExpiry(accessToken)) });
+
+  return value;
+};
+
+// Drops cached entries for a user, e.g. after their role changed
+export const invalidateUser = (userId: string): void => {
+  for (const [token, entry] of cache) {
+    if (entry.value.user.id === userId) {
+      cache.delete(token);
+    }
+  }
+};
@@ -0,0 +1,75 @@
+// SLA policies: the time allowed to close a defect, per priority.
+// A project can override the default policy for some priorities.
+// This module has no runtime imports so the frontend can share it with the server.
+
+export type SlaPolicy = Record<string, number>;
+
+// Hours allowed per priority when no policy has been saved
+export const DEFAULT_SLA_POLICY: SlaPolicy = {
+  'Критический': 24,
+  'Высокий': 72,
+  'Средний': 168,
+  'Низкий': 336,
+};
+
+// A defect is at risk once less than this share of its SLA time is left
+export const AT_RISK_SHARE = 0.25;
+
+export type SlaState = 'none' | 'on_track' | 'at_risk' | 'breached' | 'met' | 'missed';
+
+export const SLA_STATE_LABELS: Record<SlaState, string> = {
+  none: 'Без SLA',
+  on_track: 'В срок',
+  at_risk: 'Под угрозой',
+  breached: 'SLA нарушен',
+  met: 'Выполнен в срок',
+  missed: 'Выполнен с нарушением',
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Hours allowed for a priority, taking the project override first. Null when neither sets one.
+export const resolveSlaHours = (
+  priority: string,
+  policy: SlaPolicy,
+  projectPolicy?: Partial<SlaPolicy> | null,
+): number | null => {
+  return projectPolicy?.[priority] ?? policy[priority] ?? null;
+};
+
+// Due dates picked by hand are calendar days and last until the end of that day;
+// due dates filled in from an SLA are exact timestamps
+export const dueDeadline = (dueDate: string): number => {
+  const time = new Date(dueDate).getTime();
+  return /^\d{4}-\d{2}-\d{2}$/.test(dueDate) ? time + 24 * HOUR_MS : time;
+};
+
+export const slaDeadline = (createdAt: string, hours: number): string => {
+  return new Date(new Date(createdAt).getTime() + hours * HOUR_MS).toISOString();
+};
+
+// Where a defect stands against its due date. Open defects are on track, at risk or breached;
+// closed ones met or missed the deadline. Cancelled defects and defects without a due date have no SLA.
+export const getSlaState = (defect: any, now = new Date()): SlaState => {
+  if (!defect.dueDate || defect.status === 'Отменена') {
+    return 'none';
+  }
+
+  const deadline = dueDeadline(defect.dueDate);
+  if (Number.isNaN(deadline)) {
+    return 'none';
+  }
+
+  if (defect.status === 'Закрыта') {
+    const closedAt = new Date(defect.closedAt || defect.updatedAt).getTime();
+    return closedAt <= deadline ? 'met' : 'missed';
+  }
+
+  if (now.getTime() > deadline) {
+    return 'breached';
+  }
+
+  const start = new Date(defect.createdAt).getTime();
+  const remaining = deadline - now.getTime();
+  return remaining < (deadline - start) * AT_RISK_SHARE ? 'at_risk' : 'on_track';
+};
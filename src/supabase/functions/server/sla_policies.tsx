@@ -0,0 +1,114 @@
+// Stored SLA policy, SLA due dates for defects and escalation of breaches.
+//
+// The default policy lives under `settings:sla`; projects may carry a partial `slaPolicy`
+// override. A defect records the hours it was given in `slaHours`. When its due date was
+// filled in from the SLA, `dueDateAuto` is set and the date follows later priority changes.
+import * as kv from "./kv.tsx";
+import { getProjectMembers } from "./memberships.tsx";
+import { notify } from "./notifications.tsx";
+import { DEFAULT_SLA_POLICY, getSlaState, resolveSlaHours, slaDeadline, type SlaPolicy } from "./sla.tsx";
+
+const POLICY_KEY = 'settings:sla';
+
+export const getSlaPolicy = async (): Promise<SlaPolicy> => {
+  return { ...DEFAULT_SLA_POLICY, ...(await kv.get(POLICY_KEY)) };
+};
+
+export const saveSlaPolicy = async (policy: SlaPolicy): Promise<SlaPolicy> => {
+  await kv.set(POLICY_KEY, policy);
+  return policy;
+};
+
+const slaHoursFor = async (priority: string, projectId: string): Promise<number | null> => {
+  const project = await kv.get(`project:${projectId}`);
+  return resolveSlaHours(priority, await getSlaPolicy(), project?.slaPolicy);
+};
+
+const newDefectSlaFields = (slaHours: number | null, defect: { dueDate?: string | null; createdAt: string }) => {
+  const dueDateAuto = !defect.dueDate && slaHours !== null;
+  return {
+    slaHours,
+    dueDate: dueDateAuto ? slaDeadline(defect.createdAt, slaHours!) : defect.dueDate ?? null,
+    dueDateAuto,
+    slaEscalatedAt: null
+  };
+};
+
+// SLA fields of a new defect. A due date picked by hand wins over the SLA.
+export const slaFieldsForNewDefect = async (defect: { priority: string; projectId: string; dueDate?: string | null; createdAt: string }) => {
+  return newDefectSlaFields(await slaHoursFor(defect.priority, defect.projectId), defect);
+};
+
+// Like slaFieldsForNewDefect for many defects of one project, reading the policies once
+export const slaFieldsForProject = async (projectId: string) => {
+  const policy = await getSlaPolicy();
+  const project = await kv.get(`project:${projectId}`);
+  return (defect: { priority: string; dueDate?: string | null; createdAt: string }) =>
+    newDefectSlaFields(resolveSlaHours(defect.priority, policy, project?.slaPolicy), defect);
+};
+
+// SLA fields that change with an update. Setting the due date by hand takes it off the SLA;
+// otherwise an automatic due date is recomputed when the priority or project changes.
+export const slaFieldsForUpdate = async (existing: any, updates: Record<string, any>) => {
+  const fields: Record<string, any> = {};
+  const priority = updates.priority ?? existing.priority;
+  const projectId = updates.projectId ?? existing.projectId;
+
+  if (priority !== existing.priority || projectId !== existing.projectId) {
+    fields.slaHours = await slaHoursFor(priority, projectId);
+    if (existing.dueDateAuto && !('dueDate' in updates)) {
+      fields.dueDate = fields.slaHours !== null ? slaDeadline(existing.createdAt, fields.slaHours) : null;
+      fields.dueDateAuto = fields.slaHours !== null;
+    }
+  }
+  if ('dueDate' in updates) {
+    fields.dueDateAuto = false;
+  }
+
+  // A new deadline can be breached, and escalated, again
+  const dueDate = fields.dueDate !== undefined ? fields.dueDate : updates.dueDate;
+  if (dueDate !== undefined && dueDate !== existing.dueDate) {
+    fields.slaEscalatedAt = null;
+  }
+  return fields;
+};
+
+// Notifies the managers of the project about each newly breached defect, or the admins
+// when the project has no managers. Returns the number of defects escalated.
+export const escalateSlaBreaches = async (now = new Date()): Promise<number> => {
+  const breached = (await kv.getByPrefix('defect:'))
+    .filter((defect) => !defect.slaEscalatedAt && getSlaState(defect, now) === 'breached');
+  if (breached.length === 0) {
+    return 0;
+  }
+
+  const admins = (await kv.getByPrefix('user:')).filter((user) => user.role === 'admin').map((user) => user.id);
+
+  for (const defect of breached) {
+    const managers = (await getProjectMembers(defect.projectId))
+      .filter((member) => member.role === 'manager')
+      .map((member) => member.userId);
+
+    await notify(managers.length > 0 ? managers : admins, {
+      type: 'sla_breached',
+      defect,
+      message: `Нарушен срок по дефекту «${defect.title}»`,
+      actorId: null
+    });
+
+    // Not a user edit, so the version stays and open editors are not invalidated
+    await kv.set(`defect:${defect.id}`, { ...defect, slaEscalatedAt: now.toISOString() });
+
+    const historyEntry = {
+      id: crypto.randomUUID(),
+      defectId: defect.id,
+      action: 'escalated',
+      userId: null,
+      timestamp: now.toISOString(),
+      details: 'Срок по SLA нарушен, менеджеры проекта уведомлены'
+    };
+    await kv.set(`history:${defect.id}:${historyEntry.id}`, historyEntry);
+  }
+
+  return breached.length;
+};
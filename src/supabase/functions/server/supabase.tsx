@@ -0,0 +1,15 @@
+// Supabase client with the service role key, shared by the Supabase-backed providers.
+
+let supabaseClient: any = null;
+
+// Imported and created on first use so local runs never load the Supabase client
+export async function getSupabase() {
+  if (!supabaseClient) {
+    const { createClient } = await import("npm:@supabase/supabase-js");
+    supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+  }
+  return supabaseClient;
+}
@@ -0,0 +1,7 @@
+// Runs before every test file. Server modules read their configuration through the
+// Deno namespace, which Node does not have.
+(globalThis as any).Deno ??= {
+  env: {
+    get: (name: string) => process.env[name],
+  },
+};
@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { z } from 'npm:zod@3';
+import * as kv from './kv.tsx';
+import { createMemoryBackend } from './kv_memory.tsx';
+import {
+  ValidationError,
+  checkDefectReferences,
+  createDefectSchema,
+  createProjectSchema,
+  parseValue,
+  updateDefectSchema,
+  updateProjectSchema,
+} from './validation.tsx';
+
+// Returns the field messages parseValue reports, or null when the value passes
+const fieldErrors = (schema: z.ZodTypeAny, value: unknown) => {
+  try {
+    parseValue(schema, value);
+    return null;
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError);
+    return (error as ValidationError).fields;
+  }
+};
+
+describe('parseValue', () => {
+  it('maps each invalid field to its message', () => {
+    expect(fieldErrors(createDefectSchema, { title: '  ', priority: 'Срочный' })).toEqual({
+      title: 'Укажите название дефекта',
+      priority: 'Выберите приоритет',
+      projectId: 'Выберите проект',
+    });
+  });
+
+  it('keeps the first message when a field fails several checks', () => {
+    const fields = fieldErrors(createDefectSchema, { title: 'x'.repeat(201), priority: 'Низкий', projectId: 'p1' });
+    expect(fields).toEqual({ title: 'Не более 200 символов' });
+  });
+
+  it('joins nested paths with dots', () => {
+    const fields = fieldErrors(updateProjectSchema, { slaPolicy: { 'Высокий': -1 } });
+    expect(fields).toEqual({ 'slaPolicy.Высокий': 'Срок должен быть больше нуля' });
+  });
+
+  it('reports unknown keys on each key', () => {
+    expect(fieldErrors(updateDefectSchema, { id: 'd2', createdBy: 'u1' })).toEqual({
+      id: 'Поле нельзя изменить',
+      createdBy: 'Поле нельзя изменить',
+    });
+  });
+
+  it('reports a wrong body type on the body itself', () => {
+    expect(fieldErrors(updateDefectSchema, ['title'])).toEqual({ body: expect.any(String) });
+  });
+
+  it('puts cross-field checks on the field they name', () => {
+    const fields = fieldErrors(createProjectSchema, { name: 'ЖК', startDate: '2025-05-01', endDate: '2025-04-01' });
+    expect(fields).toEqual({ endDate: 'Дата окончания раньше даты начала' });
+  });
+
+  it('returns the parsed value with cleared inputs as null', () => {
+    expect(parseValue(updateDefectSchema, { title: ' Трещина ', assignee: '', dueDate: '' })).toEqual({
+      title: 'Трещина',
+      assignee: null,
+      dueDate: null,
+    });
+  });
+});
+
+describe('checkDefectReferences', () => {
+  beforeEach(async () => {
+    kv.useBackend(createMemoryBackend());
+    await kv.set('project:p1', { id: 'p1' });
+    await kv.set('project:p2', { id: 'p2', archivedAt: '2025-01-01T00:00:00.000Z' });
+    await kv.set('user:u1', { id: 'u1' });
+  });
+
+  it('accepts existing references', async () => {
+    await expect(checkDefectReferences({ projectId: 'p1', assignee: 'u1' })).resolves.toBeUndefined();
+  });
+
+  it('reports missing and archived references per field', async () => {
+    await expect(checkDefectReferences({ projectId: 'p3', assignee: 'u2' })).rejects.toMatchObject({
+      fields: { projectId: 'Проект не найден', assignee: 'Пользователь не найден' },
+    });
+    await expect(checkDefectReferences({ projectId: 'p2' })).rejects.toMatchObject({
+      fields: { projectId: 'Проект находится в архиве' },
+    });
+  });
+});
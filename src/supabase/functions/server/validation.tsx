@@ -0,0 +1,239 @@
+// Request body schemas. Field messages are shown next to the form inputs, so they are in Russian.
+import { z } from "npm:zod@3";
+import type { Context } from "npm:hono";
+import * as kv from "./kv.tsx";
+import { PROJECT_ROLES, ROLES, type Role } from "./permissions.tsx";
+import { getProjectRole } from "./memberships.tsx";
+import { DEFECT_STATUSES, type DefectStatus } from "./workflow.tsx";
+import { WEBHOOK_EVENTS } from "./webhooks.tsx";
+
+export const DEFECT_PRIORITIES = ['Низкий', 'Средний', 'Высокий', 'Критический'] as const;
+
+// Raised when a request body fails validation. `fields` maps field names to messages.
+export class ValidationError extends Error {
+  fields: Record<string, string>;
+
+  constructor(fields: Record<string, string>) {
+    super('Validation failed');
+    this.fields = fields;
+  }
+}
+
+// Forms send empty strings for cleared inputs
+const emptyToNull = (value: unknown) => (value === '' ? null : value);
+
+const requiredText = (message: string, max: number) =>
+  z.string({ required_error: message, invalid_type_error: message }).trim().min(1, { message }).max(max, { message: `Не более ${max} символов` });
+
+const optionalText = (max: number) =>
+  z.preprocess(emptyToNull, z.string().max(max, { message: `Не более ${max} символов` }).nullish());
+
+const dateString = z.string().refine(
+  (value) => /^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(Date.parse(value)),
+  { message: 'Некорректная дата' }
+);
+
+const optionalDate = z.preprocess(emptyToNull, dateString.nullish());
+
+const optionalId = z.preprocess(emptyToNull, z.string().nullish());
+
+export const signupSchema = z.object({
+  email: z.string().trim().email({ message: 'Некорректный email' }),
+  password: z.string().min(6, { message: 'Пароль должен содержать не менее 6 символов' }),
+  name: requiredText('Укажите имя', 100),
+});
+
+export const loginSchema = z.object({
+  email: z.string().trim().min(1, { message: 'Укажите email' }),
+  password: z.string().min(1, { message: 'Укажите пароль' }),
+});
+
+export const PROJECT_STATUSES = ['active', 'completed'] as const;
+
+const slaHours = z.number({ invalid_type_error: 'Укажите число часов' })
+  .positive({ message: 'Срок должен быть больше нуля' })
+  .max(8760, { message: 'Не более 8760 часов' });
+
+const slaPolicyFields = Object.fromEntries(DEFECT_PRIORITIES.map((priority) => [priority, slaHours]));
+
+// The default policy sets every priority; a project overrides only some of them
+export const slaPolicySchema = z.object(slaPolicyFields).strict();
+
+const projectFields = {
+  name: requiredText('Укажите название проекта', 200),
+  description: optionalText(5000),
+  startDate: optionalDate,
+  endDate: optionalDate,
+  slaPolicy: z.object(slaPolicyFields).partial().strict().nullish(),
+};
+
+export const projectDatesInOrder = (project: { startDate?: string | null; endDate?: string | null }) =>
+  !project.startDate || !project.endDate || project.startDate <= project.endDate;
+
+export const DATES_OUT_OF_ORDER = { message: 'Дата окончания раньше даты начала', path: ['endDate'] };
+
+export const createProjectSchema = z.object(projectFields)
+  .refine(projectDatesInOrder, DATES_OUT_OF_ORDER);
+
+// Archiving has its own endpoints, so only these fields can be changed through PUT /projects/:id
+export const updateProjectSchema = z.object({
+  ...projectFields,
+  status: z.enum(PROJECT_STATUSES, { message: 'Недопустимый статус проекта' }),
+}).partial().strict()
+  .refine(projectDatesInOrder, DATES_OUT_OF_ORDER);
+
+const defectFields = {
+  title: requiredText('Укажите название дефекта', 200),
+  description: optionalText(10000),
+  priority: z.enum(DEFECT_PRIORITIES, { message: 'Выберите приоритет' }),
+  projectId: z.string({ required_error: 'Выберите проект' }).min(1, { message: 'Выберите проект' }),
+  assignee: optionalId,
+  dueDate: optionalDate,
+};
+
+export const createDefectSchema = z.object(defectFields);
+
+// Only these fields can be changed through PUT /defects/:id; anything else is rejected
+export const updateDefectSchema = z.object({
+  ...defectFields,
+  status: z.enum(DEFECT_STATUSES as [DefectStatus, ...DefectStatus[]], { message: 'Недопустимый статус' }),
+  resolution: optionalText(5000),
+  reopenReason: optionalText(5000),
+}).partial().strict();
+
+// Rows per import request; larger files are split by the import wizard
+export const MAX_IMPORT_ROWS = 1000;
+
+// One imported defect. The project is chosen once for the whole file, and a row may carry
+// a status since spreadsheets handed over from other contractors include settled remarks.
+export const importRowSchema = z.object({
+  title: defectFields.title,
+  description: defectFields.description,
+  priority: defectFields.priority,
+  status: z.enum(DEFECT_STATUSES as [DefectStatus, ...DefectStatus[]], { message: 'Недопустимый статус' }).optional(),
+  assignee: defectFields.assignee,
+  dueDate: defectFields.dueDate,
+}).strict();
+
+export type ImportRow = z.infer<typeof importRowSchema>;
+
+export const importDefectsSchema = z.object({
+  projectId: defectFields.projectId,
+  dryRun: z.boolean().default(false),
+  rows: z.array(z.unknown())
+    .min(1, { message: 'Нет строк для импорта' })
+    .max(MAX_IMPORT_ROWS, { message: `Не более ${MAX_IMPORT_ROWS} строк за один раз` }),
+});
+
+// Defects per bulk update request
+export const MAX_BULK_DEFECTS = 200;
+
+// Changes applied to every selected defect from the defect list. A resolution or reopen reason
+// is only needed with a status change that requires it.
+export const bulkUpdateDefectsSchema = z.object({
+  ids: z.array(z.string().min(1))
+    .min(1, { message: 'Выберите дефекты' })
+    .max(MAX_BULK_DEFECTS, { message: `Не более ${MAX_BULK_DEFECTS} дефектов за один раз` }),
+  updates: updateDefectSchema
+    .pick({ status: true, priority: true, assignee: true, dueDate: true, projectId: true, resolution: true, reopenReason: true })
+    .refine((updates) => Object.keys(updates).length > 0, { message: 'Нет изменений' }),
+}).strict();
+
+export const commentSchema = z.object({
+  comment: requiredText('Комментарий не может быть пустым', 5000),
+});
+
+export const roleSchema = z.object({
+  role: z.enum(ROLES as [Role, ...Role[]], { message: 'Invalid role' }),
+});
+
+export const memberRoleSchema = z.object({
+  role: z.enum(PROJECT_ROLES as [Role, ...Role[]], { message: 'Недопустимая роль в проекте' }),
+});
+
+// Without ids every notification of the caller is marked read
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.string()).max(500).optional(),
+});
+
+export const notificationSettingsSchema = z.object({
+  emailOnAssign: z.boolean(),
+  dailyDigest: z.boolean(),
+}).partial().strict();
+
+const webhookFields = {
+  url: z.string().trim().url({ message: 'Некорректный URL' })
+    .refine((value) => /^https?:\/\//i.test(value), { message: 'URL должен начинаться с http:// или https://' }),
+  events: z.array(z.enum(WEBHOOK_EVENTS, { message: 'Неизвестное событие' }))
+    .min(1, { message: 'Выберите хотя бы одно событие' }),
+};
+
+export const createWebhookSchema = z.object(webhookFields);
+
+export const updateWebhookSchema = z.object({
+  ...webhookFields,
+  active: z.boolean(),
+}).partial().strict();
+
+// Checks a value against a schema. Throws ValidationError on failure.
+export const parseValue = <T extends z.ZodTypeAny>(schema: T, value: unknown): z.infer<T> => {
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return result.data;
+  }
+
+  const fields: Record<string, string> = {};
+  for (const issue of result.error.issues) {
+    // Unknown keys are reported on each key rather than on the object
+    const paths = issue.code === 'unrecognized_keys' ? issue.keys : [issue.path.join('.') || 'body'];
+    for (const path of paths) {
+      fields[path] ??= issue.code === 'unrecognized_keys' ? 'Поле нельзя изменить' : issue.message;
+    }
+  }
+  throw new ValidationError(fields);
+};
+
+// Reads the JSON body and checks it against a schema. Throws ValidationError on failure.
+export const parseBody = async <T extends z.ZodTypeAny>(c: Context<any>, schema: T): Promise<z.infer<T>> => {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    throw new ValidationError({ body: 'Invalid JSON body' });
+  }
+
+  return parseValue(schema, body);
+};
+
+// Checks that the project and assignee a defect points at exist, and that the project is not archived
+export const checkDefectReferences = async (defect: { projectId?: string | null; assignee?: string | null }) => {
+  const fields: Record<string, string> = {};
+  if (defect.projectId) {
+    const project = await kv.get(`project:${defect.projectId}`);
+    if (!project) {
+      fields.projectId = 'Проект не найден';
+    } else if (project.archivedAt) {
+      fields.projectId = 'Проект находится в архиве';
+    }
+  }
+  if (defect.assignee && !await kv.get(`user:${defect.assignee}`)) {
+    fields.assignee = 'Пользователь не найден';
+  }
+  if (Object.keys(fields).length > 0) {
+    throw new ValidationError(fields);
+  }
+};
+
+// Checks that an assignee can see the project, otherwise they could never open the defect
+export const checkAssigneeAccess = async (assignee: string | null | undefined, projectId: string) => {
+  if (!assignee) {
+    return;
+  }
+  const profile = await kv.get(`user:${assignee}`);
+  if (profile && !await getProjectRole(assignee, profile.role, projectId)) {
+    throw new ValidationError({ assignee: 'Пользователь не участвует в проекте' });
+  }
+};
+
+export const validationFailed = (c: Context<any>, error: ValidationError) =>
+  c.json({ error: error.message, fields: error.fields }, 400);
@@ -0,0 +1,79 @@
+import { createHmac } from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as kv from './kv.tsx';
+import { createMemoryBackend } from './kv_memory.tsx';
+import { emitWebhookEvent, getDeliveries, saveWebhook, signPayload, type Webhook } from './webhooks.tsx';
+
+const WEBHOOK: Webhook = {
+  id: 'w1',
+  url: 'https://hooks.example.com/defects',
+  events: ['defect.created'],
+  secret: 'f'.repeat(64),
+  active: true,
+  createdBy: 'u1',
+  createdAt: '2025-01-01T00:00:00.000Z',
+};
+
+const fetchMock = vi.fn(async () => new Response('ok'));
+
+beforeEach(() => {
+  kv.useBackend(createMemoryBackend());
+  fetchMock.mockReset().mockImplementation(async () => new Response('ok'));
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('signPayload', () => {
+  it('returns the HMAC-SHA256 of the body as lowercase hex', async () => {
+    // RFC 4231, test case 2
+    expect(await signPayload('Jefe', 'what do ya want for nothing?'))
+      .toBe('5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843');
+  });
+
+  it('signs the body as UTF-8', async () => {
+    const body = JSON.stringify({ title: 'Трещина в стене' });
+    expect(await signPayload('secret', body)).toBe(createHmac('sha256', 'secret').update(body, 'utf8').digest('hex'));
+  });
+});
+
+describe('emitWebhookEvent', () => {
+  it('sends the body with a sha256= signature a receiver can check', async () => {
+    await saveWebhook(WEBHOOK);
+    await emitWebhookEvent('defect.created', { defect: { id: 'd1' } });
+
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    const body = init.body as string;
+
+    expect(url).toBe(WEBHOOK.url);
+    expect(headers['X-Webhook-Event']).toBe('defect.created');
+    expect(headers['X-Webhook-Signature']).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(headers['X-Webhook-Signature']).toBe(`sha256=${createHmac('sha256', WEBHOOK.secret).update(body).digest('hex')}`);
+    expect(JSON.parse(body)).toMatchObject({ id: headers['X-Webhook-Delivery'], event: 'defect.created', data: { defect: { id: 'd1' } } });
+  });
+
+  it('skips inactive webhooks and other events', async () => {
+    await saveWebhook({ ...WEBHOOK, active: false });
+    await saveWebhook({ ...WEBHOOK, id: 'w2', events: ['project.created'] });
+    await emitWebhookEvent('defect.created', { defect: { id: 'd1' } });
+
+    expect(await getDeliveries('w1')).toEqual([]);
+    expect(await getDeliveries('w2')).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('schedules a retry when the receiver fails', async () => {
+    fetchMock.mockImplementation(async () => new Response('error', { status: 500 }));
+    await saveWebhook(WEBHOOK);
+    await emitWebhookEvent('defect.created', { defect: { id: 'd1' } });
+
+    await vi.waitFor(async () => expect((await getDeliveries('w1'))[0].attempts).toBe(1));
+    const [delivery] = await getDeliveries('w1');
+    expect(delivery).toMatchObject({ status: 'pending', responseStatus: 500, error: 'HTTP 500' });
+    expect(Date.parse(delivery.nextAttemptAt!) - Date.parse(delivery.lastAttemptAt!)).toBe(60 * 1000);
+  });
+});
@@ -0,0 +1,206 @@
+// Outgoing webhooks for defect and project events.
+//
+// Webhooks are stored under `webhook:<id>` and their deliveries under
+// `webhook_delivery:<webhookId>:<deliveryId>`. Each delivery is POSTed as JSON with an
+// `X-Webhook-Signature: sha256=<hex>` header, the HMAC-SHA256 of the body keyed with the
+// webhook secret. The first attempt is made in the background once the delivery is stored;
+// failed deliveries are retried by `retryDueDeliveries` with exponential backoff until
+// MAX_ATTEMPTS is reached.
+import * as kv from "./kv.tsx";
+import { runInBackground } from "./background.tsx";
+
+export const WEBHOOK_EVENTS = ['defect.created', 'defect.updated', 'comment.added', 'project.created'] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  secret: string;
+  active: boolean;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  body: string;
+  status: 'pending' | 'success' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+  lastAttemptAt: string | null;
+  nextAttemptAt: string | null;
+}
+
+const MAX_ATTEMPTS = 6;
+
+// Delay before retry n is BASE_RETRY_DELAY_MS * 2^(n-1): 1, 2, 4, 8 and 16 minutes
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+// New deliveries are left to their background attempt for this long before the retry job
+// picks them up, which only happens when that attempt never finished
+const FIRST_ATTEMPT_GRACE_MS = 60 * 1000;
+
+// Older deliveries beyond this are dropped from the log
+const MAX_DELIVERIES_PER_WEBHOOK = 100;
+
+const webhookKey = (id: string) => `webhook:${id}`;
+const deliveryKey = (webhookId: string, id: string) => `webhook_delivery:${webhookId}:${id}`;
+
+export const getWebhooks = async (): Promise<Webhook[]> => {
+  const webhooks: Webhook[] = await kv.getByPrefix('webhook:');
+  return webhooks.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const getWebhook = async (id: string): Promise<Webhook | null> => {
+  return (await kv.get(webhookKey(id))) ?? null;
+};
+
+export const saveWebhook = async (webhook: Webhook): Promise<void> => {
+  await kv.set(webhookKey(webhook.id), webhook);
+};
+
+export const deleteWebhook = async (id: string): Promise<void> => {
+  const deliveries = await getDeliveries(id);
+  await kv.mdel([webhookKey(id), ...deliveries.map((delivery) => deliveryKey(id, delivery.id))]);
+};
+
+// 32 random bytes as hex
+export const generateSecret = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+export const getDeliveries = async (webhookId: string): Promise<WebhookDelivery[]> => {
+  const deliveries: WebhookDelivery[] = await kv.getByPrefix(`webhook_delivery:${webhookId}:`);
+  return deliveries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const signPayload = async (secret: string, body: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(body)));
+  return Array.from(signature, (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Makes one attempt and records its outcome on the delivery
+const attemptDelivery = async (webhook: Webhook, delivery: WebhookDelivery): Promise<WebhookDelivery> => {
+  const now = new Date();
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Signature': `sha256=${await signPayload(webhook.secret, delivery.body)}`,
+      },
+      body: delivery.body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    await response.body?.cancel();
+    if (!response.ok) {
+      error = `HTTP ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const retry = error !== null && attempts < MAX_ATTEMPTS;
+  const updated: WebhookDelivery = {
+    ...delivery,
+    attempts,
+    responseStatus,
+    error,
+    status: error === null ? 'success' : retry ? 'pending' : 'failed',
+    lastAttemptAt: now.toISOString(),
+    nextAttemptAt: retry ? new Date(now.getTime() + BASE_RETRY_DELAY_MS * 2 ** (attempts - 1)).toISOString() : null,
+  };
+  await kv.set(deliveryKey(webhook.id, delivery.id), updated);
+  return updated;
+};
+
+const pruneDeliveries = async (webhookId: string) => {
+  const deliveries = await getDeliveries(webhookId);
+  if (deliveries.length > MAX_DELIVERIES_PER_WEBHOOK) {
+    await kv.mdel(deliveries.slice(MAX_DELIVERIES_PER_WEBHOOK).map((delivery) => deliveryKey(webhookId, delivery.id)));
+  }
+};
+
+// Queues an event for every active webhook subscribed to it and sends it in the background,
+// so the triggering request never waits on the receivers. Like in-app notifications this is
+// best effort: failures are logged and retried later, never failing the triggering request.
+export const emitWebhookEvent = async (event: WebhookEvent, data: Record<string, any>): Promise<void> => {
+  try {
+    const webhooks = (await getWebhooks()).filter((webhook) => webhook.active && webhook.events.includes(event));
+    if (webhooks.length === 0) {
+      return;
+    }
+
+    const now = new Date();
+    const createdAt = now.toISOString();
+    const nextAttemptAt = new Date(now.getTime() + FIRST_ATTEMPT_GRACE_MS).toISOString();
+    const queued = await Promise.all(webhooks.map(async (webhook) => {
+      const id = crypto.randomUUID();
+      const delivery: WebhookDelivery = {
+        id,
+        webhookId: webhook.id,
+        event,
+        body: JSON.stringify({ id, event, createdAt, data }),
+        status: 'pending',
+        attempts: 0,
+        responseStatus: null,
+        error: null,
+        createdAt,
+        lastAttemptAt: null,
+        nextAttemptAt,
+      };
+      await kv.set(deliveryKey(webhook.id, id), delivery);
+      return { webhook, delivery };
+    }));
+
+    runInBackground('Webhook delivery', () => Promise.all(queued.map(async ({ webhook, delivery }) => {
+      await attemptDelivery(webhook, delivery);
+      await pruneDeliveries(webhook.id);
+    })));
+  } catch (error) {
+    console.log('Webhook error:', error);
+  }
+};
+
+// Drops finished deliveries older than the given date. Returns the number removed.
+export const deleteDeliveriesBefore = async (before: Date): Promise<number> => {
+  const stale = (await kv.getByPrefix('webhook_delivery:') as WebhookDelivery[])
+    .filter((delivery) => delivery.status !== 'pending' && new Date(delivery.createdAt) < before);
+  if (stale.length > 0) {
+    await kv.mdel(stale.map((delivery) => deliveryKey(delivery.webhookId, delivery.id)));
+  }
+  return stale.length;
+};
+
+// Retries pending deliveries whose backoff has elapsed. Returns the number of attempts made.
+export const retryDueDeliveries = async (now = new Date()): Promise<number> => {
+  const due = (await kv.getByPrefix('webhook_delivery:') as WebhookDelivery[])
+    .filter((delivery) => delivery.status === 'pending' && delivery.nextAttemptAt && new Date(delivery.nextAttemptAt) <= now);
+
+  let attempted = 0;
+  for (const delivery of due) {
+    const webhook = await getWebhook(delivery.webhookId);
+    if (!webhook?.active) {
+      continue;
+    }
+    await attemptDelivery(webhook, delivery);
+    attempted++;
+  }
+  return attempted;
+};
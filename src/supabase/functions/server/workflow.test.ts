@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { DEFECT_STATUSES, TRANSITIONS, findTransition, getAllowedTransitions, validateTransition } from './workflow.tsx';
+
+describe('findTransition', () => {
+  it('finds declared transitions only', () => {
+    expect(findTransition('Новая', 'В работе')).toBeDefined();
+    expect(findTransition('Новая', 'Закрыта')).toBeUndefined();
+    expect(findTransition('Закрыта', 'Новая')).toBeUndefined();
+  });
+
+  it('only uses known statuses', () => {
+    for (const { from, to } of TRANSITIONS) {
+      expect(DEFECT_STATUSES).toContain(from);
+      expect(DEFECT_STATUSES).toContain(to);
+    }
+  });
+});
+
+describe('getAllowedTransitions', () => {
+  const targets = (from: string, role: string | null) => getAllowedTransitions(from, role).map((t) => t.to);
+
+  it('lets engineers move work forward but not close or cancel', () => {
+    expect(targets('Новая', 'engineer')).toEqual(['В работе']);
+    expect(targets('В работе', 'engineer')).toEqual(['На проверке']);
+    expect(targets('На проверке', 'engineer')).toEqual([]);
+  });
+
+  it('lets managers close, return and reopen', () => {
+    expect(targets('На проверке', 'manager')).toEqual(['Закрыта', 'В работе']);
+    expect(targets('Закрыта', 'manager')).toEqual(['В работе']);
+  });
+
+  it('leaves reopening a cancelled defect to admins', () => {
+    expect(targets('Отменена', 'manager')).toEqual([]);
+    expect(targets('Отменена', 'admin')).toEqual(['Новая']);
+  });
+
+  it('gives observers and unknown roles nothing', () => {
+    for (const status of DEFECT_STATUSES) {
+      expect(targets(status, 'observer')).toEqual([]);
+      expect(targets(status, null)).toEqual([]);
+    }
+  });
+});
+
+describe('validateTransition', () => {
+  it('accepts an allowed transition', () => {
+    expect(validateTransition('Новая', 'В работе', 'engineer', {})).toBeNull();
+  });
+
+  it('rejects unknown statuses and undeclared transitions with 400', () => {
+    expect(validateTransition('Новая', 'Готово', 'admin', {})).toMatchObject({ status: 400 });
+    expect(validateTransition('Новая', 'Закрыта', 'admin', {})).toMatchObject({ status: 400 });
+  });
+
+  it('rejects a role that may not perform the transition with 403', () => {
+    expect(validateTransition('На проверке', 'Закрыта', 'engineer', { resolution: 'Готово' })).toMatchObject({ status: 403 });
+  });
+
+  it('requires a resolution to close and a reason to reopen', () => {
+    expect(validateTransition('На проверке', 'Закрыта', 'manager', {})).toMatchObject({
+      status: 400,
+      missingFields: ['resolution'],
+    });
+    expect(validateTransition('На проверке', 'Закрыта', 'manager', { resolution: '   ' })).toMatchObject({
+      missingFields: ['resolution'],
+    });
+    expect(validateTransition('На проверке', 'Закрыта', 'manager', { resolution: 'Устранено' })).toBeNull();
+
+    expect(validateTransition('Закрыта', 'В работе', 'manager', {})).toMatchObject({ missingFields: ['reopenReason'] });
+    expect(validateTransition('Закрыта', 'В работе', 'manager', { reopenReason: 'Снова течёт' })).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+// Declarative defect status workflow shared by the server and the frontend.
+import type { Role } from "./permissions.tsx";
+
+export type DefectStatus = 'Новая' | 'В работе' | 'На проверке' | 'Закрыта' | 'Отменена';
+
+export const DEFECT_STATUSES: DefectStatus[] = ['Новая', 'В работе', 'На проверке', 'Закрыта', 'Отменена'];
+
+export const INITIAL_STATUS: DefectStatus = 'Новая';
+
+// Fields that must be filled in the same update that performs a transition
+export type TransitionField = 'resolution' | 'reopenReason';
+
+export const TRANSITION_FIELD_LABELS: Record<TransitionField, string> = {
+  resolution: 'Комментарий к решению',
+  reopenReason: 'Причина повторного открытия',
+};
+
+export interface Transition {
+  from: DefectStatus;
+  to: DefectStatus;
+  roles: Role[];
+  requires?: TransitionField[];
+}
+
+export const TRANSITIONS: Transition[] = [
+  { from: 'Новая', to: 'В работе', roles: ['engineer', 'manager', 'admin'] },
+  { from: 'Новая', to: 'Отменена', roles: ['manager', 'admin'], requires: ['resolution'] },
+  { from: 'В работе', to: 'На проверке', roles: ['engineer', 'manager', 'admin'] },
+  { from: 'В работе', to: 'Отменена', roles: ['manager', 'admin'], requires: ['resolution'] },
+  { from: 'На проверке', to: 'Закрыта', roles: ['manager', 'admin'], requires: ['resolution'] },
+  { from: 'На проверке', to: 'В работе', roles: ['manager', 'admin'] },
+  // Reopen
+  { from: 'Закрыта', to: 'В работе', roles: ['manager', 'admin'], requires: ['reopenReason'] },
+  { from: 'Отменена', to: 'Новая', roles: ['admin'], requires: ['reopenReason'] },
+];
+
+export const isDefectStatus = (value: unknown): value is DefectStatus => {
+  return typeof value === 'string' && (DEFECT_STATUSES as string[]).includes(value);
+};
+
+export const findTransition = (from: string, to: string): Transition | undefined => {
+  return TRANSITIONS.find((t) => t.from === from && t.to === to);
+};
+
+// Lists the transitions out of a status that the given role may perform.
+export const getAllowedTransitions = (from: string, role: string | null | undefined): Transition[] => {
+  return TRANSITIONS.filter((t) => t.from === from && (t.roles as string[]).includes(role ?? ''));
+};
+
+export interface TransitionError {
+  status: 400 | 403;
+  error: string;
+  missingFields?: TransitionField[];
+}
+
+// Validates a status change. Returns null when the transition is allowed.
+export const validateTransition = (
+  from: string,
+  to: string,
+  role: string | null | undefined,
+  fields: Record<string, unknown>,
+): TransitionError | null => {
+  if (!isDefectStatus(to)) {
+    return { status: 400, error: `Unknown status: ${to}` };
+  }
+
+  const transition = findTransition(from, to);
+  if (!transition) {
+    return { status: 400, error: `Transition from "${from}" to "${to}" is not allowed` };
+  }
+
+  if (!(transition.roles as string[]).includes(role ?? '')) {
+    return { status: 403, error: `Forbidden: role cannot move a defect from "${from}" to "${to}"` };
+  }
+
+  const missingFields = (transition.requires || []).filter((field) => {
+    const value = fields[field];
+    return typeof value !== 'string' || !value.trim();
+  });
+  if (missingFields.length > 0) {
+    return { status: 400, error: `Missing required fields: ${missingFields.join(', ')}`, missingFields };
+  }
+
+  return null;
+};
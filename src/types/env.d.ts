@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_AUTH_MODE?: 'supabase' | 'local';
+}
+
+// Deno sets this on the entry module of the server
+interface ImportMeta {
+  readonly main: boolean;
+}
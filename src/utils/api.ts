@@ -1,15 +1,29 @@
 import { projectId, publicAnonKey } from './supabase/info';
 
-const API_BASE_URL = `https://${projectId}.supabase.co/functions/v1/make-server-090ebd00`;
+// VITE_API_BASE_URL points the app at a self-hosted server
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || `https://${projectId}.supabase.co/functions/v1/make-server-090ebd00`;
+
+// Error returned by the server, with the HTTP status and the response body
+export class ApiError extends Error {
+  status: number;
+  data: any;
+
+  constructor(message: string, status: number, data: any) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+}
 
 // Helper function to make API requests
 async function apiRequest(endpoint: string, options: RequestInit = {}) {
   const url = `${API_BASE_URL}${endpoint}`;
   
-  const defaultHeaders = {
-    'Content-Type': 'application/json',
-    'Authorization': `Bearer ${publicAnonKey}`,
-  };
+  // The browser sets the multipart boundary itself for FormData bodies
+  const defaultHeaders: Record<string, string> = options.body instanceof FormData
+    ? { 'Authorization': `Bearer ${publicAnonKey}` }
+    : { 'Content-Type': 'application/json', 'Authorization': `Bearer ${publicAnonKey}` };
 
   const response = await fetch(url, {
     ...options,
@@ -21,7 +35,9 @@ async function apiRequest(endpoint: string, options: RequestInit = {}) {
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Network error' }));
-    throw new Error(error.error || `HTTP ${response.status}`);
+    // Validation failures carry per-field messages, which read better than the generic error
+    const message = error.fields ? Object.values(error.fields).join('. ') : error.error;
+    throw new ApiError(message || `HTTP ${response.status}`, response.status, error);
   }
 
   return response.json();
@@ -38,6 +54,22 @@ async function authenticatedRequest(endpoint: string, accessToken: string, optio
   });
 }
 
+// Helper function for authenticated downloads of binary content
+async function authenticatedFileRequest(endpoint: string, accessToken: string): Promise<Blob> {
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    headers: { 'Authorization': `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Network error' }));
+    // Validation failures carry per-field messages, which read better than the generic error
+    const message = error.fields ? Object.values(error.fields).join('. ') : error.error;
+    throw new ApiError(message || `HTTP ${response.status}`, response.status, error);
+  }
+
+  return response.blob();
+}
+
 // Auth API
 export const authAPI = {
   signup: async (email: string, password: string, name: string, role: string) => {
@@ -46,6 +78,13 @@ export const authAPI = {
       body: JSON.stringify({ email, password, name, role }),
     });
   },
+  
+  login: async (email: string, password: string) => {
+    return apiRequest('/login', {
+      method: 'POST',
+      body: JSON.stringify({ email, password }),
+    });
+  },
 };
 
 // Projects API
@@ -54,18 +93,92 @@ export const projectsAPI = {
     return authenticatedRequest('/projects', accessToken);
   },
   
-  create: async (accessToken: string, project: { name: string; description: string; startDate: string; endDate: string }) => {
+  create: async (accessToken: string, project: { name: string; description: string; startDate: string; endDate: string; slaPolicy?: Record<string, number> | null }) => {
     return authenticatedRequest('/projects', accessToken, {
       method: 'POST',
       body: JSON.stringify(project),
     });
   },
+  
+  update: async (accessToken: string, id: string, updates: any) => {
+    return authenticatedRequest(`/projects/${id}`, accessToken, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  },
+  
+  archive: async (accessToken: string, id: string) => {
+    return authenticatedRequest(`/projects/${id}/archive`, accessToken, {
+      method: 'POST',
+    });
+  },
+  
+  restore: async (accessToken: string, id: string) => {
+    return authenticatedRequest(`/projects/${id}/restore`, accessToken, {
+      method: 'POST',
+    });
+  },
+  
+  getMembers: async (accessToken: string, id: string) => {
+    return authenticatedRequest(`/projects/${id}/members`, accessToken);
+  },
+  
+  // Adds the user to the project or changes their role there
+  setMember: async (accessToken: string, id: string, userId: string, role: string) => {
+    return authenticatedRequest(`/projects/${id}/members/${userId}`, accessToken, {
+      method: 'PUT',
+      body: JSON.stringify({ role }),
+    });
+  },
+  
+  removeMember: async (accessToken: string, id: string, userId: string) => {
+    return authenticatedRequest(`/projects/${id}/members/${userId}`, accessToken, {
+      method: 'DELETE',
+    });
+  },
+  
+  // Without cascade the server refuses with 409 while the project still has defects
+  delete: async (accessToken: string, id: string, cascade = false) => {
+    return authenticatedRequest(`/projects/${id}${cascade ? '?cascade=true' : ''}`, accessToken, {
+      method: 'DELETE',
+    });
+  },
 };
 
+// Query parameters accepted by GET /defects
+export interface DefectQueryParams {
+  status?: string;
+  priority?: string;
+  projectId?: string;
+  assignee?: string;
+  dueFrom?: string;
+  dueTo?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  overdue?: boolean;
+  q?: string;
+  sort?: 'createdAt' | 'updatedAt' | 'dueDate' | 'priority' | 'status' | 'title';
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+// Builds a query string, skipping empty values
+function toQueryString(params: Record<string, string | number | boolean | undefined | null>) {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '' && value !== false) {
+      search.set(key, String(value));
+    }
+  });
+  const query = search.toString();
+  return query ? `?${query}` : '';
+}
+
 // Defects API
 export const defectsAPI = {
-  getAll: async (accessToken: string) => {
-    return authenticatedRequest('/defects', accessToken);
+  getAll: async (accessToken: string, params: DefectQueryParams = {}) => {
+    return authenticatedRequest(`/defects${toQueryString({ ...params })}`, accessToken);
   },
   
   getById: async (accessToken: string, id: string) => {
@@ -78,14 +191,38 @@ export const defectsAPI = {
       body: JSON.stringify(defect),
     });
   },
-  
-  update: async (accessToken: string, id: string, updates: any) => {
+
+  // With dryRun the server only reports per-row errors and creates nothing
+  import: async (accessToken: string, projectId: string, rows: any[], dryRun = false) => {
+    return authenticatedRequest('/defects/import', accessToken, {
+      method: 'POST',
+      body: JSON.stringify({ projectId, rows, dryRun }),
+    });
+  },
+
+  // Applies the same changes to several defects; the response lists the updated ones and why the others failed
+  bulkUpdate: async (accessToken: string, ids: string[], updates: any) => {
+    return authenticatedRequest('/defects/bulk', accessToken, {
+      method: 'POST',
+      body: JSON.stringify({ ids, updates }),
+    });
+  },
+
+  // Passing the version the edit started from makes the server reject it with 409 if the defect changed since
+  update: async (accessToken: string, id: string, updates: any, version?: number) => {
     return authenticatedRequest(`/defects/${id}`, accessToken, {
       method: 'PUT',
+      headers: version !== undefined ? { 'If-Match': `"${version}"` } : {},
       body: JSON.stringify(updates),
     });
   },
   
+  delete: async (accessToken: string, id: string) => {
+    return authenticatedRequest(`/defects/${id}`, accessToken, {
+      method: 'DELETE',
+    });
+  },
+  
   addComment: async (accessToken: string, id: string, comment: string) => {
     return authenticatedRequest(`/defects/${id}/comments`, accessToken, {
       method: 'POST',
@@ -94,10 +231,149 @@ export const defectsAPI = {
   },
 };
 
+// Attachments API
+export const attachmentsAPI = {
+  upload: async (accessToken: string, defectId: string, file: File, thumbnail?: Blob | null) => {
+    const body = new FormData();
+    body.append('file', file);
+    if (thumbnail) {
+      body.append('thumbnail', thumbnail, `${file.name}.thumbnail.jpg`);
+    }
+    return authenticatedRequest(`/defects/${defectId}/attachments`, accessToken, {
+      method: 'POST',
+      body,
+    });
+  },
+  
+  download: async (accessToken: string, defectId: string, attachmentId: string, variant?: 'thumbnail') => {
+    const query = variant ? `?variant=${variant}` : '';
+    return authenticatedFileRequest(`/defects/${defectId}/attachments/${attachmentId}${query}`, accessToken);
+  },
+  
+  delete: async (accessToken: string, defectId: string, attachmentId: string) => {
+    return authenticatedRequest(`/defects/${defectId}/attachments/${attachmentId}`, accessToken, {
+      method: 'DELETE',
+    });
+  },
+};
+
 // Analytics API
 export const analyticsAPI = {
-  getStats: async (accessToken: string) => {
-    return authenticatedRequest('/analytics', accessToken);
+  // Takes the defect list filters; createdFrom / createdTo select the period
+  getStats: async (accessToken: string, params: DefectQueryParams = {}) => {
+    return authenticatedRequest(`/analytics${toQueryString({ ...params })}`, accessToken);
+  },
+
+  // Time to close, time in status, reopen rate and first response, with the same filters
+  getLifecycle: async (accessToken: string, params: DefectQueryParams = {}) => {
+    return authenticatedRequest(`/analytics/lifecycle${toQueryString({ ...params })}`, accessToken);
+  },
+};
+
+// Search API
+export const searchAPI = {
+  // Ranked defects for the query, with highlighted snippets of the matching fields
+  search: async (accessToken: string, q: string, params: { projectId?: string; limit?: number } = {}) => {
+    return authenticatedRequest(`/search${toQueryString({ q, ...params })}`, accessToken);
+  },
+};
+
+// Admin maintenance API
+export const adminAPI = {
+  reindex: async (accessToken: string) => {
+    return authenticatedRequest('/admin/reindex', accessToken, {
+      method: 'POST',
+    });
+  },
+  
+  backfillMemberships: async (accessToken: string) => {
+    return authenticatedRequest('/admin/memberships/backfill', accessToken, {
+      method: 'POST',
+    });
+  },
+  
+  getJobs: async (accessToken: string) => {
+    return authenticatedRequest('/admin/jobs', accessToken);
+  },
+  
+  runJob: async (accessToken: string, name: string) => {
+    return authenticatedRequest(`/admin/jobs/${name}/run`, accessToken, {
+      method: 'POST',
+    });
+  },
+};
+
+// Notifications API
+export const notificationsAPI = {
+  getAll: async (accessToken: string, unreadOnly = false) => {
+    return authenticatedRequest(`/notifications${unreadOnly ? '?unread=true' : ''}`, accessToken);
+  },
+  
+  // Marks all notifications read when no ids are given
+  markRead: async (accessToken: string, ids?: string[]) => {
+    return authenticatedRequest('/notifications/read', accessToken, {
+      method: 'POST',
+      body: JSON.stringify(ids ? { ids } : {}),
+    });
+  },
+};
+
+// Webhooks API
+export const webhooksAPI = {
+  getAll: async (accessToken: string) => {
+    return authenticatedRequest('/webhooks', accessToken);
+  },
+  
+  create: async (accessToken: string, webhook: { url: string; events: string[] }) => {
+    return authenticatedRequest('/webhooks', accessToken, {
+      method: 'POST',
+      body: JSON.stringify(webhook),
+    });
+  },
+  
+  update: async (accessToken: string, id: string, updates: { url?: string; events?: string[]; active?: boolean }) => {
+    return authenticatedRequest(`/webhooks/${id}`, accessToken, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  },
+  
+  delete: async (accessToken: string, id: string) => {
+    return authenticatedRequest(`/webhooks/${id}`, accessToken, {
+      method: 'DELETE',
+    });
+  },
+  
+  getDeliveries: async (accessToken: string, id: string) => {
+    return authenticatedRequest(`/webhooks/${id}/deliveries`, accessToken);
+  },
+};
+
+// SLA API
+export const slaAPI = {
+  getPolicy: async (accessToken: string) => {
+    return authenticatedRequest('/sla/policy', accessToken);
+  },
+  
+  updatePolicy: async (accessToken: string, policy: Record<string, number>) => {
+    return authenticatedRequest('/sla/policy', accessToken, {
+      method: 'PUT',
+      body: JSON.stringify(policy),
+    });
+  },
+};
+
+// Settings API
+export const settingsAPI = {
+  getNotifications: async (accessToken: string) => {
+    return authenticatedRequest('/settings/notifications', accessToken);
+  },
+  
+  updateNotifications: async (accessToken: string, settings: Record<string, boolean>) => {
+    return authenticatedRequest('/settings/notifications', accessToken, {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
   },
 };
 
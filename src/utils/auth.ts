@@ -0,0 +1,113 @@
+import { projectId, publicAnonKey } from './supabase/info';
+import { authAPI } from './api';
+
+// "local" talks to the server's own /login endpoint (AUTH_PROVIDER=local on the server),
+// anything else uses Supabase Auth.
+const AUTH_MODE = import.meta.env.VITE_AUTH_MODE === 'local' ? 'local' : 'supabase';
+
+const LOCAL_SESSION_KEY = 'defect-app-session';
+
+export interface AuthSession {
+  accessToken: string;
+  user: {
+    id: string;
+    email: string;
+    user_metadata: Record<string, any>;
+  };
+}
+
+interface AuthClient {
+  signIn: (email: string, password: string) => Promise<AuthSession>;
+  getSession: () => Promise<AuthSession | null>;
+  signOut: () => Promise<void>;
+}
+
+async function getSupabaseClient() {
+  const { createClient } = await import("@supabase/supabase-js");
+  return createClient(`https://${projectId}.supabase.co`, publicAnonKey);
+}
+
+const supabaseAuthClient: AuthClient = {
+  signIn: async (email, password) => {
+    const supabase = await getSupabaseClient();
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) {
+      throw error;
+    }
+    if (!data.session?.access_token) {
+      throw new Error('Сессия не получена');
+    }
+    return {
+      accessToken: data.session.access_token,
+      user: {
+        id: data.session.user.id,
+        email: data.session.user.email || email,
+        user_metadata: data.session.user.user_metadata || {},
+      },
+    };
+  },
+
+  getSession: async () => {
+    const supabase = await getSupabaseClient();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      return null;
+    }
+    return {
+      accessToken: session.access_token,
+      user: {
+        id: session.user.id,
+        email: session.user.email || '',
+        user_metadata: session.user.user_metadata || {},
+      },
+    };
+  },
+
+  signOut: async () => {
+    const supabase = await getSupabaseClient();
+    await supabase.auth.signOut();
+  },
+};
+
+// Reads the expiry from a JWT without verifying it; the server does the verification
+function isTokenExpired(token: string) {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' && payload.exp * 1000 < Date.now();
+  } catch {
+    return true;
+  }
+}
+
+const localAuthClient: AuthClient = {
+  signIn: async (email, password) => {
+    const { access_token, user } = await authAPI.login(email, password);
+    const session: AuthSession = { accessToken: access_token, user };
+    localStorage.setItem(LOCAL_SESSION_KEY, JSON.stringify(session));
+    return session;
+  },
+
+  getSession: async () => {
+    const stored = localStorage.getItem(LOCAL_SESSION_KEY);
+    if (!stored) {
+      return null;
+    }
+    try {
+      const session: AuthSession = JSON.parse(stored);
+      if (isTokenExpired(session.accessToken)) {
+        localStorage.removeItem(LOCAL_SESSION_KEY);
+        return null;
+      }
+      return session;
+    } catch {
+      localStorage.removeItem(LOCAL_SESSION_KEY);
+      return null;
+    }
+  },
+
+  signOut: async () => {
+    localStorage.removeItem(LOCAL_SESSION_KEY);
+  },
+};
+
+export const authClient: AuthClient = AUTH_MODE === 'local' ? localAuthClient : supabaseAuthClient;
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { Workbook } from 'exceljs';
+import { guessByHints, guessValue, parseCsv, prepareRows, readSpreadsheet } from './defectImport';
+
+describe('guessByHints', () => {
+  const hints = {
+    'Закрыта': ['закры', 'устранен', 'done'],
+    'В работе': ['работ', 'устраня'],
+  };
+
+  it('prefers an exact match', () => {
+    expect(guessByHints('закрыта', hints)).toBe('Закрыта');
+    expect(guessByHints(' DONE ', hints)).toBe('Закрыта');
+  });
+
+  it('matches hints at the start of a word', () => {
+    expect(guessByHints('Дефект устранён', hints)).toBe('Закрыта');
+    expect(guessByHints('Переработка', hints)).toBe('');
+  });
+
+  it('takes the longest matching hint', () => {
+    expect(guessByHints('Устраняется, в работе', hints)).toBe('В работе');
+    expect(guessByHints('Закрыто, работы приняты', hints)).toBe('Закрыта');
+  });
+
+  it('leaves negated values unmapped', () => {
+    expect(guessByHints('Не устранено', hints)).toBe('');
+    expect(guessByHints('not done', hints)).toBe('');
+    expect(guessByHints('Незакрыто', hints)).toBe('');
+  });
+});
+
+describe('guessValue', () => {
+  it('maps free-text priorities', () => {
+    expect(guessValue('priority', 'Критический', [])).toBe('Критический');
+    expect(guessValue('priority', 'Срочно!', [])).toBe('Критический');
+    expect(guessValue('priority', 'Незначительный', [])).toBe('Низкий');
+    expect(guessValue('priority', 'Некритичный', [])).toBe('');
+    expect(guessValue('priority', 'non-critical', [])).toBe('');
+  });
+
+  it('maps free-text statuses', () => {
+    expect(guessValue('status', 'Выполнено', [])).toBe('Закрыта');
+    expect(guessValue('status', 'Не устранено', [])).toBe('');
+  });
+
+  it('finds assignees by full name, email or surname', () => {
+    const users = [{ id: 'u1', name: 'Иван Иванов', email: 'ivan@example.com' }];
+    expect(guessValue('assignee', 'иван иванов', users)).toBe('u1');
+    expect(guessValue('assignee', 'IVAN@example.com', users)).toBe('u1');
+    expect(guessValue('assignee', 'Иванов И.И.', users)).toBe('u1');
+    expect(guessValue('assignee', 'Петров', users)).toBe('');
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads quoted fields with delimiters, quotes and line breaks', () => {
+    expect(parseCsv('a,b\r\n"x, y","say ""hi""\nthere"\r\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+    ]);
+  });
+
+  it('detects the semicolon Excel uses for Russian locales and drops the BOM', () => {
+    expect(parseCsv('﻿Название;Срок\nТрещина;05.03.2026')).toEqual([
+      ['Название', 'Срок'],
+      ['Трещина', '05.03.2026'],
+    ]);
+  });
+
+  it('keeps blank lines so line numbers match the file', () => {
+    expect(parseCsv('a\n\nb\n')).toEqual([['a'], [''], ['b']]);
+  });
+});
+
+describe('readSpreadsheet', () => {
+  const xlsxFile = async (fill: (workbook: Workbook) => void) => {
+    const workbook = new Workbook();
+    fill(workbook);
+    return new File([await workbook.xlsx.writeBuffer()], 'дефекты.xlsx');
+  };
+
+  it('reads the first sheet of an .xlsx workbook as text', async () => {
+    const file = await xlsxFile((workbook) => {
+      const sheet = workbook.addWorksheet('Замечания');
+      sheet.addRow(['Наименование', 'Срок', 'Кол-во', '']);
+      sheet.addRow([' Трещина ', new Date(Date.UTC(2026, 2, 5)), 3, 'x']);
+      sheet.addRow([]);
+      sheet.addRow([
+        { richText: [{ text: 'Скол ' }, { text: 'плитки', font: { bold: true } }] },
+        { formula: 'DATE(2026,3,6)', result: new Date(Date.UTC(2026, 2, 6)) },
+        { formula: '1+1', result: 2 },
+      ]);
+      workbook.addWorksheet('Справочник').addRow(['не читается']);
+    });
+
+    expect(await readSpreadsheet(file)).toEqual({
+      headers: ['Наименование', 'Срок', 'Кол-во', 'Столбец 4'],
+      rows: [['Трещина', '2026-03-05', '3', 'x'], [], ['Скол плитки', '2026-03-06', '2']],
+    });
+  });
+
+  it('reads an empty workbook as no rows', async () => {
+    expect(await readSpreadsheet(await xlsxFile(() => {}))).toEqual({ headers: [], rows: [] });
+  });
+
+  it('reads other files as CSV', async () => {
+    const file = new File(['Название;Срок\r\nТрещина;05.03.2026\r\n'], 'дефекты.csv');
+    expect(await readSpreadsheet(file)).toEqual({ headers: ['Название', 'Срок'], rows: [['Трещина', '05.03.2026']] });
+  });
+});
+
+describe('prepareRows', () => {
+  const sheet = {
+    headers: ['Название', 'Приоритет', 'Исполнитель', 'Срок'],
+    rows: [
+      ['Трещина', 'Срочно', 'Иванов', '05.03.2026'],
+      ['', '', '', ''],
+      ['Протечка', 'Странный', 'Петров', ''],
+    ],
+  };
+  const columns = { title: 0, priority: 1, assignee: 2, dueDate: 3 };
+  const values = {
+    priority: { 'Срочно': 'Критический', 'Странный': '' },
+    status: {},
+    assignee: { 'Иванов': 'u1', 'Петров': '' },
+  };
+
+  it('maps values, converts dates and skips empty lines', () => {
+    const [first, second] = prepareRows(sheet, columns, values);
+    expect(first).toEqual({
+      line: 2,
+      data: { title: 'Трещина', priority: 'Критический', assignee: 'u1', dueDate: '2026-03-05' },
+      errors: {},
+    });
+    expect(second.line).toBe(4);
+  });
+
+  it('sends unmapped priorities as they are and reports unmapped assignees', () => {
+    const [, second] = prepareRows(sheet, columns, values);
+    expect(second.data).toEqual({ title: 'Протечка', priority: 'Странный' });
+    expect(second.errors).toEqual({ assignee: '«Петров» не сопоставлен с пользователем' });
+  });
+});
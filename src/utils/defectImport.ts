@@ -0,0 +1,270 @@
+import { DEFECT_STATUSES } from "../supabase/functions/server/workflow";
+
+export type ImportField = 'title' | 'description' | 'priority' | 'status' | 'assignee' | 'dueDate';
+
+// Fields whose free-text values are mapped to known values one by one
+export type MappedField = 'priority' | 'status' | 'assignee';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean; hints: string[] }[] = [
+  { field: 'title', label: 'Название', required: true, hints: ['назван', 'наименован', 'замечан', 'дефект', 'title'] },
+  { field: 'description', label: 'Описание', hints: ['описан', 'комментар', 'description'] },
+  { field: 'priority', label: 'Приоритет', required: true, hints: ['приоритет', 'важност', 'критичн', 'priority'] },
+  { field: 'status', label: 'Статус', hints: ['статус', 'состоян', 'status'] },
+  { field: 'assignee', label: 'Исполнитель', hints: ['исполнител', 'ответствен', 'assignee'] },
+  { field: 'dueDate', label: 'Срок', hints: ['срок', 'дата устран', 'due'] },
+];
+
+export const PRIORITIES = ['Критический', 'Высокий', 'Средний', 'Низкий'];
+
+// Word stems of free-text priorities and statuses seen in contractors' spreadsheets
+const PRIORITY_HINTS: Record<string, string[]> = {
+  'Критический': ['крит', 'аварий', 'срочн', 'critical', 'blocker'],
+  'Высокий': ['высок', 'важн', 'high', 'major'],
+  'Средний': ['средн', 'обычн', 'medium', 'normal'],
+  'Низкий': ['низк', 'незначит', 'low', 'minor'],
+};
+
+const STATUS_HINTS: Record<string, string[]> = {
+  'Новая': ['нов', 'откры', 'new', 'open'],
+  'В работе': ['работ', 'устраня', 'progress'],
+  'На проверке': ['провер', 'review'],
+  'Закрыта': ['закры', 'устранен', 'выполнен', 'closed', 'done'],
+  'Отменена': ['отмен', 'cancel'],
+};
+
+export interface Spreadsheet {
+  headers: string[];
+  rows: string[][];
+}
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/ё/g, 'е');
+
+// Excel saves CSV in Windows-1251 here, so text that is not valid UTF-8 is decoded as that
+const decodeCsv = (buffer: ArrayBuffer) => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1251').decode(buffer);
+  }
+};
+
+// Excel uses the list separator of the system locale, which is ";" for Russian
+const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  const counts = [',', ';', '\t'].map(delimiter => [delimiter, firstLine.split(delimiter).length] as const);
+  return counts.reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+};
+
+// RFC 4180: quoted fields may hold delimiters, line breaks and doubled quotes.
+// Blank lines are kept so that line numbers match the file.
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    rows.push([...row, field]);
+  }
+  return rows;
+}
+
+// Excel date cells arrive as Date objects at UTC midnight of the day shown; formulas,
+// rich text and links are read as the text they display
+const cellText = (value: unknown): string => {
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  if (value && typeof value === 'object') {
+    const cell = value as { result?: unknown; richText?: { text: string }[]; text?: unknown };
+    if ('result' in cell) return cellText(cell.result);
+    if (cell.richText) return cell.richText.map(part => part.text).join('').trim();
+    if ('text' in cell) return cellText(cell.text);
+    return '';
+  }
+  return String(value ?? '').trim();
+};
+
+// Rows of the first sheet of an Excel workbook. Blank rows are kept, as in parseCsv.
+const readWorkbook = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  // Loaded on demand, it is the largest dependency of the app
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  await workbook.xlsx.load(buffer);
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    return [];
+  }
+  const rows: string[][] = [];
+  for (let r = 1; r <= worksheet.rowCount; r++) {
+    const row = worksheet.getRow(r);
+    rows.push(Array.from({ length: row.cellCount }, (_, c) => cellText(row.getCell(c + 1).value)));
+  }
+  return rows;
+};
+
+// Reads the first sheet of an .xlsx workbook or a CSV file. CSV cells stay text, so dates
+// like 05.03.2026 are not read the American way.
+export async function readSpreadsheet(file: File): Promise<Spreadsheet> {
+  const buffer = await file.arrayBuffer();
+  const [headerRow = [], ...rows] = /\.xlsx$/i.test(file.name) ? await readWorkbook(buffer) : parseCsv(decodeCsv(buffer));
+  return {
+    headers: headerRow.map((header, index) => header.trim() || `Столбец ${index + 1}`),
+    // Empty rows are skipped later
+    rows: rows.map(row => row.map(cell => cell.trim())),
+  };
+}
+
+// Index of the column whose header looks like the field, or -1
+export const guessColumn = (headers: string[], field: ImportField) => {
+  const { hints } = IMPORT_FIELDS.find(entry => entry.field === field)!;
+  return headers.findIndex(header => hints.some(hint => normalize(header).includes(hint)));
+};
+
+// Words and prefixes that turn "устранено" into "не устранено" or "critical" into "non-critical"
+const NEGATIONS = ['не', 'non', 'not', 'un'];
+
+// Known value whose hint starts a word of the value. An exact match wins, otherwise the
+// longest hint does. A negated hint leaves the value unmapped, since "Не устранено" or
+// "Некритичный" mean something else than the hint.
+export const guessByHints = (value: string, hints: Record<string, string[]>) => {
+  const text = normalize(value);
+  const exact = Object.keys(hints).find(known => normalize(known) === text || hints[known].includes(text));
+  if (exact) {
+    return exact;
+  }
+
+  const words = text.match(/[\p{L}\p{N}]+/gu) ?? [];
+  let best = { known: '', length: 0 };
+  for (const [known, stems] of Object.entries(hints)) {
+    for (const hint of stems) {
+      for (const [index, word] of words.entries()) {
+        const negated = NEGATIONS.includes(words[index - 1])
+          || NEGATIONS.some(negation => word.startsWith(negation + hint));
+        if (!word.startsWith(hint) && !negated) {
+          continue;
+        }
+        if (negated) {
+          return '';
+        }
+        if (hint.length > best.length) {
+          best = { known, length: hint.length };
+        }
+      }
+    }
+  }
+  return best.known;
+};
+
+// Known value a free-text cell most likely means, or '' when nothing matches
+export const guessValue = (field: MappedField, value: string, users: any[]) => {
+  switch (field) {
+    case 'priority': return guessByHints(value, PRIORITY_HINTS);
+    case 'status': return guessByHints(value, STATUS_HINTS);
+    case 'assignee': {
+      const text = normalize(value);
+      const user = users.find(u => normalize(u.name || '') === text || normalize(u.email || '') === text)
+        // "Иванов И.И." or "Иванов" for "Иван Иванов"
+        ?? users.find(u => text.split(/[\s.]+/).some(part => part.length > 2 && normalize(u.name || '').split(/\s+/).includes(part)));
+      return user?.id ?? '';
+    }
+  }
+};
+
+export const mappedFieldOptions = (field: MappedField, users: any[]): { value: string; label: string }[] => {
+  switch (field) {
+    case 'priority': return PRIORITIES.map(priority => ({ value: priority, label: priority }));
+    case 'status': return DEFECT_STATUSES.map(status => ({ value: status, label: status }));
+    case 'assignee': return users.map(user => ({ value: user.id, label: user.name }));
+  }
+};
+
+// DD.MM.YYYY and YYYY-MM-DD become YYYY-MM-DD; anything else is passed on for the server to reject
+export const parseDateCell = (value: string) => {
+  const russian = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/);
+  if (russian) {
+    const [, day, month, year] = russian;
+    return `${year.length === 2 ? `20${year}` : year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+  return value;
+};
+
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+export type ValueMappings = Record<MappedField, Record<string, string>>;
+
+// Distinct non-empty values of a mapped column, in order of appearance
+export const distinctValues = (sheet: Spreadsheet, column: number | undefined) =>
+  column === undefined ? [] : [...new Set(sheet.rows.map(row => row[column] ?? '').filter(Boolean))];
+
+export interface PreparedRow {
+  // Line in the file, counting the header as line 1
+  line: number;
+  data: Record<string, string | null>;
+  // Problems the server cannot see, shown with the ones it reports for the row
+  errors: Record<string, string>;
+}
+
+// Turns sheet rows into request rows. Empty lines are skipped; unmapped priorities and
+// statuses are sent as they are so the server reports them against the row. An assignee
+// name means nothing to the server, so an unmapped one is reported here instead.
+export function prepareRows(sheet: Spreadsheet, columns: ColumnMapping, values: ValueMappings): PreparedRow[] {
+  const prepared: PreparedRow[] = [];
+  sheet.rows.forEach((row, index) => {
+    const cell = (field: ImportField) => {
+      const column = columns[field];
+      return column === undefined ? '' : row[column] ?? '';
+    };
+    if (IMPORT_FIELDS.every(({ field }) => cell(field) === '')) {
+      return;
+    }
+
+    const data: Record<string, string | null> = { title: cell('title') };
+    if (cell('description')) data.description = cell('description');
+    if (cell('dueDate')) data.dueDate = parseDateCell(cell('dueDate'));
+    for (const field of ['priority', 'status'] as MappedField[]) {
+      const text = cell(field);
+      if (text) {
+        data[field] = values[field][text] || text;
+      }
+    }
+    const errors: Record<string, string> = {};
+    const assignee = cell('assignee');
+    if (assignee) {
+      if (values.assignee[assignee]) {
+        data.assignee = values.assignee[assignee];
+      } else {
+        errors.assignee = `«${assignee}» не сопоставлен с пользователем`;
+      }
+    }
+    prepared.push({ line: index + 2, data, errors });
+  });
+  return prepared;
+}
@@ -0,0 +1,73 @@
+import { Workbook } from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import { defectRows, defectsWorkbook, toCsv } from './export';
+
+const LOOKUPS = {
+  projects: [{ id: 'p1', name: 'ЖК "Северный", корпус 2' }],
+  users: [{ id: 'u1', name: 'Иванов И.И.' }],
+};
+
+describe('toCsv', () => {
+  it('writes the header even without rows', () => {
+    expect(toCsv([], ['ID', 'Название'])).toBe('ID,Название\r\n');
+  });
+
+  it('leaves plain fields unquoted', () => {
+    expect(toCsv([{ ID: 'd1', 'Название': 'Трещина в стене' }], ['ID', 'Название'])).toBe(
+      'ID,Название\r\nd1,Трещина в стене\r\n'
+    );
+  });
+
+  it('quotes fields with commas, quotes and line breaks and doubles the quotes', () => {
+    const rows = [{ a: 'один, два', b: 'сказал "нет"', c: 'строка 1\nстрока 2', d: 'возврат\r' }];
+    expect(toCsv(rows, ['a', 'b', 'c', 'd'])).toBe(
+      'a,b,c,d\r\n"один, два","сказал ""нет""","строка 1\nстрока 2","возврат\r"\r\n'
+    );
+  });
+
+  it('writes nulls as empty fields', () => {
+    expect(toCsv([{ a: null, b: 0 }], ['a', 'b'])).toBe('a,b\r\n,0\r\n');
+  });
+
+  it('keeps cells that look like formulas as text', () => {
+    const rows = [{ a: '=HYPERLINK("http://evil.example")', b: '+7 900', c: '-1', d: '@SUM(A1)', e: '\tзначение' }];
+    expect(toCsv(rows, ['a', 'b', 'c', 'd', 'e'])).toBe(
+      'a,b,c,d,e\r\n"\'=HYPERLINK(""http://evil.example"")",\'+7 900,\'-1,\'@SUM(A1),\'\tзначение\r\n'
+    );
+  });
+
+  it('quotes looked-up names like any other field', () => {
+    const [row] = defectRows([{ id: 'd1', title: 'Скол', projectId: 'p1', assignee: 'u1' }], LOOKUPS);
+    const csv = toCsv([row], ['Проект', 'Исполнитель']);
+    expect(csv).toBe('Проект,Исполнитель\r\n"ЖК ""Северный"", корпус 2",Иванов И.И.\r\n');
+  });
+});
+
+describe('defectRows', () => {
+  it('keeps the time of SLA due dates and reads calendar days as local midnight', () => {
+    const dueAt = new Date(2025, 2, 10, 14, 30);
+    const rows = defectRows([
+      { id: 'd1', dueDate: dueAt.toISOString() },
+      { id: 'd2', dueDate: '2025-03-10' },
+    ], LOOKUPS);
+    expect(rows.map((row) => row['Срок'])).toEqual([dueAt, new Date(2025, 2, 10)]);
+    expect(toCsv(rows, ['Срок'])).toBe('Срок\r\n10.03.2025 14:30\r\n10.03.2025 00:00\r\n');
+  });
+});
+
+describe('defectsWorkbook', () => {
+  it('writes the defects and both summaries with due dates in local time', async () => {
+    const defects = [{ id: 'd1', title: 'Скол', projectId: 'p1', assignee: 'u1', dueDate: new Date(2025, 2, 10, 14, 30).toISOString() }];
+    const workbook = new Workbook();
+    await workbook.xlsx.load(await defectsWorkbook(defects, LOOKUPS, new Date(2025, 2, 1)));
+
+    expect(workbook.worksheets.map((sheet) => sheet.name)).toEqual(['Дефекты', 'По проектам', 'По исполнителям']);
+    const sheet = workbook.getWorksheet('Дефекты')!;
+    const header = sheet.getRow(1).values as unknown[];
+    const due = sheet.getRow(2).getCell(header.indexOf('Срок'));
+    expect(sheet.getRow(2).getCell(header.indexOf('Проект')).value).toBe('ЖК "Северный", корпус 2');
+    expect(due.value).toEqual(new Date(Date.UTC(2025, 2, 10, 14, 30)));
+    expect(due.numFmt).toBe('dd.mm.yyyy hh:mm');
+    expect(workbook.getWorksheet('По исполнителям')!.getRow(2).getCell(1).value).toBe('Иванов И.И.');
+  });
+});
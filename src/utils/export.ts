@@ -0,0 +1,157 @@
+import { FINAL_STATUSES, isOverdue } from "../supabase/functions/server/defect_query";
+import { SLA_STATE_LABELS, getSlaState } from "../supabase/functions/server/sla";
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export interface ExportLookups {
+  projects: any[];
+  users: any[];
+}
+
+type Cell = string | number | Date | null;
+type Row = Record<string, Cell>;
+
+const nameOf = (items: any[], id: string | null | undefined, fallback: string) =>
+  id ? items.find(item => item.id === id)?.name || 'Неизвестно' : fallback;
+
+// Due dates picked by hand are calendar days and are read as local midnight;
+// every other value is an exact timestamp
+const toDate = (value: string | null | undefined) =>
+  value ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00` : value) : null;
+
+// Every field a report reader needs, in column order. Dates stay Date objects so XLSX
+// cells get a date type; CSV formats them.
+const DEFECT_COLUMNS: [string, (defect: any, lookups: ExportLookups, now: Date) => Cell][] = [
+  ['ID', defect => defect.id],
+  ['Название', defect => defect.title],
+  ['Описание', defect => defect.description || ''],
+  ['Проект', (defect, { projects }) => nameOf(projects, defect.projectId, '')],
+  ['Статус', defect => defect.status],
+  ['Приоритет', defect => defect.priority],
+  ['Исполнитель', (defect, { users }) => nameOf(users, defect.assignee, 'Не назначен')],
+  ['Автор', (defect, { users }) => nameOf(users, defect.createdBy, '')],
+  ['Срок', defect => toDate(defect.dueDate)],
+  ['SLA', (defect, _lookups, now) => SLA_STATE_LABELS[getSlaState(defect, now)]],
+  ['Создан', defect => toDate(defect.createdAt)],
+  ['Обновлен', defect => toDate(defect.updatedAt)],
+  ['Закрыт', defect => toDate(defect.closedAt)],
+  ['Комментарий к решению', defect => defect.resolution || ''],
+  ['Комментариев', defect => (defect.comments || []).length],
+];
+
+const DEFECT_HEADER = DEFECT_COLUMNS.map(([column]) => column);
+
+// One row per defect
+export function defectRows(defects: any[], lookups: ExportLookups, now = new Date()): Row[] {
+  return defects.map(defect =>
+    Object.fromEntries(DEFECT_COLUMNS.map(([column, value]) => [column, value(defect, lookups, now)]))
+  );
+}
+
+// Totals per project or assignee for the summary sheets
+function summaryRows(defects: any[], groupLabel: string, keyOf: (defect: any) => string, now: Date): Row[] {
+  const groups = new Map<string, any[]>();
+  for (const defect of defects) {
+    const key = keyOf(defect);
+    groups.set(key, [...(groups.get(key) ?? []), defect]);
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b, 'ru'))
+    .map(([name, group]) => {
+      const closed = group.filter(d => d.status === 'Закрыта').length;
+      return {
+        [groupLabel]: name,
+        'Всего': group.length,
+        'Открыто': group.filter(d => !FINAL_STATUSES.includes(d.status)).length,
+        'Закрыто': closed,
+        'Отменено': group.filter(d => d.status === 'Отменена').length,
+        'Просрочено': group.filter(d => isOverdue(d, now)).length,
+        'Процент выполнения': Math.round(closed / group.length * 100),
+      };
+    });
+}
+
+const formatCell = (value: Cell) => {
+  if (value === null) return '';
+  if (value instanceof Date) {
+    return `${value.toLocaleDateString('ru')} ${value.toLocaleTimeString('ru', { hour: '2-digit', minute: '2-digit' })}`;
+  }
+  return String(value);
+};
+
+// Spreadsheets run a cell starting with one of these as a formula, so such cells get a
+// leading apostrophe and stay text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// RFC 4180: fields with commas, quotes or line breaks are quoted, quotes are doubled
+const escapeCsvField = (value: string) => {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The header row is written even when there are no rows
+export function toCsv(rows: Row[], header: string[]): string {
+  const lines = [header, ...rows.map(row => header.map(column => formatCell(row[column])))];
+  return lines.map(line => line.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// The BOM makes Excel read the file as UTF-8 instead of the system code page
+export function exportDefectsCsv(defects: any[], lookups: ExportLookups, fileName: string) {
+  const csv = toCsv(defectRows(defects, lookups), DEFECT_HEADER);
+  downloadBlob(new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }), fileName);
+}
+
+// ExcelJS stores dates as UTC, so they are shifted to show the same local time as the CSV
+const toExcelValue = (value: Cell) =>
+  value instanceof Date ? new Date(value.getTime() - value.getTimezoneOffset() * 60 * 1000) : value;
+
+// The defects sheet and the summaries per project and assignee, as .xlsx bytes
+export async function defectsWorkbook(defects: any[], lookups: ExportLookups, now = new Date()): Promise<ArrayBuffer> {
+  // Loaded on demand, it is the largest dependency of the app
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+
+  const addSheet = (name: string, rows: Row[], header = Object.keys(rows[0] ?? {})) => {
+    const worksheet = workbook.addWorksheet(name);
+    worksheet.addRow(header);
+    for (const row of rows) {
+      worksheet.addRow(header.map(column => toExcelValue(row[column])));
+    }
+    header.forEach((column, index) => {
+      const width = rows.reduce((max, row) => Math.max(max, formatCell(row[column]).length), column.length) + 2;
+      worksheet.getColumn(index + 1).width = Math.min(60, width);
+    });
+    worksheet.eachRow(row => row.eachCell(cell => {
+      if (cell.value instanceof Date) cell.numFmt = 'dd.mm.yyyy hh:mm';
+    }));
+  };
+
+  addSheet('Дефекты', defectRows(defects, lookups, now), DEFECT_HEADER);
+  addSheet('По проектам', summaryRows(defects, 'Проект', d => nameOf(lookups.projects, d.projectId, ''), now));
+  addSheet('По исполнителям', summaryRows(defects, 'Исполнитель', d => nameOf(lookups.users, d.assignee, 'Не назначен'), now));
+  return workbook.xlsx.writeBuffer();
+}
+
+export async function exportDefectsXlsx(defects: any[], lookups: ExportLookups, fileName: string) {
+  const data = await defectsWorkbook(defects, lookups);
+  downloadBlob(new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), fileName);
+}
+
+export async function exportDefects(format: 'csv' | 'xlsx', defects: any[], lookups: ExportLookups) {
+  const fileName = `defects_report_${new Date().toISOString().split('T')[0]}.${format}`;
+  if (format === 'csv') {
+    exportDefectsCsv(defects, lookups, fileName);
+  } else {
+    await exportDefectsXlsx(defects, lookups, fileName);
+  }
+}
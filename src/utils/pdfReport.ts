@@ -0,0 +1,272 @@
+import { attachmentsAPI } from "./api";
+import { formatDueDate } from "../components/SlaBadge";
+import { SLA_STATE_LABELS, getSlaState } from "../supabase/functions/server/sla";
+import { DEFECT_STATUSES } from "../supabase/functions/server/workflow";
+
+export interface DefectReportOptions {
+  accessToken: string;
+  // Project name, or a description of the selection for reports over several projects
+  subject: string;
+  period: string;
+  defects: any[];
+  // The /analytics response for the same defects
+  analytics: any;
+  projects: any[];
+  users: any[];
+}
+
+const PRIORITIES = ['Критический', 'Высокий', 'Средний', 'Низкий'];
+
+// Width of the A4 page between the margins, in points
+const CONTENT_WIDTH = 515;
+const BAR_WIDTH = 300;
+const BAR_COLOR = '#8884d8';
+
+// Thumbnails per defect; the report is meant to be read, not to archive every file
+const MAX_PHOTOS_PER_DEFECT = 4;
+
+const formatDate = (value: string | null | undefined) => (value ? new Date(value).toLocaleDateString('ru') : '—');
+
+const nameOf = (items: any[], id: string | null | undefined, fallback = '—') =>
+  id ? items.find(item => item.id === id)?.name || 'Неизвестно' : fallback;
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Photo thumbnails as data URLs, keyed by defect id. Photos that fail to load are left out.
+async function loadPhotos(accessToken: string, defects: any[]) {
+  const photos = new Map<string, string[]>();
+  for (const defect of defects) {
+    const images = (defect.attachments || [])
+      .filter((attachment: any) => attachment.thumbnailPath)
+      .slice(0, MAX_PHOTOS_PER_DEFECT);
+    const urls = await Promise.all(images.map(async (attachment: any) => {
+      try {
+        return await blobToDataUrl(await attachmentsAPI.download(accessToken, defect.id, attachment.id, 'thumbnail'));
+      } catch (error) {
+        console.error('Report photo error:', error);
+        return null;
+      }
+    }));
+    photos.set(defect.id, urls.filter((url): url is string => url !== null));
+  }
+  return photos;
+}
+
+const sectionTitle = (text: string) => ({ text, style: 'section' });
+
+// Horizontal bars with a label and value per row
+function barChart(items: { label: string; value: number }[]) {
+  const max = Math.max(1, ...items.map(item => item.value));
+  return {
+    table: {
+      widths: [140, BAR_WIDTH, '*'],
+      body: items.map(({ label, value }) => [
+        { text: label, margin: [0, 2, 0, 2] },
+        { canvas: [{ type: 'rect', x: 0, y: 3, w: Math.max(1, value / max * BAR_WIDTH), h: 10, color: value > 0 ? BAR_COLOR : '#eeeeee' }] },
+        { text: String(value), alignment: 'right', margin: [0, 2, 0, 2] }
+      ])
+    },
+    layout: 'noBorders',
+    margin: [0, 0, 0, 15]
+  };
+}
+
+// Vertical bars for defects created per day, with the first and last date underneath.
+// Callers pass at most a few dozen days so the bars stay readable.
+function timelineChart(timeline: { date: string; count: number }[]) {
+  const height = 100;
+  const max = Math.max(1, ...timeline.map(entry => entry.count));
+  const step = CONTENT_WIDTH / timeline.length;
+  return {
+    stack: [
+      {
+        canvas: [
+          ...timeline.map((entry, index) => {
+            const barHeight = entry.count / max * height;
+            return { type: 'rect', x: index * step + step * 0.15, y: height - barHeight, w: step * 0.7, h: barHeight, color: BAR_COLOR };
+          }),
+          { type: 'line', x1: 0, y1: height, x2: CONTENT_WIDTH, y2: height, lineWidth: 0.5, lineColor: '#999999' }
+        ]
+      },
+      {
+        columns: [
+          { text: formatDate(timeline[0].date), fontSize: 8 },
+          { text: `Максимум за день: ${max}`, fontSize: 8, alignment: 'center' },
+          { text: formatDate(timeline[timeline.length - 1].date), fontSize: 8, alignment: 'right' }
+        ],
+        margin: [0, 3, 0, 0]
+      }
+    ],
+    margin: [0, 0, 0, 15]
+  };
+}
+
+function summaryTable(analytics: any) {
+  const closed = analytics.statusCount['Закрыта'] || 0;
+  const rows = [
+    ['Всего дефектов', String(analytics.totalDefects)],
+    ['Открыто', String(analytics.totalDefects - closed - (analytics.statusCount['Отменена'] || 0))],
+    ['Закрыто', String(closed)],
+    ['Просрочено', String(analytics.overdue)],
+    ['Процент выполнения', `${analytics.totalDefects ? Math.round(closed / analytics.totalDefects * 100) : 0}%`],
+    ['Соблюдение SLA', analytics.sla.complianceRate === null ? '—' : `${analytics.sla.complianceRate}%`],
+  ];
+  return {
+    table: { widths: [200, '*'], body: rows.map(([label, value]) => [label, { text: value, bold: true }]) },
+    layout: 'lightHorizontalLines',
+    margin: [0, 0, 0, 20]
+  };
+}
+
+function defectsTable(defects: any[], users: any[]) {
+  return {
+    table: {
+      headerRows: 1,
+      widths: [20, '*', 60, 60, 80, 55, 55],
+      body: [
+        ['№', 'Название', 'Статус', 'Приоритет', 'Исполнитель', 'Срок', 'Создан'].map(text => ({ text, style: 'tableHeader' })),
+        ...defects.map((defect, index) => [
+          String(index + 1),
+          defect.title,
+          defect.status,
+          defect.priority,
+          nameOf(users, defect.assignee, 'Не назначен'),
+          defect.dueDate ? formatDueDate(defect) : '—',
+          formatDate(defect.createdAt)
+        ])
+      ]
+    },
+    layout: 'lightHorizontalLines',
+    fontSize: 8
+  };
+}
+
+// Full card of one defect: fields, description, photos and comments
+function defectDetails(defect: any, index: number, options: DefectReportOptions, photos: string[]) {
+  const { projects, users } = options;
+  const fields = [
+    ['Проект', nameOf(projects, defect.projectId)],
+    ['Статус', defect.status],
+    ['Приоритет', defect.priority],
+    ['Исполнитель', nameOf(users, defect.assignee, 'Не назначен')],
+    ['Автор', nameOf(users, defect.createdBy)],
+    ['Срок', defect.dueDate ? `${formatDueDate(defect)} (${SLA_STATE_LABELS[getSlaState(defect)]})` : '—'],
+    ['Создан', formatDate(defect.createdAt)],
+  ];
+  if (defect.resolution) {
+    fields.push(['Комментарий к решению', defect.resolution]);
+  }
+
+  const comments = defect.comments || [];
+  return {
+    stack: [
+      { text: `${index + 1}. ${defect.title}`, style: 'defectTitle' },
+      {
+        table: { widths: [120, '*'], body: fields.map(([label, value]) => [{ text: label, color: '#666666' }, value]) },
+        layout: 'noBorders',
+        margin: [0, 0, 0, 5]
+      },
+      defect.description ? { text: defect.description, margin: [0, 0, 0, 5] } : '',
+      photos.length > 0 ? {
+        columns: photos.map(image => ({ image, fit: [120, 120], width: 125 })),
+        columnGap: 5,
+        margin: [0, 0, 0, 5]
+      } : '',
+      comments.length > 0 ? {
+        stack: [
+          { text: `Комментарии (${comments.length})`, bold: true, margin: [0, 3, 0, 3] },
+          ...comments.map((comment: any) => ({
+            text: [
+              { text: `${nameOf(users, comment.author)}, ${new Date(comment.timestamp).toLocaleString('ru')}: `, color: '#666666' },
+              comment.comment
+            ],
+            margin: [0, 0, 0, 3]
+          }))
+        ]
+      } : ''
+    ],
+    margin: [0, 0, 0, 15]
+  };
+}
+
+// Builds the report in the browser and downloads it. pdfmake and its fonts are loaded on demand;
+// its bundled Roboto covers Cyrillic.
+export async function downloadDefectReport(options: DefectReportOptions) {
+  const { defects, analytics, subject, period } = options;
+  const [{ default: pdfMake }, { default: vfs }, photos] = await Promise.all([
+    import('pdfmake/build/pdfmake'),
+    import('pdfmake/build/vfs_fonts'),
+    loadPhotos(options.accessToken, defects)
+  ]);
+  pdfMake.addVirtualFileSystem(vfs);
+
+  const generatedAt = new Date();
+  const statusItems = DEFECT_STATUSES.map(status => ({ label: status, value: analytics.statusCount[status] || 0 }));
+  const priorityItems = PRIORITIES.map(priority => ({ label: priority, value: analytics.priorityCount[priority] || 0 }));
+  const slaItems = [
+    { label: SLA_STATE_LABELS.on_track, value: analytics.sla.onTrack },
+    { label: SLA_STATE_LABELS.at_risk, value: analytics.sla.atRisk },
+    { label: SLA_STATE_LABELS.breached, value: analytics.sla.breached },
+    { label: SLA_STATE_LABELS.met, value: analytics.sla.met },
+    { label: SLA_STATE_LABELS.missed, value: analytics.sla.missed },
+  ];
+  const projectItems = (analytics.byProject || []).map((entry: any) => ({
+    label: nameOf(options.projects, entry.projectId),
+    value: entry.total ? Math.round(entry.completed / entry.total * 100) : 0
+  }));
+
+  const definition = {
+    pageSize: 'A4',
+    pageMargins: [40, 40, 40, 50],
+    info: { title: `Отчет по дефектам: ${subject}` },
+    footer: (currentPage: number, pageCount: number) => currentPage === 1 ? '' : {
+      text: `${subject} — стр. ${currentPage} из ${pageCount}`,
+      alignment: 'center',
+      fontSize: 8,
+      color: '#666666'
+    },
+    content: [
+      // Cover page
+      { text: 'Отчет по дефектам', style: 'coverTitle', margin: [0, 200, 0, 20] },
+      { text: subject, style: 'coverSubject' },
+      { text: period, alignment: 'center', margin: [0, 0, 0, 40] },
+      { text: `Дефектов в отчете: ${defects.length}`, alignment: 'center' },
+      { text: `Сформирован: ${generatedAt.toLocaleString('ru')}`, alignment: 'center', pageBreak: 'after' },
+
+      sectionTitle('Сводка'),
+      summaryTable(analytics),
+      sectionTitle('Распределение по статусам'),
+      barChart(statusItems),
+      sectionTitle('Распределение по приоритетам'),
+      barChart(priorityItems),
+      sectionTitle('Соблюдение SLA'),
+      barChart(slaItems),
+      ...(analytics.timeline?.length > 0 ? [sectionTitle('Динамика создания дефектов'), timelineChart(analytics.timeline.slice(-60))] : []),
+      ...(projectItems.length > 1 ? [sectionTitle('Процент выполнения по проектам'), barChart(projectItems)] : []),
+
+      { ...sectionTitle('Перечень дефектов'), pageBreak: 'before' },
+      defects.length > 0 ? defectsTable(defects, options.users) : { text: 'Дефектов нет' },
+
+      ...(defects.length > 0 ? [
+        { ...sectionTitle('Описание дефектов'), pageBreak: 'before' },
+        ...defects.map((defect, index) => defectDetails(defect, index, options, photos.get(defect.id) || []))
+      ] : [])
+    ],
+    styles: {
+      coverTitle: { fontSize: 28, bold: true, alignment: 'center' },
+      coverSubject: { fontSize: 18, alignment: 'center', margin: [0, 0, 0, 10] },
+      section: { fontSize: 14, bold: true, margin: [0, 0, 0, 8] },
+      defectTitle: { fontSize: 11, bold: true, margin: [0, 0, 0, 4] },
+      tableHeader: { bold: true }
+    },
+    defaultStyle: { fontSize: 10 }
+  };
+
+  const fileName = `report_${subject.replace(/[^\p{L}\p{N}]+/gu, '_')}_${generatedAt.toISOString().split('T')[0]}.pdf`;
+  pdfMake.createPdf(definition).download(fileName);
+}
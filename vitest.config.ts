@@ -0,0 +1,17 @@
+
+  import { defineConfig, mergeConfig } from 'vitest/config';
+  import viteConfig from './vite.config';
+
+  // The server is written for Deno and imports packages as `npm:` and `jsr:` specifiers.
+  // Tests map them to the packages installed in node_modules.
+  export default mergeConfig(viteConfig, defineConfig({
+    resolve: {
+      alias: [
+        { find: /^npm:((?:@[^/]+\/)?[^@/]+)(?:@[^/]*)?(\/.*)?$/, replacement: '$1$2' },
+        { find: /^jsr:(@[^/]+\/[^@/]+)(?:@[^/]*)?(\/.*)?$/, replacement: '$1$2' },
+      ],
+    },
+    test: {
+      setupFiles: ['./src/supabase/functions/server/test_setup.ts'],
+    },
+  }));